@@ -2,190 +2,445 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
 import {AnimateImagePage} from './components/AnimateImagePage';
+import {ApiKeySettingsPage} from './components/ApiKeySettingsPage';
+import {EditVideoPage} from './components/EditVideoPage';
 import {ErrorModal} from './components/ErrorModal';
-import {GeneratedImageModal} from './components/GeneratedImageModal';
 import {SavingProgressPage} from './components/SavingProgressPage';
 import {VideoPlayer} from './components/VideoPlayer';
-import {Video} from './types';
+import {BUILT_IN_STYLE_PRESETS, GALLERY_ITEMS} from './constants';
+import {deleteApiKey, listApiKeys, saveApiKey} from './services/apiKeyStore';
+import {CashCowResult, generateCashCowVideo} from './services/cashCow';
+import {DEFAULT_GENERATION_CONFIG} from './services/config';
+import {listCreations, saveCreation} from './services/creationStore';
+import {
+  CostEstimateRequest,
+  estimateCost,
+  RunCostReport,
+} from './services/costEstimation';
+import {classifyError, forScene, GenerationError} from './services/errors';
+import {createGeminiProvider, verifyApiKey} from './services/geminiProvider';
+import {
+  CallOptions,
+  GenerationProvider,
+  PromptFormat,
+  SceneRewriteRequest,
+} from './services/generationProvider';
+import {DEFAULT_IMAGE_SETTINGS, imageRequest} from './services/imageSettings';
+import {generateMusicVideo, MusicVideoResult} from './services/musicVideo';
+import {GenerationStage, runningStage} from './services/progress';
+import {
+  generateSceneFrame,
+  generateStoryboard,
+  StoryboardResult,
+  StoryboardRunOptions,
+} from './services/storyboard';
+import {
+  deleteStylePreset,
+  listStylePresets,
+  saveStylePreset,
+} from './services/stylePresetStore';
+import {deleteStyle, listStyles, saveStyle} from './services/styleStore';
+import {createUsageMeter, UsageMeter} from './services/usage';
+import {
+  DEFAULT_VIDEO_FORMAT,
+  imageAspectRatioFor,
+  videoAspectRatioFor,
+} from './services/videoFormat';
+import {
+  CastMember,
+  Creation,
+  ImageSettings,
+  NewCreation,
+  SavedStyle,
+  StoredApiKey,
+  StylePreset,
+  StyleProfile,
+  Video,
+  VideoFormat,
+} from './types';
 import {trackEvent} from './utils/analytics';
+import {TimedShot} from './utils/audioAnalysis';
+import {describeStylePreset, ExportedStylePreset} from './utils/stylePresets';
+import {useCreationVideos} from './utils/useCreationVideos';
+import {captureFirstFrame} from './utils/videoFrames';
+
+const defaultUsageMeter = createUsageMeter();
+
+/** The videos `video` was remixed from, nearest first. */
+const lineageOf = (video: Video, known: Video[]): Video[] => {
+  const lineage: Video[] = [];
+  let parentId = video.parentId;
+  // Stops at unknown parents and, defensively, at cycles.
+  while (parentId && !lineage.some((ancestor) => ancestor.id === parentId)) {
+    const parent = known.find((candidate) => candidate.id === parentId);
+    if (!parent) break;
+    lineage.push(parent);
+    parentId = parent.parentId;
+  }
+  return lineage;
+};
 
-import {GoogleGenAI, Part} from '@google/genai';
-
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-
-// ---
-
-async function generateImage(
-  prompt: string,
-  aspectRatio: '16:9' | '4:3' = '16:9',
-  imageFile: File | null = null,
-): Promise<string> {
-  // Note: The `imageFile` parameter is not used in this function as `generateImages`
-  // only accepts a string prompt. The original code attempted to pass multimodal
-  // input, which caused a type error.
-  const response = await ai.models.generateImages({
-    model: 'imagen-3.0-generate-002',
-    prompt: prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio,
-    },
-  });
-
-  const image = response.generatedImages?.[0]?.image?.imageBytes;
-  if (!image) {
-    throw new Error('No images generated from prompt.');
+/** Adds the applied style and the project's format to a cost estimate. */
+const withProjectContext = (
+  request: CostEstimateRequest,
+  styleProfile: StyleProfile | null,
+  videoFormat: VideoFormat,
+): CostEstimateRequest => {
+  switch (request.videoType) {
+    case 'storyboard':
+      return {...request, styleProfile, videoFormat};
+    case 'logo':
+      return {
+        ...request,
+        request: {...request.request, styleProfile, videoFormat},
+      };
+    case 'introOutro':
+      return {
+        ...request,
+        request: {...request.request, styleProfile, videoFormat},
+      };
   }
-  return image;
-}
+};
 
-async function analyzeImageStyle(imageFile: File): Promise<string> {
-  const imagePart = {
-    inlineData: {
-      mimeType: imageFile.type,
-      data: await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = reject;
-        reader.readAsDataURL(imageFile);
-      }),
-    },
-  };
+/** A failure shown in the error modal. */
+interface ReportedError {
+  summary: string;
+  /** Why it failed; absent for input rejected before any call. */
+  error?: GenerationError;
+}
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        {
-          text: `You are a master art director creating a prompt for an AI image generator. Based on the provided image, describe its visual style using a concise, comma-separated list of keywords. Focus on mood, color palette, lighting, and key artistic characteristics.`,
-        },
-        imagePart,
-      ],
-    },
-  });
-  return response.text;
+interface AppProps {
+  /**
+   * The backend for all model calls. Defaults to the Gemini API, called with
+   * the key chosen in the API key settings or else the build-time key.
+   */
+  provider?: GenerationProvider;
+  /** Receives the usage reported by `provider`, for actual run costs. */
+  usageMeter?: UsageMeter;
 }
 
 /**
  * Main component for the app.
  * It manages the state for animating images and displaying the results.
  */
-export const App: React.FC = () => {
+export const App: React.FC<AppProps> = ({
+  provider: providerOverride,
+  usageMeter = defaultUsageMeter,
+}) => {
+  const [apiKeys, setApiKeys] = useState<StoredApiKey[]>([]);
+  /** The unlocked saved key in use; it is never persisted in the clear. */
+  const [activeKey, setActiveKey] = useState<{
+    id: string;
+    apiKey: string;
+  } | null>(null);
+  // Without a build-time key nothing can be generated until one is added.
+  const [isKeySettingsOpen, setIsKeySettingsOpen] = useState(
+    () => !providerOverride && !DEFAULT_GENERATION_CONFIG.apiKey,
+  );
+  // Rebuilt when the user switches keys, so no reload is needed.
+  const provider = useMemo(
+    () =>
+      providerOverride ??
+      createGeminiProvider(
+        {
+          ...DEFAULT_GENERATION_CONFIG,
+          apiKey: activeKey?.apiKey ?? DEFAULT_GENERATION_CONFIG.apiKey,
+        },
+        usageMeter,
+      ),
+    [providerOverride, activeKey, usageMeter],
+  );
   const [playingVideo, setPlayingVideo] = useState<Video | null>(null);
+  /** A creation to play as soon as its object URLs have been made. */
+  const [playCreationId, setPlayCreationId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [savingTitle, setSavingTitle] = useState('Generating your scene...');
-  const [generationError, setGenerationError] = useState<string[] | null>(
+  const [savingStages, setSavingStages] = useState<GenerationStage[]>([]);
+  /** Aborts the clip being rendered behind the progress overlay. */
+  const savingController = useRef<AbortController | null>(null);
+  const [generationError, setGenerationError] = useState<ReportedError | null>(
+    null,
+  );
+  /** A safety-blocked storyboard scene the user chose to rephrase. */
+  const [rephraseSceneIndex, setRephraseSceneIndex] = useState<number | null>(
     null,
   );
-  const [generatedResult, setGeneratedResult] = useState<{
-    imageSrc: string;
-    prompt: string;
+  const [costReport, setCostReport] = useState<RunCostReport | null>(null);
+  const [editingVideo, setEditingVideo] = useState<Video | null>(null);
+  const [creations, setCreations] = useState<Creation[]>([]);
+  const creationVideos = useCreationVideos(creations);
+  const [styles, setStyles] = useState<SavedStyle[]>([]);
+  const [activeStyleId, setActiveStyleId] = useState<string | null>(null);
+  /** The saved style applied to every generator, if any. */
+  const styleProfile =
+    styles.find((style) => style.id === activeStyleId)?.profile ?? null;
+  /** The user's own style presets; the built-in ones are not stored. */
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const allStylePresets = [...BUILT_IN_STYLE_PRESETS, ...stylePresets];
+  /** The format of the open project, applied to every generator. */
+  const [videoFormat, setVideoFormat] =
+    useState<VideoFormat>(DEFAULT_VIDEO_FORMAT);
+  /**
+   * The style keywords the storyboard frames were last rendered with, and
+   * the inputs they came from, so regenerated frames match without another
+   * style analysis.
+   */
+  const storyboardStyle = useRef<{
+    imageFile: File | null;
+    selectedStyle: string;
+    styleProfile: StyleProfile | null;
+    styleForPrompt: string;
   } | null>(null);
 
   useEffect(() => {
     if (generationError) {
       trackEvent('generation_error', {
-        error_message: generationError.join(' | '),
+        error_kind: generationError.error?.kind ?? 'validation',
+        error_message:
+          generationError.error?.message ?? generationError.summary,
       });
     }
   }, [generationError]);
 
+  /** Shows why a generation failed, classified by what the user can do. */
+  const reportError = (summary: string, error: unknown) =>
+    setGenerationError({summary, error: classifyError(error)});
+
+  const refreshCreations = async () => {
+    try {
+      setCreations(await listCreations());
+    } catch (e) {
+      console.error('Failed to load your creations:', e);
+    }
+  };
+
+  const refreshStyles = async () => {
+    try {
+      setStyles(await listStyles());
+    } catch (e) {
+      console.error('Failed to load your style library:', e);
+    }
+  };
+
+  const refreshStylePresets = async () => {
+    try {
+      setStylePresets(await listStylePresets());
+    } catch (e) {
+      console.error('Failed to load your style presets:', e);
+    }
+  };
+
+  const refreshApiKeys = async () => {
+    try {
+      setApiKeys(await listApiKeys());
+    } catch (e) {
+      console.error('Failed to load your API keys:', e);
+    }
+  };
+
+  useEffect(() => {
+    refreshCreations();
+    refreshStyles();
+    refreshStylePresets();
+    refreshApiKeys();
+  }, []);
+
+  /** Saves a creation and resolves with its ID, or null if it failed. */
+  const handleAddCreation = async (
+    creation: NewCreation,
+  ): Promise<string | null> => {
+    const id = creation.id ?? crypto.randomUUID();
+    try {
+      await saveCreation({id, createdAt: Date.now(), ...creation});
+      await refreshCreations();
+      return id;
+    } catch (e) {
+      console.error('Failed to save the creation:', e);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    const video = creationVideos.find(({id}) => id === playCreationId);
+    if (video) {
+      setPlayCreationId(null);
+      setPlayingVideo(video);
+    }
+  }, [creationVideos, playCreationId]);
+
+  const handleAnalyzeStyle = async (
+    imageFiles: File[],
+  ): Promise<StyleProfile> => {
+    setGenerationError(null);
+    try {
+      return await provider.analyzeStyle(imageFiles);
+    } catch (e) {
+      console.error('Failed to analyze the reference images', e);
+      reportError('Failed to analyze the reference images.', e);
+      throw new Error('Could not analyze style.');
+    }
+  };
+
+  /** Adds a style to the library, or updates the one with the same ID. */
+  const handleSaveStyle = async (
+    name: string,
+    profile: StyleProfile,
+    id?: string,
+  ) => {
+    const existing = styles.find((style) => style.id === id);
+    try {
+      await saveStyle({
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        createdAt: existing?.createdAt ?? Date.now(),
+        profile,
+      });
+      await refreshStyles();
+    } catch (e) {
+      console.error('Failed to save the style:', e);
+    }
+  };
+
+  const handleDeleteStyle = async (id: string) => {
+    if (id === activeStyleId) {
+      setActiveStyleId(null);
+    }
+    try {
+      await deleteStyle(id);
+      await refreshStyles();
+    } catch (e) {
+      console.error('Failed to delete the style:', e);
+    }
+  };
+
+  const handleSaveStylePreset = async (preset: StylePreset) => {
+    try {
+      await saveStylePreset(preset);
+      await refreshStylePresets();
+    } catch (e) {
+      console.error('Failed to save the style preset:', e);
+    }
+  };
+
+  const handleDeleteStylePreset = async (id: string) => {
+    try {
+      await deleteStylePreset(id);
+      await refreshStylePresets();
+    } catch (e) {
+      console.error('Failed to delete the style preset:', e);
+    }
+  };
+
+  /** Saves imported presets, renaming any whose name is already taken. */
+  const handleImportStylePresets = async (imported: ExportedStylePreset[]) => {
+    const taken = allStylePresets.map((preset) => preset.name.toLowerCase());
+    try {
+      for (const preset of imported) {
+        let name = preset.name;
+        for (let n = 2; taken.includes(name.toLowerCase()); n++) {
+          name = `${preset.name} (${n})`;
+        }
+        taken.push(name.toLowerCase());
+        await saveStylePreset({...preset, id: crypto.randomUUID(), name});
+      }
+    } catch (e) {
+      console.error('Failed to import the style presets:', e);
+    }
+    await refreshStylePresets();
+  };
+
+  const handleSaveApiKey = async (key: StoredApiKey) => {
+    await saveApiKey(key);
+    await refreshApiKeys();
+  };
+
+  const handleDeleteApiKey = async (id: string) => {
+    if (activeKey?.id === id) {
+      setActiveKey(null);
+    }
+    try {
+      await deleteApiKey(id);
+      await refreshApiKeys();
+    } catch (e) {
+      console.error('Failed to delete the API key:', e);
+    }
+  };
+
   const handleClosePlayer = () => {
     setPlayingVideo(null);
   };
 
+  const handleEdit = (video: Video) => {
+    trackEvent('edit_video', {video_id: video.id});
+    setPlayingVideo(null);
+    setEditingVideo(video);
+  };
+
+  const handleEstimateCost = (request: CostEstimateRequest) =>
+    estimateCost(
+      provider,
+      withProjectContext(request, styleProfile, videoFormat),
+    );
+
+  /**
+   * Runs a prompt-writing step while estimating its cost up front, then
+   * reports the estimate next to the usage the provider actually recorded.
+   */
+  const measureRun = async <T,>(
+    estimateRequest: CostEstimateRequest,
+    run: () => Promise<T>,
+  ): Promise<T> => {
+    const estimate = estimateCost(provider, estimateRequest).catch((e) => {
+      console.warn('Could not estimate the cost of this run.', e);
+      return null;
+    });
+    const {result, usage} = await usageMeter.measure(run);
+    setCostReport({
+      videoType: estimateRequest.videoType,
+      estimated: (await estimate)?.total ?? null,
+      actual: usage,
+    });
+    return result;
+  };
+
   const handleGenerateLogoPrompt = async (
     logoFile: File,
     animationStyle: string,
     background: string,
     sfx: string,
     tagline: string,
-    promptFormat: 'classic' | 'json',
+    promptFormat: PromptFormat,
+    {signal}: CallOptions = {},
   ): Promise<string> => {
-    const classicSystemInstruction = `You are a senior motion graphics director creating prompts for an AI video generator. Your task is to take user specs and a logo image and write a series of detailed, individual shot prompts for an 8-second animation.
-
-**CRITICAL REQUIREMENTS:**
-1.  **Separate Prompts per Segment:** Generate a self-contained prompt block for EACH logical animation segment (e.g., Intro, Reveal, Tagline, Outro). Each segment should be ~2 seconds.
-2.  **Use the EXACT Structure:** Each block MUST start with "--- PROMPT [Number]: [Segment Title] ([Time Range]) ---". Do not deviate.
-3.  **Detailed & Cinematic Language:** Be highly descriptive. Use professional filmmaking terminology for movement, lighting, and effects.
-4.  **Integrate Style:** The prompts must be heavily influenced by the user's selected animation style.
-5.  **Reference the Logo:** Refer to the user's uploaded logo as 'the provided logo image'.
-
-**STRUCTURE FOR EACH PROMPT:**
-
---- PROMPT [Number]: [Segment Title] ([Time Range]) ---
-- **Setting (High Weight):** Describe the background environment, textures, and atmosphere based on the user's description.
-- **Action & Movement (High Weight):** Detail the specific animation. How do elements move? What are the particle effects? How does the logo itself animate on/off screen?
-- **Shots and Camera (High Weight):** Describe the virtual camera work. Is it a static shot? A quick zoom-in? A slow pan?
-- **Visual Style & Aesthetics (High Weight):** Define the overall look and feel, referencing the user's style choice (e.g., "Sleek and modern," "Gritty and textured"). Describe the lighting (e.g., "dramatic lens flares," "soft volumetric light").
-- **Audio (High Weight):** Suggest specific sound effects (SFX) and music cues that are perfectly synced to the animation.
-- **Text Overlay (Medium Weight):** If a tagline is provided, describe its font, animation, and timing.
-
-**EXAMPLE:**
-
---- PROMPT 2: Reveal (2-4s) ---
-- **Setting (High Weight):** The user-defined background is in sharp focus.
-- **Action & Movement (High Weight):** Abstract energy lines converge in the center, rapidly condensing and resolving into the provided logo image with a bright flash of light. The logo has a subtle metallic sheen.
-- **Shots and Camera (High Weight):** A rapid push-in (zoom) as the lines converge, stopping abruptly as the logo locks into place.
-- **Visual Style & Aesthetics (High Weight):** A brilliant, sharp flash of light illuminates the scene, fading to reveal the logo under crisp, hard lighting that emphasizes its texture.
-- **Audio (High Weight):** Music hits a beat drop. SFX: A powerful whoosh followed by a resonant bass drop and a sharp, metallic 'clang' as the logo settles.
-- **Text Overlay (Medium Weight):** The tagline text "Innovation in Motion" fades in smoothly underneath the logo.`;
-
-    const jsonSystemInstruction = `You are a senior motion graphics director creating prompts for an AI video generator. Your task is to convert user specifications into a structured JSON array for an 8-second logo animation.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **JSON Array Output ONLY:** Your entire response MUST be a single, valid JSON array. Each object represents a distinct ~2-second animation segment.
-2.  **Logical Segments:** Create objects for logical segments like Intro, Reveal, Tagline, and Outro.
-3.  **Adhere to Schema:** Each object in the array must strictly follow this schema:
-    - \`segment_number\` (number): The sequence number (1, 2, 3...).
-    - \`segment_title\` (string): The name of the segment (e.g., "Reveal").
-    - \`time_range\` (string): The time range for this segment (e.g., "2-4s").
-    - \`setting\` (string): Description of the background and atmosphere.
-    - \`action_and_movement\` (string): Detailed description of on-screen animations and visual effects.
-    - \`camera\` (string): Description of camera shots and movements (e.g., "Quick zoom-in").
-    - \`visual_style_and_aesthetics\` (string): Description of the lighting, mood, and overall aesthetic.
-    - \`audio\` (string): Description of sound effects and music cues.
-    - \`text_overlay\` (string): Description of tagline animation, if any.
-    - \`generation_prompt\` (string): A single, complete text prompt combining all details from this object, written in a cinematic style, suitable for direct use by a video AI. It MUST reference 'the provided logo image'.
-4.  **Reference the Logo:** In the prompt fields, refer to the user's uploaded logo as 'the provided logo image'.`;
-
-    const promptText = `
-      Create a logo animation prompt series based on these details:
-      - Animation Style: ${animationStyle}
-      - Background Description: ${background}
-      - Sound Effects (SFX) Description: ${sfx}
-      - Tagline (optional): ${tagline || 'None'}
-      - Output Format: ${promptFormat}
-    `;
-
-    const logoImagePart = {
-      inlineData: {
-        mimeType: logoFile.type,
-        data: await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () =>
-            resolve((reader.result as string).split(',')[1]);
-          reader.onerror = reject;
-          reader.readAsDataURL(logoFile);
-        }),
-      },
+    setGenerationError(null);
+    const request = {
+      logoFile,
+      animationStyle: describeStylePreset(
+        allStylePresets,
+        'logo',
+        animationStyle,
+      ),
+      background,
+      sfx,
+      tagline,
+      promptFormat,
+      styleProfile,
+      videoFormat,
     };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {parts: [{text: promptText}, logoImagePart]},
-      config: {
-        systemInstruction:
-          promptFormat === 'json'
-            ? jsonSystemInstruction
-            : classicSystemInstruction,
-      },
-    });
-
-    return response.text;
+    try {
+      return await measureRun({videoType: 'logo', request}, () =>
+        provider.generateLogoPrompt(request, {signal}),
+      );
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate logo prompt', e);
+      reportError('Failed to generate the logo animation prompt.', e);
+      throw new Error('Could not generate logo prompt.');
+    }
   };
 
   const handleGenerateYouTubeIntroPrompt = async (
@@ -194,331 +449,529 @@ export const App: React.FC = () => {
     visualStyle: string,
     energy: string,
     specificElements: string,
-    promptFormat: 'classic' | 'json',
+    promptFormat: PromptFormat,
+    {signal}: CallOptions = {},
   ): Promise<string> => {
-    const classicSystemInstruction = `You are a YouTube branding expert and motion graphics director creating prompts for an AI video generator. Your job is to create a series of dynamic, individual shot prompts for a 5-8 second YouTube intro, broken into logical 2-3 second segments.
-
-**CRITICAL REQUIREMENTS:**
-1.  **Separate Prompts per Segment:** Generate a self-contained prompt block for EACH logical intro segment (e.g., Buildup, Reveal, CTA).
-2.  **Use the EXACT Structure:** Each block MUST start with "--- PROMPT [Number]: [Segment Title] ([Time Range]) ---". Do not deviate.
-3.  **Cinematic & Energetic Language:** Use exciting, descriptive, professional filmmaking language. The detail should match the user's specified energy level.
-4.  **Integrate Channel Branding:** The prompts must revolve around the user's Channel Name and Topic.
-
-**STRUCTURE FOR EACH PROMPT:**
-
---- PROMPT [Number]: [Segment Title] ([Time Range]) ---
-- **Setting (High Weight):** Describe the background, environment, and atmosphere.
-- **Action & Movement (High Weight):** What is animating? Describe particle effects, transitions, and how core elements move.
-- **Shots and Camera (High Weight):** Define the camera work (e.g., "Whip pan," "Fast zoom out," "Static shot").
-- **Visual Style & Aesthetics (High Weight):** Define the overall look. Refer to the user's style choice. Describe lighting and color palette.
-- **Audio (High Weight):** Suggest a music style and specific SFX that are tightly synced with the visuals to maximize impact.
-- **Text & Overlays (Medium Weight):** Specify any additional on-screen text (like the channel name or social handles), its font, animation, and placement.
-
-**EXAMPLE (for a Tech Channel):**
-
---- PROMPT 1: Buildup (0-2s) ---
-- **Setting (High Weight):** A dark, tech-themed background with faint, glowing grid lines receding into the distance.
-- **Action & Movement (High Weight):** Abstract, glowing blue and purple circuit board lines animate rapidly from the edges of the screen, moving towards the center.
-- **Shots and Camera (High Weight):** Static wide shot.
-- **Visual Style & Aesthetics (High Weight):** Sleek, modern, and futuristic. The lines emit a bright neon glow. High contrast lighting.
-- **Audio (High Weight):** (High-Energy, modern electronic track begins) SFX: A series of quick, sharp digital whoosh and glitch sounds.
-- **Text & Overlays (Medium Weight):** None.`;
-
-    const jsonSystemInstruction = `You are a YouTube branding expert creating prompts for an AI video generator. Your job is to create a structured JSON array of shot prompts for a 5-8 second YouTube intro.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **JSON Array Output ONLY:** Your entire response MUST be a single, valid JSON array. Each object represents a distinct intro segment.
-2.  **Logical Segments:** Create objects for logical segments like Buildup, Reveal, and CTA/Outro.
-3.  **Adhere to Schema:** Each object in the array must strictly follow this schema:
-    - \`segment_number\` (number): The sequence number.
-    - \`segment_title\` (string): The name of the segment (e.g., "Logo Reveal").
-    - \`time_range\` (string): The time range for this segment (e.g., "2-4s").
-    - \`setting\` (string): Description of the background and atmosphere.
-    - \`action_and_movement\` (string): Detailed description of on-screen visuals and animations.
-    - \`camera\` (string): Description of camera work.
-    - \`visual_style_and_aesthetics\` (string): Description of the lighting, colors, and overall look.
-    - \`audio\` (string): Description of music and sound effects.
-    - \`text_and_overlays\` (string): Description of any on-screen text and its animation.
-    - \`generation_prompt\` (string): A single, complete text prompt combining all relevant visual details from this segment, suitable for direct use by a video AI. It must be tailored to the channel's name and topic.`;
-
-    const promptText = `
-      Create a YouTube intro prompt series with the following specifications:
-      - Channel Name: ${channelName}
-      - Video Topic/Theme: ${videoTopic}
-      - Visual Style: ${visualStyle}
-      - Energy Level: ${energy}
-      - Specific Elements to Include: ${specificElements}
-      - Output Format: ${promptFormat}
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {parts: [{text: promptText}]},
-      config: {
-        systemInstruction:
-          promptFormat === 'json'
-            ? jsonSystemInstruction
-            : classicSystemInstruction,
-      },
-    });
+    setGenerationError(null);
+    const request = {
+      channelName,
+      videoTopic,
+      visualStyle: describeStylePreset(
+        allStylePresets,
+        'introOutro',
+        visualStyle,
+      ),
+      energy,
+      specificElements,
+      promptFormat,
+      styleProfile,
+      videoFormat,
+    };
+    try {
+      return await measureRun({videoType: 'introOutro', request}, () =>
+        provider.generateYouTubeIntroPrompt(request, {signal}),
+      );
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate YouTube intro prompt', e);
+      reportError('Failed to generate the intro prompt.', e);
+      throw new Error('Could not generate YouTube intro prompt.');
+    }
+  };
 
-    return response.text;
+  const handleGenerateExplainerVideoPrompt = async (
+    topic: string,
+    keyPoints: string[],
+    style: string,
+    audience: string,
+    cta: string,
+    duration: string,
+    promptFormat: PromptFormat,
+    {signal}: CallOptions = {},
+  ): Promise<string> => {
+    setGenerationError(null);
+    try {
+      return await provider.generateExplainerPrompt(
+        {
+          topic,
+          keyPoints,
+          style,
+          audience,
+          cta,
+          duration,
+          promptFormat,
+          styleProfile,
+          videoFormat,
+        },
+        {signal},
+      );
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate explainer video prompt', e);
+      reportError('Failed to generate the explainer storyboard.', e);
+      throw new Error('Could not generate explainer video prompt.');
+    }
   };
 
   const handleGenerateStoryboard = async (
     scenes: string[],
     imageFile: File | null,
     selectedStyle: string,
-    promptFormat: 'classic' | 'json',
-  ): Promise<{prompts: string; sceneImages: (string | null)[]}> => {
+    promptFormat: PromptFormat,
+    keptImages: (string | null)[] = [],
+    cast: CastMember[] = [],
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    runOptions: StoryboardRunOptions = {},
+  ): Promise<StoryboardResult> => {
     setGenerationError(null);
+    const describedStyle = describeStylePreset(
+      allStylePresets,
+      'storyboard',
+      selectedStyle,
+    );
     const nonEmptyScenes = scenes.filter((s) => s.trim());
 
     if (nonEmptyScenes.length === 0) {
       const errorMsg = 'Please add at least one scene to the storyboard.';
-      setGenerationError([errorMsg]);
+      setGenerationError({summary: errorMsg});
       throw new Error(errorMsg);
     }
 
     try {
-      // Step 1: Create a unified style guide
-      let styleGuide =
-        selectedStyle !== 'No Style'
-          ? `Cinematic Style: ${selectedStyle}.`
-          : 'No specific cinematic style has been selected; rely on the reference image (if provided) and scene descriptions for style cues.';
-      let imageStyleKeywords = '';
-      if (imageFile) {
-        try {
-          const imageStyle = await analyzeImageStyle(imageFile);
-          styleGuide += `\nReference Image Style: ${imageStyle}`;
-          imageStyleKeywords = imageStyle;
-        } catch (e) {
-          console.error(
-            'Failed to analyze image style, proceeding without it.',
-            e,
-          );
-        }
+      const result = await measureRun(
+        {
+          videoType: 'storyboard',
+          scenes,
+          imageFile,
+          promptFormat,
+          cast,
+          keptFrameCount: keptImages.filter(Boolean).length,
+          styleProfile,
+          videoFormat,
+          variantCount: imageSettings.variantCount,
+        },
+        () =>
+          generateStoryboard(
+            provider,
+            {
+              scenes,
+              imageFile,
+              selectedStyle: describedStyle,
+              promptFormat,
+              styleProfile,
+              keptImages,
+              cast,
+              imageSettings,
+              videoFormat,
+            },
+            runOptions,
+          ),
+      );
+      storyboardStyle.current = {
+        imageFile,
+        selectedStyle: describedStyle,
+        styleProfile,
+        styleForPrompt: result.styleForPrompt,
+      };
+      // The run succeeds without failed frames; point out a blocked one.
+      const blockedIndex = result.frameErrors.findIndex(
+        (error) => error?.kind === 'safety',
+      );
+      if (blockedIndex !== -1) {
+        setGenerationError({
+          summary: `Scene ${
+            blockedIndex + 1
+          } was blocked by the safety filters. Its frame can suggest a rewrite.`,
+          error: forScene(result.frameErrors[blockedIndex]!, blockedIndex),
+        });
       }
-      // Step 2: Generate images for each scene description in parallel
-      const imagePromises = scenes.map((scene) => {
-        if (scene.trim()) {
-          const styleForPrompt = [
-            selectedStyle !== 'No Style' ? selectedStyle : '',
-            imageStyleKeywords,
-          ]
-            .filter(Boolean)
-            .join(', ');
-          const fullPrompt = `${
-            styleForPrompt ? styleForPrompt + ', ' : ''
-          }cinematic shot depicting ${scene.trim()}`;
-          return generateImage(fullPrompt, '4:3');
-        }
-        return Promise.resolve(null);
-      });
-
-      const imageResults = await Promise.allSettled(imagePromises);
-      const sceneImages = imageResults.map((result) => {
-        if (result.status === 'fulfilled') {
-          return result.value;
-        }
-        console.error('Failed to generate scene image:', result.reason);
-        return null;
-      });
-
-      // Step 3: Build the multi-modal prompt for the master prompt generation
-      const promptParts: Part[] = [];
-      promptParts.push({
-        text: `Based on the following storyboard scenes (text and images), and adhering to the specified cinematic and technical guidance, create a series of detailed, individual shot prompts for a video generation model.`,
-      });
-      promptParts.push({text: `--- STYLE GUIDANCE ---\n${styleGuide}`});
-
-      scenes.forEach((scene, index) => {
-        if (scene.trim()) {
-          promptParts.push({text: `Scene ${index + 1}: ${scene.trim()}`});
-          const imageBase64 = sceneImages[index];
-          if (imageBase64) {
-            promptParts.push({
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: imageBase64,
-              },
-            });
-          }
-        }
-      });
+      return result;
+    } catch (e) {
+      if (runOptions.signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate storyboard', e);
+      reportError('Failed to generate storyboard.', e);
+      throw new Error('Could not generate storyboard.');
+    }
+  };
 
-      // Step 4: Generate the master prompt using text and images
-      const classicSystemInstruction = `You are a world-class film director and a master prompt engineer for a state-of-the-art video generation AI (like Google's Veo). Your task is to take a storyboard (which includes scene descriptions, reference images, and a style guide) and create a series of powerful, detailed, and distinct shot prompts.
-
-For EACH scene provided by the user, you MUST generate a self-contained prompt block.
-
-**CRITICAL REQUIREMENTS:**
-1.  **Separate Prompts per Scene:** DO NOT merge the scenes into one narrative. Create a separate, complete prompt block for each scene.
-2.  **Use the EXACT Structure:** Each prompt block MUST start with "--- SCENE [Number] ---" and be followed by the structured format below. Do not deviate from this structure.
-3.  **Weights for Guidance:** Pay attention to the (High Weight), (Medium Weight), and (Low Weight) guidance. High weight items are critical to get right.
-4.  **Cinematic Language:** Use precise, professional filmmaking terminology.
-5.  **Integrate Style:** The "Visuals & Style" section should be heavily influenced by the provided style guide and reference images, applying it consistently to each scene.
-6.  **Include Text Overlays:** If the scene content implies it, suggest appropriate text overlays.
-
-**STRUCTURE FOR EACH SCENE:**
-
---- SCENE [Number] ---
-
-- **Setting (High Weight):** Describe the "where" and "when." Paint a vivid picture of the environment, time of day, and atmosphere.
-- **Subject & Character Design (Medium Weight):** The "who" or "what." Describe the main subjects, their appearance, clothing, and key expressions.
-- **Action & Movement (High Weight):** What happens in the scene? Describe movements, interactions, and the flow of action.
-- **Shots and Camera (High Weight):** Detail the camera work. Specify shot types (e.g., "Medium shot," "Extreme close-up"), camera angles ("Low-angle"), and movements ("Smoothly zooms in," "Slow tilt up"). Suggest a duration (e.g., "3-5 seconds").
-- **Lighting and Mood (High Weight):** Describe the lighting (e.g., "dramatic high-contrast," "soft natural sunlight"). Define the emotional tone (e.g., "mysterious and tense," "hopeful and inspiring").
-- **Visual Style & Aesthetics (High Weight):** Define the overall look. Refer to the style guide. (e.g., "Photorealistic," "3D Pixar animation," "Clean vector lines").
-- **Lens and Optical Effects (Medium Weight):** Mention effects like "shallow depth of field," "lens flare," "rack focus."
-- **Temporal Elements (Medium Weight):** Describe the pacing and timing of the scene (e.g., "fast-paced and energetic," "slow and deliberate").
-- **Audio (High Weight):** Suggest key sound effects (SFX), ambient sounds, and music cues relevant to THIS scene only.
-- **Text Overlay (Medium Weight):** Suggest any on-screen text, its content, font style, and animation (e.g., "Text 'Hello World' fades in at the bottom").`;
-
-      const jsonSystemInstruction = `You are a world-class film director and a master prompt engineer for a state-of-the-art video generation AI (like Google's Veo). Your task is to convert a storyboard (scene descriptions, reference images, style guide) into a structured JSON array.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **JSON Array Output ONLY:** Your entire response MUST be a single, valid JSON array. Each object in the array represents a single, distinct shot corresponding to one of the user's scenes. Do not include any text, explanations, or markdown formatting (like \`\`\`json) before or after the JSON.
-2.  **One Object Per Scene:** The output array must contain exactly one JSON object for each scene provided in the input.
-3.  **Adhere to Schema:** Each object in the array must strictly follow this schema:
-    - \`shot_number\` (number): The sequence number (1, 2, 3...).
-    - \`scene_description\` (string): The original user-provided text for this scene.
-    - \`suggested_duration\` (string): A suggested duration for this shot (e.g., "3-5s").
-    - \`subject\` (string): The main focus of the shot.
-    - \`action\` (string): A detailed description of what happens in this shot.
-    - \`scene\` (string): A detailed description of the setting and atmosphere.
-    - \`camera\` (object):
-        - \`angle\` (string): e.g., "Extreme close-up", "Low-angle wide shot".
-        - \`movement\` (string): e.g., "Static", "Rapid zoom-in", "Slow tilt up".
-        - \`lens_effects\` (string): e.g., "Shallow depth of field", "Lens flare".
-    - \`style\` (object):
-        - \`visual_style\` (string): Primary artistic style, informed by the style guide (e.g., "Photorealistic, cinematic", "3D Pixar animation").
-        - \`mood\` (string): The emotional tone (e.g., "Dark and moody", "Whimsical").
-        - \`lighting\` (string): Description of the lighting (e.g., "High-contrast, dramatic", "Soft, natural sunlight").
-        - \`color_palette\` (string): Key colors (e.g., "Slightly desaturated, cool tones").
-    - \`audio\` (object):
-        - \`ambience\` (string): Background environmental sounds.
-        - \`sfx\` (array of strings): Key sound effects for this shot.
-        - \`music\` (string): Description of the music during this shot.
-    - \`generation_prompt\` (string): A single, complete and very detailed text prompt combining all relevant details from this object, suitable for direct use by an image/video AI.`;
-
-      const masterPromptResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {parts: promptParts},
-        config: {
-          systemInstruction:
-            promptFormat === 'json'
-              ? jsonSystemInstruction
-              : classicSystemInstruction,
+  const handleGenerateSceneFrame = async (
+    scene: string,
+    imageFile: File | null,
+    selectedStyle: string,
+    cast: CastMember[] = [],
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    {signal}: CallOptions = {},
+  ): Promise<string[]> => {
+    setGenerationError(null);
+    const describedStyle = describeStylePreset(
+      allStylePresets,
+      'storyboard',
+      selectedStyle,
+    );
+    const cached = storyboardStyle.current;
+    try {
+      const {variants, styleForPrompt} = await generateSceneFrame(
+        provider,
+        {
+          scene,
+          imageFile,
+          selectedStyle: describedStyle,
+          styleProfile,
+          // Reused only while the style inputs are the ones it came from.
+          styleForPrompt:
+            cached?.imageFile === imageFile &&
+            cached.selectedStyle === describedStyle &&
+            cached.styleProfile === styleProfile
+              ? cached.styleForPrompt
+              : undefined,
+          cast,
+          imageSettings,
+          videoFormat,
         },
-      });
+        {signal},
+      );
+      storyboardStyle.current = {
+        imageFile,
+        selectedStyle: describedStyle,
+        styleProfile,
+        styleForPrompt,
+      };
+      return variants;
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate scene frame', e);
+      const error = classifyError(e);
+      // A blocked frame says so itself and offers a rewrite of its scene.
+      if (error.kind !== 'safety') {
+        setGenerationError({
+          summary: 'Failed to regenerate the scene image.',
+          error,
+        });
+      }
+      throw error;
+    }
+  };
 
-      let promptText = masterPromptResponse.text;
-
-      if (promptFormat === 'json') {
-        // Clean up potential markdown formatting
-        promptText = promptText
-          .replace(/```json\n?/, '')
-          .replace(/```$/, '')
-          .trim();
-        try {
-          // Parse and pretty-print the JSON to ensure it's valid and readable
-          const parsedJson = JSON.parse(promptText);
-          promptText = JSON.stringify(parsedJson, null, 2);
-        } catch (e) {
-          console.error(
-            'Failed to parse AI response as JSON, returning raw text.',
-            e,
-          );
-          // If parsing fails, we'll just return the raw text. The user might be able to fix it.
-        }
+  const handleRewriteBlockedScene = async (
+    request: SceneRewriteRequest,
+    {signal}: CallOptions = {},
+  ): Promise<string> => {
+    setGenerationError(null);
+    try {
+      return await provider.rewriteBlockedScene(request, {signal});
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
       }
+      console.error('Failed to rewrite the blocked scene', e);
+      reportError('Failed to suggest a rewrite of the scene.', e);
+      throw new Error('Could not rewrite scene.');
+    }
+  };
+
+  const handleGenerateShot = async (
+    prompt: string,
+    imageFile: File | null = null,
+    negativePrompt = '',
+    {signal}: CallOptions = {},
+  ): Promise<Blob> => {
+    console.log('Generating video from prompt...', prompt);
+    const clip = await provider.generateVideo(
+      {
+        prompt,
+        imageFile,
+        negativePrompt,
+        aspectRatio: videoAspectRatioFor(videoFormat),
+      },
+      {signal},
+    );
+    console.log('Generated video received.');
+    return clip;
+  };
 
-      const prompts = promptText;
+  /** Shows the progress overlay for a new clip and returns its controller. */
+  const startSavingRun = () => {
+    savingController.current = new AbortController();
+    setIsSaving(true);
+    return savingController.current;
+  };
 
-      return {prompts, sceneImages};
-    } catch (e) {
-      console.error('Failed to generate storyboard', e);
-      setGenerationError([
-        'Failed to generate storyboard.',
-        'Please check your connection or API key and try again.',
-      ]);
-      throw new Error('Could not generate storyboard.');
+  /** Hides the overlay, unless the clip was cancelled in the meantime. */
+  const finishSavingRun = (signal: AbortSignal) => {
+    if (savingController.current?.signal === signal) {
+      savingController.current = null;
+      setIsSaving(false);
     }
   };
 
-  const handleAnimate = async (prompt: string, imageFile: File | null = null) => {
+  const handleCancelSaving = () => {
+    trackEvent('cancel_generation', {video_type: 'clip'});
+    savingController.current?.abort();
+    savingController.current = null;
+    setIsSaving(false);
+  };
+
+  const handleAnimate = async (
+    prompt: string,
+    imageFile: File | null = null,
+    negativePrompt = '',
+  ): Promise<Blob | null> => {
     setSavingTitle('Generating your scene...');
-    setIsSaving(true);
+    setSavingStages([runningStage('render', 'Rendering the clip')]);
+    const {signal} = startSavingRun();
     setGenerationError(null);
 
     try {
-      console.log('Generating image from prompt...', prompt);
-      const imageBase64 = await generateImage(prompt, '16:9', imageFile);
-
-      if (!imageBase64) {
-        throw new Error('Image generation returned no data.');
+      const clip = await handleGenerateShot(prompt, imageFile, negativePrompt, {
+        signal,
+      });
+      trackEvent('generate_video_success', {
+        has_first_frame: !!imageFile,
+        has_negative_prompt: !!negativePrompt,
+      });
+      return clip;
+    } catch (error) {
+      if (signal.aborted) {
+        return null;
       }
+      console.error('Video generation failed:', error);
+      reportError('Video generation failed.', error);
+      return null;
+    } finally {
+      finishSavingRun(signal);
+    }
+  };
 
-      console.log('Generated image data received.');
-      const src = `data:image/jpeg;base64,${imageBase64}`;
+  /**
+   * Generates a new clip from the edited prompt of `edited` and keeps it in
+   * My Creations, linked to the video it was remixed from.
+   */
+  const handleRemix = async (edited: Video) => {
+    setEditingVideo(null);
+    setSavingTitle('Creating your remix...');
+    setSavingStages([runningStage('render', 'Rendering the remix')]);
+    const {signal} = startSavingRun();
+    setGenerationError(null);
 
-      setGeneratedResult({imageSrc: src, prompt});
+    try {
+      const clip = await handleGenerateShot(edited.description, null, '', {
+        signal,
+      });
+      trackEvent('remix_video_success', {parent_id: edited.id});
+      const id = await handleAddCreation({
+        title: `${edited.title} (Remix)`,
+        description: edited.description,
+        // A remix of a still frame is a clip.
+        tags: [
+          ...new Set([
+            ...(edited.tags ?? []).filter((tag) => tag !== 'Frame'),
+            'Clip',
+            'Remix',
+          ]),
+        ],
+        video: clip,
+        image: await captureFirstFrame(clip),
+        parentId: edited.id,
+      });
+      if (id) {
+        setPlayCreationId(id);
+      }
     } catch (error) {
-      console.error('Image generation failed:', error);
-      setGenerationError([
-        'Image generation failed.',
-        'Please check your API key or try a different prompt.',
-      ]);
+      if (signal.aborted) {
+        return;
+      }
+      console.error('Remix failed:', error);
+      reportError('Remix failed.', error);
     } finally {
-      setIsSaving(false);
+      finishSavingRun(signal);
     }
   };
 
-  const handleGenerateImageForCard = async (
-    prompt: string,
-  ): Promise<string> => {
-    return generateImage(prompt, '16:9');
+  const handleGenerateMusicVideo = async (
+    shots: TimedShot[],
+    bpm: number,
+    mood: string,
+    lyrics: string,
+    imageFile: File | null,
+    selectedStyle: string,
+    promptFormat: PromptFormat,
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    {signal}: CallOptions = {},
+  ): Promise<MusicVideoResult> => {
+    setGenerationError(null);
+    try {
+      return await generateMusicVideo(
+        provider,
+        {
+          shots,
+          bpm,
+          mood,
+          lyrics,
+          imageFile,
+          selectedStyle,
+          promptFormat,
+          styleProfile,
+          imageSettings,
+          videoFormat,
+        },
+        {signal},
+      );
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate music video', e);
+      reportError('Failed to generate the music video storyboard.', e);
+      throw new Error('Could not generate music video.');
+    }
   };
 
-  if (isSaving) {
-    return (
-      <SavingProgressPage
-        title={savingTitle}
-        subtitle="Please wait while we generate your image."
-      />
-    );
-  }
-
-  if (playingVideo) {
-    return <VideoPlayer video={playingVideo} onClose={handleClosePlayer} />;
-  }
+  const handleGenerateCashCowVideo = async (
+    niche: string,
+    topic: string,
+    duration: string,
+    tone: string,
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    {signal}: CallOptions = {},
+  ): Promise<CashCowResult> => {
+    setGenerationError(null);
+    try {
+      return await generateCashCowVideo(
+        provider,
+        {niche, topic, duration, tone, videoFormat},
+        styleProfile,
+        imageSettings,
+        {signal},
+      );
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to generate cash cow video', e);
+      reportError('Failed to generate the video script.', e);
+      throw new Error('Could not generate cash cow video.');
+    }
+  };
 
-  if (generatedResult) {
-    return (
-      <GeneratedImageModal
-        imageSrc={generatedResult.imageSrc}
-        prompt={generatedResult.prompt}
-        onClose={() => setGeneratedResult(null)}
-      />
+  const handleGenerateImageForCard = async (
+    prompt: string,
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    {signal}: CallOptions = {},
+  ): Promise<string> => {
+    // Explainer cards have no variant picker.
+    const [image] = await provider.generateImages(
+      imageRequest(
+        prompt,
+        imageSettings,
+        imageAspectRatioFor(videoFormat, '16:9'),
+        1,
+      ),
+      {signal},
     );
-  }
+    return image;
+  };
 
+  // Overlays render on top of the page rather than replacing it, so the
+  // generators keep their state while a result is playing.
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
       <AnimateImagePage
         onAnimate={handleAnimate}
+        onGenerateShot={handleGenerateShot}
         onPlayVideo={setPlayingVideo}
+        onPlayCreation={setPlayCreationId}
         onGenerateStoryboard={handleGenerateStoryboard}
+        onGenerateSceneFrame={handleGenerateSceneFrame}
+        onRewriteBlockedScene={handleRewriteBlockedScene}
         onGenerateLogoPrompt={handleGenerateLogoPrompt}
         onGenerateYouTubeIntroPrompt={handleGenerateYouTubeIntroPrompt}
+        onGenerateExplainerVideoPrompt={handleGenerateExplainerVideoPrompt}
         onGenerateImageForCard={handleGenerateImageForCard}
+        onGenerateMusicVideo={handleGenerateMusicVideo}
+        onGenerateCashCowVideo={handleGenerateCashCowVideo}
+        onEstimateCost={handleEstimateCost}
+        costReport={costReport}
+        models={provider.models}
+        supportsImageSeed={provider.supportsImageSeed}
+        creations={creationVideos}
+        onAddCreation={handleAddCreation}
+        styles={styles}
+        activeStyleId={activeStyleId}
+        onApplyStyle={setActiveStyleId}
+        onAnalyzeStyle={handleAnalyzeStyle}
+        onSaveStyle={handleSaveStyle}
+        onDeleteStyle={handleDeleteStyle}
+        stylePresets={allStylePresets}
+        onSaveStylePreset={handleSaveStylePreset}
+        onDeleteStylePreset={handleDeleteStylePreset}
+        onImportStylePresets={handleImportStylePresets}
+        videoFormat={videoFormat}
+        rephraseSceneIndex={rephraseSceneIndex}
+        onRephraseHandled={() => setRephraseSceneIndex(null)}
+        onVideoFormatChange={setVideoFormat}
+        onManageApiKeys={() => setIsKeySettingsOpen(true)}
       />
+      {playingVideo && (
+        <VideoPlayer
+          video={playingVideo}
+          onClose={handleClosePlayer}
+          onEdit={handleEdit}
+          lineage={lineageOf(playingVideo, [
+            ...creationVideos,
+            ...GALLERY_ITEMS,
+          ])}
+          onSelectVideo={setPlayingVideo}
+        />
+      )}
+      {editingVideo && (
+        <EditVideoPage
+          video={editingVideo}
+          onSave={handleRemix}
+          onCancel={() => setEditingVideo(null)}
+        />
+      )}
+      {isSaving && (
+        <SavingProgressPage
+          title={savingTitle}
+          subtitle="Video generation can take a few minutes. Please keep this tab open."
+          stages={savingStages}
+          onCancel={handleCancelSaving}
+        />
+      )}
+      {isKeySettingsOpen && (
+        <ApiKeySettingsPage
+          keys={apiKeys}
+          activeKeyId={activeKey?.id ?? null}
+          hasBuildKey={!!DEFAULT_GENERATION_CONFIG.apiKey}
+          onSave={handleSaveApiKey}
+          onDelete={handleDeleteApiKey}
+          onActivate={(key, apiKey) => setActiveKey({id: key.id, apiKey})}
+          onUseBuildKey={() => setActiveKey(null)}
+          onVerify={verifyApiKey}
+          onClose={() => setIsKeySettingsOpen(false)}
+        />
+      )}
       {generationError && (
         <ErrorModal
-          message={generationError}
+          summary={generationError.summary}
+          error={generationError.error}
           onClose={() => setGenerationError(null)}
-          onSelectKey={async () => await window.aistudio?.openSelectKey()}
+          onManageKeys={() => {
+            setGenerationError(null);
+            setIsKeySettingsOpen(true);
+          }}
+          onRephraseScene={(sceneIndex) => {
+            setGenerationError(null);
+            setRephraseSceneIndex(sceneIndex);
+          }}
         />
       )}
     </div>
@@ -2,61 +2,164 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useCallback, useEffect, useState} from 'react';
-import {GALLERY_ITEMS} from '../constants';
-import {Video} from '../types';
+import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import {CINEMATIC_STYLES, GALLERY_ITEMS, VIDEO_TYPE_LABELS} from '../constants';
+import {
+  CostEstimate,
+  CostEstimateRequest,
+  RunCostReport,
+} from '../services/costEstimation';
+import {CashCowResult} from '../services/cashCow';
+import {GenerationConfig} from '../services/config';
+import {classifyError, GenerationError} from '../services/errors';
+import {CallOptions, SceneRewriteRequest} from '../services/generationProvider';
+import {saveHistoryEntry} from '../services/historyStore';
+import {DEFAULT_IMAGE_SETTINGS} from '../services/imageSettings';
+import {MusicVideoResult} from '../services/musicVideo';
+import {GenerationStage} from '../services/progress';
+import {
+  exportProjectBundle,
+  importProjectBundle,
+  toFileName,
+} from '../services/projectBundle';
+import {saveProject} from '../services/projectStore';
+import {StoryboardResult, StoryboardRunOptions} from '../services/storyboard';
+import {
+  DEFAULT_VIDEO_FORMAT,
+  imageAspectRatioFor,
+} from '../services/videoFormat';
+import {
+  CastMember,
+  ExplainerScene,
+  GeneratorForms,
+  HistoryEntry,
+  ImageSettings,
+  NewCreation,
+  Project,
+  PromptFormat,
+  SavedStyle,
+  StoryboardFormState,
+  StylePreset,
+  StyleProfile,
+  Video,
+  VideoFormat,
+  VideoType,
+} from '../types';
 import {trackEvent} from '../utils/analytics';
+import {TimedShot} from '../utils/audioAnalysis';
+import {findCastInScene} from '../utils/cast';
+import {parseCashCowBeats} from '../utils/cashCow';
+import {parseExplainerShots} from '../utils/explainer';
+import {base64ToBytes, downloadBlob, imageMimeType} from '../utils/files';
+import {looksLikeJson, validatePromptJson} from '../utils/promptSchemas';
+import {Shot, splitMasterPrompt} from '../utils/shots';
+import {
+  ExportedStylePreset,
+  presetsFor,
+  stylePresetNegativeTerms,
+} from '../utils/stylePresets';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {captureFirstFrame} from '../utils/videoFrames';
 import {AdPlaceholder} from './AdPlaceholder';
+import {CancelButton} from './CancelButton';
+import {CashCowBeatList} from './CashCowBeatList';
+import {CashCowGenerator, DEFAULT_CASH_COW_FORM} from './CashCowGenerator';
+import {CastPanel} from './CastPanel';
 import {CostEstimator} from './CostEstimator';
+import {ExplainerStoryboardOutput} from './ExplainerStoryboardOutput';
+import {GenerationProgressList} from './GenerationProgressList';
+import {HistoryPanel} from './HistoryPanel';
+import {ImageSettingsPanel} from './ImageSettingsPanel';
+import {
+  DEFAULT_EXPLAINER_FORM,
+  ExplainerVideoGenerator,
+} from './ExplainerVideoGenerator';
+import {FrameAnimationPanel} from './FrameAnimationPanel';
+import {
+  DEFAULT_MUSIC_VIDEO_FORM,
+  MusicVideoGenerator,
+} from './MusicVideoGenerator';
+import {MyCreationsGallery} from './MyCreationsGallery';
+import {ProjectBrowser} from './ProjectBrowser';
+import {ShotListGenerator} from './ShotListGenerator';
+import {StoryboardFrameGrid} from './StoryboardFrameGrid';
+import {StyleLibraryPanel} from './StyleLibraryPanel';
+import {StylePresetManager} from './StylePresetManager';
+import {StylePresetPicker} from './StylePresetPicker';
+import {ValidationReportPanel} from './ValidationReportPanel';
+import {VideoFormatSelector} from './VideoFormatSelector';
 import {VideoGrid} from './VideoGrid';
 import {
+  ArrowDownTrayIcon,
   ChainIcon,
   ChatBubbleBottomCenterTextIcon,
   ClipboardDocumentListIcon,
+  ClockIcon,
   CubeTransparentIcon,
   CurrencyDollarIcon,
   FilmIcon,
+  FolderIcon,
   InformationCircleIcon,
+  KeyIcon,
   MusicalNoteIcon,
   PhotoIcon,
   PlusIcon,
   SparklesIcon,
+  SwatchIcon,
   TrashIcon,
   VideoCameraIcon,
+  XMarkIcon,
 } from './icons';
-import {LogoAnimator} from './LogoAnimator';
-import {YouTubeIntroGenerator} from './YouTubeIntroGenerator';
-
-type VideoType =
-  | 'storyboard'
-  | 'logo'
-  | 'introOutro'
-  | 'musicVideo'
-  | 'cashCow';
-
-type PromptFormat = 'classic' | 'json';
-
-export interface ExplainerScene {
-  scene: {
-    shot_number: number;
-    key_point_covered?: string;
-    audio: {
-      voiceover?: string;
-    };
-    generation_prompt: string;
-  };
-  image: string | null;
-}
+import {DEFAULT_LOGO_FORM, LogoAnimator} from './LogoAnimator';
+import {
+  DEFAULT_INTRO_FORM,
+  YouTubeIntroGenerator,
+} from './YouTubeIntroGenerator';
 
 interface AnimateImagePageProps {
-  onAnimate: (prompt: string, imageFile?: File | null) => void;
+  /**
+   * Renders an example scene, optionally from a first frame and with the
+   * negative terms of the picked style; resolves with null if it failed.
+   */
+  onAnimate: (
+    prompt: string,
+    imageFile?: File | null,
+    negativePrompt?: string,
+  ) => Promise<Blob | null>;
+  onGenerateShot: (
+    prompt: string,
+    imageFile?: File | null,
+    negativePrompt?: string,
+    options?: CallOptions,
+  ) => Promise<Blob>;
   onPlayVideo: (video: Video) => void;
+  /** Plays a saved creation once it shows up in `creations`. */
+  onPlayCreation: (id: string) => void;
   onGenerateStoryboard: (
     scenes: string[],
     imageFile: File | null,
     selectedStyle: string,
     promptFormat: PromptFormat,
-  ) => Promise<{prompts: string; sceneImages: (string | null)[]}>;
+    keptImages: (string | null)[],
+    cast: CastMember[],
+    imageSettings: ImageSettings,
+    runOptions?: StoryboardRunOptions,
+  ) => Promise<StoryboardResult>;
+  /** Renders the variants of one storyboard frame. */
+  onGenerateSceneFrame: (
+    scene: string,
+    imageFile: File | null,
+    selectedStyle: string,
+    cast: CastMember[],
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<string[]>;
+  /** Suggests a rephrasing of a scene the safety filters blocked. */
+  onRewriteBlockedScene: (
+    request: SceneRewriteRequest,
+    options?: CallOptions,
+  ) => Promise<string>;
   onGenerateLogoPrompt: (
     logoFile: File,
     animationStyle: string,
@@ -64,6 +167,7 @@ interface AnimateImagePageProps {
     sfx: string,
     tagline: string,
     promptFormat: PromptFormat,
+    options?: CallOptions,
   ) => Promise<string>;
   onGenerateYouTubeIntroPrompt: (
     channelName: string,
@@ -72,93 +176,226 @@ interface AnimateImagePageProps {
     energy: string,
     specificElements: string,
     promptFormat: PromptFormat,
+    options?: CallOptions,
   ) => Promise<string>;
-  onGenerateImageForCard: (prompt: string) => Promise<string>;
+  onGenerateExplainerVideoPrompt: (
+    topic: string,
+    keyPoints: string[],
+    style: string,
+    audience: string,
+    cta: string,
+    duration: string,
+    promptFormat: PromptFormat,
+    options?: CallOptions,
+  ) => Promise<string>;
+  onGenerateImageForCard: (
+    prompt: string,
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<string>;
+  onGenerateMusicVideo: (
+    shots: TimedShot[],
+    bpm: number,
+    mood: string,
+    lyrics: string,
+    imageFile: File | null,
+    selectedStyle: string,
+    promptFormat: PromptFormat,
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<MusicVideoResult>;
+  onGenerateCashCowVideo: (
+    niche: string,
+    topic: string,
+    duration: string,
+    tone: string,
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<CashCowResult>;
+  onEstimateCost: (request: CostEstimateRequest) => Promise<CostEstimate>;
+  /** Estimated and actual usage of the last prompt-writing run. */
+  costReport: RunCostReport | null;
+  /** The models behind the generators, recorded in the history. */
+  models: GenerationConfig['models'];
+  /** Whether the image model takes a seed. */
+  supportsImageSeed: boolean;
+  /** The user's own clips and frames, newest first. */
+  creations: Video[];
+  /** Resolves with the ID of the saved creation, or null if it failed. */
+  onAddCreation: (creation: NewCreation) => Promise<string | null>;
+  /** The user's style library, newest first. */
+  styles: SavedStyle[];
+  /** The saved style applied to every generator, if any. */
+  activeStyleId: string | null;
+  onApplyStyle: (id: string | null) => void;
+  onAnalyzeStyle: (imageFiles: File[]) => Promise<StyleProfile>;
+  onSaveStyle: (
+    name: string,
+    profile: StyleProfile,
+    id?: string,
+  ) => Promise<void>;
+  onDeleteStyle: (id: string) => void;
+  /** Every style preset, built-in and the user's own. */
+  stylePresets: StylePreset[];
+  onSaveStylePreset: (preset: StylePreset) => Promise<void>;
+  onDeleteStylePreset: (id: string) => void;
+  onImportStylePresets: (presets: ExportedStylePreset[]) => Promise<void>;
+  /** The format of the open project, applied to every generator. */
+  videoFormat: VideoFormat;
+  onVideoFormatChange: (format: VideoFormat) => void;
+  /** A storyboard scene to focus so the user can rephrase it. */
+  rephraseSceneIndex: number | null;
+  onRephraseHandled: () => void;
+  /** Opens the API key settings. */
+  onManageApiKeys: () => void;
 }
 
-const CINEMATIC_STYLES = [
-  {
-    name: 'No Style',
-    description: 'Relies on the reference image or scene descriptions.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-cinematic.jpg',
-  },
-  {
-    name: 'Cinematic',
-    description: 'Photorealistic, dramatic lighting, high contrast.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-cinematic.jpg',
-  },
-  {
-    name: 'Noir Thriller',
-    description: 'Black and white, high contrast, shadows, mysterious mood.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-noir.jpg',
-  },
-  {
-    name: 'Epic Fantasy',
-    description:
-      'Grandiose landscapes, magical elements, rich, vibrant colors.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-fantasy.jpg',
-  },
-  {
-    name: 'Sci-Fi Dystopian',
-    description:
-      'Futuristic, gritty, neon lights against dark backgrounds, cool color palette.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-scifi.jpg',
-  },
-  {
-    name: 'Pixar Animation',
-    description:
-      'Warm, colorful, soft lighting, friendly character design, 3D rendered look.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-pixar.jpg',
-  },
-  {
-    name: 'Studio Ghibli',
-    description:
-      'Hand-drawn anime style, lush natural backgrounds, watercolor aesthetic, whimsical feel.',
-    imageUrl:
-      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-ghibli.jpg',
-  },
-];
+/** The state of the editor that a history entry records. */
+type HistorySnapshot = Omit<
+  HistoryEntry,
+  'id' | 'createdAt' | 'model' | 'renderedScene'
+>;
+
+const DEFAULT_STORYBOARD_FORM: StoryboardFormState = {
+  referenceImage: null,
+  scenes: [''],
+  styleName: CINEMATIC_STYLES[0].name,
+  promptFormat: 'classic',
+  lockedFrames: [],
+  cast: [],
+};
+
+const DEFAULT_FORMS: GeneratorForms = {
+  storyboard: DEFAULT_STORYBOARD_FORM,
+  logo: DEFAULT_LOGO_FORM,
+  introOutro: DEFAULT_INTRO_FORM,
+  explainer: DEFAULT_EXPLAINER_FORM,
+  musicVideo: DEFAULT_MUSIC_VIDEO_FORM,
+  cashCow: DEFAULT_CASH_COW_FORM,
+};
+
+/** Fills in inputs added since a project was saved with their defaults. */
+const withFormDefaults = (forms: GeneratorForms): GeneratorForms => ({
+  storyboard: {...DEFAULT_FORMS.storyboard, ...forms.storyboard},
+  logo: {...DEFAULT_FORMS.logo, ...forms.logo},
+  introOutro: {...DEFAULT_FORMS.introOutro, ...forms.introOutro},
+  explainer: {...DEFAULT_FORMS.explainer, ...forms.explainer},
+  musicVideo: {...DEFAULT_FORMS.musicVideo, ...forms.musicVideo},
+  cashCow: {...DEFAULT_FORMS.cashCow, ...forms.cashCow},
+});
+
+/**
+ * The storyboard style a run uses: the picked one, or the first built-in
+ * style if the picked preset has since been deleted.
+ */
+const storyboardStyleName = (stylePresets: StylePreset[], styleName: string) =>
+  presetsFor(stylePresets, 'storyboard').some(
+    (preset) => preset.name === styleName,
+  )
+    ? styleName
+    : CINEMATIC_STYLES[0].name;
 
 const StoryboardGenerator: React.FC<
-  Pick<AnimateImagePageProps, 'onGenerateStoryboard'> & {
+  Pick<AnimateImagePageProps, 'onGenerateStoryboard' | 'onEstimateCost'> & {
+    costReport: RunCostReport | null;
+    form: StoryboardFormState;
+    onFormChange: (form: StoryboardFormState) => void;
+    visualStoryboard: (string | null)[];
+    frameErrors: (GenerationError | null)[];
+    rerunRequested: boolean;
+    onRerunHandled: () => void;
     onPromptGenerated: (prompt: string) => void;
+    /** Shows the director's prompt as it streams in, before the run ends. */
+    onPromptStreamed: (prompt: string) => void;
     onVisualsGenerated: (visuals: (string | null)[]) => void;
+    onVariantsGenerated: (variants: string[][]) => void;
+    /** Why each frame failed to render, by scene index. */
+    onFrameErrorsGenerated: (errors: (GenerationError | null)[]) => void;
+    imageSettings: ImageSettings;
+    stylePresets: StylePreset[];
+    onManageStyles: () => void;
   }
-> = ({onGenerateStoryboard, onPromptGenerated, onVisualsGenerated}) => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [scenes, setScenes] = useState<string[]>(['']);
+> = ({
+  onGenerateStoryboard,
+  onEstimateCost,
+  costReport,
+  form,
+  onFormChange,
+  visualStoryboard,
+  frameErrors,
+  rerunRequested,
+  onRerunHandled,
+  onPromptGenerated,
+  onPromptStreamed,
+  onVisualsGenerated,
+  onVariantsGenerated,
+  onFrameErrorsGenerated,
+  imageSettings,
+  stylePresets,
+  onManageStyles,
+}) => {
+  const {
+    referenceImage: imageFile,
+    scenes,
+    styleName,
+    promptFormat,
+    lockedFrames,
+    cast,
+  } = form;
+  const imagePreview = useObjectUrl(imageFile);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [selectedStyle, setSelectedStyle] = useState(CINEMATIC_STYLES[0]);
+  /** The stages of the current or last run. */
+  const [stages, setStages] = useState<GenerationStage[]>([]);
+  const run = useCancellableRun();
   const [showPromptingTips, setShowPromptingTips] = useState(false);
-  const [promptFormat, setPromptFormat] = useState<PromptFormat>('classic');
-  const [visualStoryboard, setVisualStoryboard] = useState<(string | null)[]>(
-    [],
+  const selectedStyleName = storyboardStyleName(stylePresets, styleName);
+
+  const update = (patch: Partial<StoryboardFormState>) =>
+    onFormChange({...form, ...patch});
+  const setScenes = (scenes: string[]) => update({scenes});
+
+  const costRequest = useMemo<CostEstimateRequest | null>(
+    () =>
+      scenes.some((scene) => scene.trim())
+        ? {
+            videoType: 'storyboard',
+            scenes,
+            imageFile,
+            promptFormat,
+            cast,
+            keptFrameCount: visualStoryboard.filter(
+              (image, index) => lockedFrames[index] && image,
+            ).length,
+            variantCount: imageSettings.variantCount,
+          }
+        : null,
+    [
+      scenes,
+      imageFile,
+      promptFormat,
+      cast,
+      visualStoryboard,
+      lockedFrames,
+      imageSettings.variantCount,
+    ],
   );
+  const setPromptFormat = (promptFormat: PromptFormat) =>
+    update({promptFormat});
 
   const handleFileChange = (files: FileList | null) => {
     if (files && files[0]) {
-      const file = files[0];
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      update({referenceImage: files[0]});
     }
   };
 
-  const onDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    event.stopPropagation();
-    handleFileChange(event.dataTransfer.files);
-  }, []);
+  const onDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+      handleFileChange(event.dataTransfer.files);
+    },
+    [handleFileChange],
+  );
 
   const onDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -179,42 +416,91 @@ const StoryboardGenerator: React.FC<
     const newScenes = scenes.filter((_, i) => i !== index);
     const newVisualStoryboard = visualStoryboard.filter((_, i) => i !== index);
     if (newScenes.length === 0) {
-      setScenes(['']);
-      setVisualStoryboard([]);
+      update({scenes: [''], lockedFrames: []});
+      onVisualsGenerated([]);
+      onFrameErrorsGenerated([]);
     } else {
-      setScenes(newScenes);
-      setVisualStoryboard(newVisualStoryboard);
+      update({
+        scenes: newScenes,
+        lockedFrames: lockedFrames.filter((_, i) => i !== index),
+      });
+      onVisualsGenerated(newVisualStoryboard);
+      onFrameErrorsGenerated(frameErrors.filter((_, i) => i !== index));
     }
   };
 
   const handleGenerateStoryboard = async () => {
+    // Locked frames stay on screen and are reused instead of re-rendered.
+    const keptImages = visualStoryboard.map((image, index) =>
+      lockedFrames[index] ? image : null,
+    );
+    const signal = run.start();
     setIsGenerating(true);
     onPromptGenerated('');
-    onVisualsGenerated([]);
-    setVisualStoryboard([]);
+    onVisualsGenerated(keptImages.some(Boolean) ? keptImages : []);
+    onVariantsGenerated([]);
+    onFrameErrorsGenerated([]);
     trackEvent('generate_storyboard', {
       scene_count: scenes.filter((s) => s.trim()).length,
       has_reference_image: !!imageFile,
-      style: selectedStyle.name,
+      style: selectedStyleName,
       prompt_format: promptFormat,
+      locked_frame_count: keptImages.filter(Boolean).length,
+      cast_size: cast.length,
+      variant_count: imageSettings.variantCount,
     });
     try {
-      const {prompts, sceneImages} = await onGenerateStoryboard(
+      const result = await onGenerateStoryboard(
         scenes,
         imageFile,
-        selectedStyle.name,
+        selectedStyleName,
         promptFormat,
+        keptImages,
+        cast,
+        imageSettings,
+        {
+          signal,
+          onProgress: (progress) => {
+            if (signal.aborted) return;
+            setStages(progress.stages);
+            if (progress.streamedText) {
+              onPromptStreamed(progress.streamedText);
+            }
+          },
+        },
       );
-      onPromptGenerated(prompts);
-      onVisualsGenerated(sceneImages);
-      setVisualStoryboard(sceneImages);
+      if (signal.aborted) return;
+      onPromptGenerated(result.prompts);
+      onVisualsGenerated(result.sceneImages);
+      onVariantsGenerated(result.sceneVariants);
+      onFrameErrorsGenerated(result.frameErrors);
     } catch (error) {
-      console.error('Error generating storyboard:', error);
+      if (!signal.aborted) {
+        console.error('Error generating storyboard:', error);
+      }
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    setStages([]);
+    // The prompt may be half streamed; locked frames stay.
+    onPromptGenerated('');
+    trackEvent('cancel_generation', {video_type: 'storyboard'});
+  };
+
+  useEffect(() => {
+    if (rerunRequested) {
+      onRerunHandled();
+      handleGenerateStoryboard();
+    }
+  }, [rerunRequested]);
+
   const allScenesEmpty = scenes.every((scene) => scene.trim() === '');
 
   return (
@@ -303,24 +589,36 @@ const StoryboardGenerator: React.FC<
           )}
         </div>
         <div className="space-y-3">
-          {scenes.map((scene, index) => (
-            <div key={index} className="flex items-center gap-2">
-              <input
-                type="text"
-                className="flex-grow bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
-                value={scene}
-                onChange={(e) => handleSceneChange(index, e.target.value)}
-                placeholder={`Scene ${index + 1} description`}
-                aria-label={`Storyboard scene ${index + 1}`}
-              />
-              <button
-                onClick={() => handleDeleteScene(index)}
-                className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
-                aria-label={`Delete scene ${index + 1}`}>
-                <TrashIcon className="w-5 h-5" />
-              </button>
-            </div>
-          ))}
+          {scenes.map((scene, index) => {
+            const featuring = findCastInScene(cast, scene);
+            return (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="flex-grow bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+                    value={scene}
+                    onChange={(e) => handleSceneChange(index, e.target.value)}
+                    id={`storyboard-scene-${index}`}
+                    placeholder={`Scene ${index + 1} description`}
+                    aria-label={`Storyboard scene ${index + 1}`}
+                  />
+                  <button
+                    onClick={() => handleDeleteScene(index)}
+                    className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label={`Delete scene ${index + 1}`}>
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+                {featuring.length > 0 && (
+                  <p className="text-xs text-purple-300 mt-1 ml-1">
+                    Featuring:{' '}
+                    {featuring.map((member) => member.name.trim()).join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
         </div>
         <button
           onClick={handleAddScene}
@@ -328,6 +626,16 @@ const StoryboardGenerator: React.FC<
           <PlusIcon className="w-5 h-5" />
           Add Scene
         </button>
+        <div className="mt-4">
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Cast & Props (Optional)
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            Describe recurring characters or objects once. Any scene that
+            mentions one by name will render it the same way.
+          </p>
+          <CastPanel cast={cast} onChange={(cast) => update({cast})} />
+        </div>
       </div>
 
       {/* Step 3: Select Style */}
@@ -335,30 +643,14 @@ const StoryboardGenerator: React.FC<
         <label className="block text-sm font-medium text-gray-300 mb-2">
           3. Select a Base Style
         </label>
-        <div className="relative">
-          <div className="aspect-w-16 aspect-h-9 w-full bg-gray-700 rounded-lg overflow-hidden mb-2">
-            <img
-              src={selectedStyle.imageUrl}
-              alt={`${selectedStyle.name} style preview`}
-              className="w-full h-full object-cover"
-            />
-          </div>
-          <div className="flex flex-wrap gap-2">
-            {CINEMATIC_STYLES.map((style) => (
-              <button
-                key={style.name}
-                onClick={() => setSelectedStyle(style)}
-                className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
-                  selectedStyle.name === style.name
-                    ? 'bg-purple-600 text-white ring-2 ring-purple-400'
-                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-                }`}
-                title={style.description}>
-                {style.name}
-              </button>
-            ))}
-          </div>
-        </div>
+        <StylePresetPicker
+          target="storyboard"
+          presets={stylePresets}
+          selected={selectedStyleName}
+          onSelect={(styleName) => update({styleName})}
+          onManage={onManageStyles}
+          showPreview
+        />
       </div>
 
       {/* Step 4: Generate Visual Storyboard & Prompt */}
@@ -407,10 +699,16 @@ const StoryboardGenerator: React.FC<
             </>
           )}
         </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
+        {stages.length > 0 && (
+          <div className="mb-3 p-3 bg-gray-900/70 rounded-lg border border-gray-700">
+            <GenerationProgressList stages={stages} />
+          </div>
+        )}
         <CostEstimator
-          imageFile={imageFile}
-          scenes={scenes}
-          sceneImages={visualStoryboard}
+          request={costRequest}
+          onEstimateCost={onEstimateCost}
+          report={costReport}
         />
       </div>
     </>
@@ -443,19 +741,26 @@ const VideoTypeSelector: React.FC<{
       icon: FilmIcon,
       enabled: true,
     },
+    {
+      id: 'explainer' as VideoType,
+      name: 'Explainer Video',
+      description: 'Teach a topic with narrated scenes.',
+      icon: ChatBubbleBottomCenterTextIcon,
+      enabled: true,
+    },
     {
       id: 'musicVideo' as VideoType,
       name: 'Music Video',
       description: 'Create visuals for your audio.',
       icon: MusicalNoteIcon,
-      enabled: false,
+      enabled: true,
     },
     {
       id: 'cashCow' as VideoType,
       name: 'Cash Cow Content',
       description: 'Automated faceless videos.',
       icon: CurrencyDollarIcon,
-      enabled: false,
+      enabled: true,
     },
   ];
 
@@ -510,67 +815,631 @@ const VideoTypeSelector: React.FC<{
 
 export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
   onAnimate,
+  onGenerateShot,
   onPlayVideo,
+  onPlayCreation,
   onGenerateStoryboard,
+  onGenerateSceneFrame,
+  onRewriteBlockedScene,
   onGenerateLogoPrompt,
   onGenerateYouTubeIntroPrompt,
+  onGenerateExplainerVideoPrompt,
   onGenerateImageForCard,
+  onGenerateMusicVideo,
+  onGenerateCashCowVideo,
+  onEstimateCost,
+  costReport,
+  models,
+  supportsImageSeed,
+  creations,
+  onAddCreation,
+  styles,
+  activeStyleId,
+  onApplyStyle,
+  onAnalyzeStyle,
+  onSaveStyle,
+  onDeleteStyle,
+  stylePresets,
+  onSaveStylePreset,
+  onDeleteStylePreset,
+  onImportStylePresets,
+  videoFormat,
+  onVideoFormatChange,
+  rephraseSceneIndex,
+  onRephraseHandled,
+  onManageApiKeys,
 }) => {
   const [masterPrompt, setMasterPrompt] = useState('');
   const [visualStoryboard, setVisualStoryboard] = useState<(string | null)[]>(
     [],
   );
+  /** The rendered variants of each storyboard frame, by scene index. */
+  const [frameVariants, setFrameVariants] = useState<string[][]>([]);
+  /** Why each storyboard frame failed to render, by scene index. */
+  const [frameErrors, setFrameErrors] = useState<(GenerationError | null)[]>(
+    [],
+  );
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(
+    DEFAULT_IMAGE_SETTINGS,
+  );
   const [isGenerating, setIsGenerating] = useState(false);
   const [videoType, setVideoType] = useState<VideoType>('storyboard');
-  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [forms, setForms] = useState<GeneratorForms>(DEFAULT_FORMS);
   const [copyButtonText, setCopyButtonText] = useState('Copy Prompts');
+  const [explainerScenes, setExplainerScenes] = useState<
+    ExplainerScene[] | null
+  >(null);
+  const [isExplainerLoading, setIsExplainerLoading] = useState(false);
+  const [batchShots, setBatchShots] = useState<Shot[] | null>(null);
+  const [project, setProject] = useState<Pick<
+    Project,
+    'id' | 'createdAt'
+  > | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [saveButtonText, setSaveButtonText] = useState('Save Project');
+  const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [regeneratingFrames, setRegeneratingFrames] = useState<number[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+  const [isStylePresetManagerOpen, setIsStylePresetManagerOpen] =
+    useState(false);
+  /** The storyboard frame whose animation panel is open. */
+  const [animatingFrame, setAnimatingFrame] = useState<number | null>(null);
+  const [rerunRequested, setRerunRequested] = useState(false);
+  /** Set when a generator has finished a run that is not in the history yet. */
+  const hasUnrecordedRun = useRef(false);
+  /** Aborted when the outputs are replaced, dropping frames still rendering. */
+  const outputsController = useRef(new AbortController());
+  const cardRun = useCancellableRun();
 
-  useEffect(() => {
-    // Clear outputs when switching video types
+  const logoFile = forms.logo.logoFile;
+  const activeStyle = styles.find((style) => style.id === activeStyleId);
+
+  const reportFor = (type: VideoType) =>
+    costReport?.videoType === type ? costReport : null;
+
+  const updateForm =
+    <K extends keyof GeneratorForms>(type: K) =>
+    (form: GeneratorForms[K]) =>
+      setForms((prev) => ({...prev, [type]: form}));
+
+  /** Cancels the frames and cards rendering for the current outputs. */
+  const abortOutputRuns = () => {
+    outputsController.current.abort();
+    outputsController.current = new AbortController();
+    cardRun.cancel();
+    setRegeneratingFrames([]);
+    setIsExplainerLoading(false);
+  };
+
+  const clearOutputs = () => {
+    abortOutputRuns();
     setMasterPrompt('');
     setVisualStoryboard([]);
-  }, [videoType]);
+    setFrameVariants([]);
+    setFrameErrors([]);
+    setExplainerScenes(null);
+    setBatchShots(null);
+  };
 
-  const handleGenerateScene = () => {
-    if (masterPrompt) {
-      let finalPrompt = masterPrompt; // Default to whole prompt
-
-      // Try to extract the first prompt, either from JSON or classic format
-      try {
-        // Test if it's JSON
-        const parsed = JSON.parse(masterPrompt);
-        let firstScenePrompt = '';
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          firstScenePrompt = parsed[0].generation_prompt;
-        } else if (parsed?.scenes?.length > 0) {
-          firstScenePrompt = parsed.scenes[0].generation_prompt;
-        }
-
-        if (firstScenePrompt) {
-          finalPrompt = firstScenePrompt;
-        }
-      } catch (e) {
-        // Not valid JSON, treat as classic format with markers
-        const prompts = masterPrompt.split(/--- (?:SCENE|PROMPT) \d+.*---/);
-        if (prompts.length > 1) {
-          finalPrompt = prompts[1].trim(); // Get the content of the first block
-        }
+  const handleSelectVideoType = (type: VideoType) => {
+    // Outputs belong to a single video type; the form inputs are kept.
+    if (type !== videoType) {
+      clearOutputs();
+    }
+    setVideoType(type);
+  };
+
+  useEffect(() => {
+    if (rephraseSceneIndex === null) return;
+    onRephraseHandled();
+    handleSelectVideoType('storyboard');
+    // Waits for the storyboard form to render if another generator was open.
+    setTimeout(() => {
+      const input = document.getElementById(
+        `storyboard-scene-${rephraseSceneIndex}`,
+      );
+      input?.scrollIntoView({behavior: 'smooth', block: 'center'});
+      input?.focus();
+    });
+  }, [rephraseSceneIndex]);
+
+  const handleSelectVideoFormat = (format: VideoFormat) => {
+    onVideoFormatChange(format);
+    trackEvent('select_video_format', {format});
+  };
+
+  const buildProject = (): Project => {
+    const now = Date.now();
+    return {
+      id: project?.id ?? crypto.randomUUID(),
+      name: projectName.trim() || 'Untitled Project',
+      createdAt: project?.createdAt ?? now,
+      updatedAt: now,
+      videoType,
+      forms,
+      masterPrompt,
+      sceneImages: visualStoryboard,
+      explainerScenes,
+      imageSettings,
+      videoFormat,
+    };
+  };
+
+  const takeSnapshot = (): HistorySnapshot => {
+    const form = forms[videoType];
+    return {
+      videoType,
+      form,
+      promptFormat: 'promptFormat' in form ? form.promptFormat : 'json',
+      masterPrompt,
+      sceneImages: visualStoryboard,
+      explainerScenes,
+    };
+  };
+
+  const recordHistory = async (
+    snapshot: HistorySnapshot,
+    model: string,
+    renderedScene: HistoryEntry['renderedScene'] = null,
+  ) => {
+    try {
+      await saveHistoryEntry({
+        ...snapshot,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        model,
+        renderedScene,
+      });
+    } catch (error) {
+      console.error('Failed to record the generation:', error);
+    }
+  };
+
+  const handlePromptGenerated = (prompt: string) => {
+    setMasterPrompt(prompt);
+    // Generators clear the prompt when they start and set it when they finish.
+    hasUnrecordedRun.current = !!prompt;
+  };
+
+  // Generators report the prompt, the frames and any updated inputs of a run
+  // one after the other; the run is recorded once they have all rendered.
+  useEffect(() => {
+    if (hasUnrecordedRun.current) {
+      hasUnrecordedRun.current = false;
+      recordHistory(takeSnapshot(), models.text);
+    }
+  }, [masterPrompt, visualStoryboard, explainerScenes, forms]);
+
+  const restoreHistoryEntry = (entry: HistoryEntry) => {
+    abortOutputRuns();
+    setVideoType(entry.videoType);
+    setForms((prev) =>
+      withFormDefaults({...prev, [entry.videoType]: entry.form}),
+    );
+    setMasterPrompt(entry.masterPrompt);
+    setVisualStoryboard(entry.sceneImages);
+    setFrameErrors([]);
+    setExplainerScenes(entry.explainerScenes);
+    setBatchShots(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleRestoreHistoryEntry = (entry: HistoryEntry) => {
+    restoreHistoryEntry(entry);
+    trackEvent('restore_history_entry', {video_type: entry.videoType});
+  };
+
+  /**
+   * Adds a generated clip to My Creations and resolves with its ID, or null
+   * if it could not be saved. Its poster is the image the clip was
+   * conditioned on, or else its first frame.
+   */
+  const addClipToCreations = async (
+    clip: Blob,
+    prompt: string,
+    title: string,
+    type: VideoType,
+    imageFile: File | null,
+  ) =>
+    onAddCreation({
+      title,
+      description: prompt,
+      tags: [VIDEO_TYPE_LABELS[type], 'Clip'],
+      video: clip,
+      image: imageFile ?? (await captureFirstFrame(clip)),
+    });
+
+  const handleSaveFrame = (index: number) => {
+    const image = visualStoryboard[index];
+    if (!image) return;
+    trackEvent('save_frame_to_creations', {scene_number: index + 1});
+    onAddCreation({
+      title: `Scene ${index + 1}`,
+      description: forms.storyboard.scenes[index] ?? '',
+      tags: [VIDEO_TYPE_LABELS.storyboard, 'Frame'],
+      video: null,
+      image: new Blob([base64ToBytes(image)], {type: imageMimeType(image)}),
+    });
+  };
+
+  const handleAnimateFrame = (prompt: string, imageFile: File) => {
+    setAnimatingFrame(null);
+    renderExampleScene(prompt, imageFile, takeSnapshot());
+  };
+
+  /** The shot prompt for a frame, or its scene text before prompts exist. */
+  const framePrompt = (index: number) =>
+    (masterPrompt && splitMasterPrompt(masterPrompt)[index]?.prompt) ||
+    forms.storyboard.scenes[index] ||
+    '';
+
+  const handleSaveProject = async () => {
+    const saved = buildProject();
+    try {
+      await saveProject(saved);
+      setProject({id: saved.id, createdAt: saved.createdAt});
+      setProjectName(saved.name);
+      setSaveButtonText('Saved!');
+      setTimeout(() => setSaveButtonText('Save Project'), 2000);
+      trackEvent('save_project', {video_type: videoType});
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      setSaveButtonText('Save Failed');
+      setTimeout(() => setSaveButtonText('Save Project'), 2000);
+    }
+  };
+
+  const handleNewProject = () => {
+    setProject(null);
+    setProjectName('');
+    setForms(DEFAULT_FORMS);
+    setImageSettings(DEFAULT_IMAGE_SETTINGS);
+    onVideoFormatChange(DEFAULT_VIDEO_FORMAT);
+    clearOutputs();
+    trackEvent('new_project');
+  };
+
+  const handleOpenProject = (opened: Project) => {
+    abortOutputRuns();
+    setProject({id: opened.id, createdAt: opened.createdAt});
+    setProjectName(opened.name);
+    setVideoType(opened.videoType);
+    setForms(withFormDefaults(opened.forms));
+    setMasterPrompt(opened.masterPrompt);
+    setVisualStoryboard(opened.sceneImages);
+    setFrameVariants([]);
+    setFrameErrors([]);
+    setImageSettings({...DEFAULT_IMAGE_SETTINGS, ...opened.imageSettings});
+    onVideoFormatChange(opened.videoFormat ?? DEFAULT_VIDEO_FORMAT);
+    setExplainerScenes(opened.explainerScenes);
+    setBatchShots(null);
+    setProjectError(null);
+    setIsProjectBrowserOpen(false);
+    trackEvent('open_project', {video_type: opened.videoType});
+  };
+
+  const handleDownloadProject = async () => {
+    const bundled = buildProject();
+    try {
+      const zip = await exportProjectBundle(bundled);
+      downloadBlob(zip, `${toFileName(bundled.name)}.zip`);
+      trackEvent('download_project', {video_type: videoType});
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      setProjectError('Could not create the project bundle.');
+    }
+  };
+
+  const handleImportProject = async (files: FileList | null) => {
+    if (!files || !files[0]) return;
+    try {
+      const imported = await importProjectBundle(files[0]);
+      handleOpenProject(imported);
+      trackEvent('import_project', {video_type: imported.videoType});
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      setProjectError(
+        error instanceof Error
+          ? error.message
+          : 'Could not read the project bundle.',
+      );
+    }
+  };
+
+  const validationReport = useMemo(() => {
+    if (videoType === 'explainer' || !looksLikeJson(masterPrompt)) {
+      return null;
+    }
+    // Music video prompts are written by the storyboard pipeline.
+    return validatePromptJson(
+      videoType === 'musicVideo' ? 'storyboard' : videoType,
+      masterPrompt,
+    );
+  }, [videoType, masterPrompt]);
+
+  const cashCowBeats = useMemo(
+    () => (videoType === 'cashCow' ? parseCashCowBeats(masterPrompt) : null),
+    [videoType, masterPrompt],
+  );
+
+  const handleExplainerPromptGenerated = async (prompt: string) => {
+    setMasterPrompt(prompt);
+    // A new prompt replaces the cards of the previous one.
+    const signal = cardRun.start();
+    const scenes = prompt ? parseExplainerShots(prompt) : null;
+    if (!scenes) {
+      setExplainerScenes(null);
+      setIsExplainerLoading(false);
+      hasUnrecordedRun.current = !!prompt;
+      return;
+    }
+
+    setIsExplainerLoading(true);
+    try {
+      const imageResults = await Promise.allSettled(
+        scenes.map((scene) =>
+          onGenerateImageForCard(scene.generation_prompt, imageSettings, {
+            signal,
+          }),
+        ),
+      );
+      if (signal.aborted) return;
+      hasUnrecordedRun.current = true;
+      setExplainerScenes(
+        scenes.map((scene, index) => {
+          const result = imageResults[index];
+          if (result.status === 'rejected') {
+            console.error('Failed to generate scene image:', result.reason);
+          }
+          return {
+            scene,
+            image: result.status === 'fulfilled' ? result.value : null,
+          };
+        }),
+      );
+    } finally {
+      if (!signal.aborted) {
+        setIsExplainerLoading(false);
       }
+    }
+  };
 
-      // If no prompt could be extracted, finalPrompt remains masterPrompt
-      finalPrompt = finalPrompt.trim() === '' ? masterPrompt : finalPrompt;
+  const handleEditExplainerPrompt = (newPrompt: string) => {
+    setMasterPrompt(newPrompt);
+    const scenes = parseExplainerShots(newPrompt);
+    // Keep showing the last valid cards while the JSON is mid-edit.
+    if (scenes) {
+      setExplainerScenes((prev) =>
+        scenes.map((scene, index) => ({
+          scene,
+          image: prev?.[index]?.image ?? null,
+        })),
+      );
+    }
+  };
 
-      trackEvent('generate_final_scene', {
-        video_type: videoType,
-        prompt_length: finalPrompt.length,
+  const handleToggleFrameLock = (index: number) => {
+    const lockedFrames = [...forms.storyboard.lockedFrames];
+    lockedFrames[index] = !lockedFrames[index];
+    updateForm('storyboard')({...forms.storyboard, lockedFrames});
+    trackEvent('toggle_frame_lock', {
+      scene_number: index + 1,
+      locked: lockedFrames[index],
+    });
+  };
+
+  const handleRegenerateFrame = async (index: number, scene: string) => {
+    const {referenceImage, styleName, cast} = forms.storyboard;
+    setForms((prev) => {
+      const scenes = [...prev.storyboard.scenes];
+      scenes[index] = scene;
+      return {...prev, storyboard: {...prev.storyboard, scenes}};
+    });
+    setRegeneratingFrames((prev) => [...prev, index]);
+    trackEvent('regenerate_frame', {scene_number: index + 1});
+    const {signal} = outputsController.current;
+    try {
+      const variants = await onGenerateSceneFrame(
+        scene,
+        referenceImage,
+        storyboardStyleName(stylePresets, styleName),
+        cast,
+        imageSettings,
+        {signal},
+      );
+      if (signal.aborted) return;
+      setVisualStoryboard((prev) =>
+        prev.map((frame, i) => (i === index ? variants[0] : frame)),
+      );
+      setFrameVariants((prev) => {
+        const next = [...prev];
+        next[index] = variants;
+        return next;
       });
+      setFrameError(index, null);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error(`Error regenerating frame ${index + 1}:`, error);
+        setFrameError(index, classifyError(error));
+      }
+    } finally {
+      if (!signal.aborted) {
+        setRegeneratingFrames((prev) => prev.filter((i) => i !== index));
+      }
+    }
+  };
+
+  const setFrameError = (index: number, error: GenerationError | null) =>
+    setFrameErrors((prev) => {
+      const next = [...prev];
+      next[index] = error;
+      return next;
+    });
 
-      if (videoType === 'logo' && logoFile) {
-        onAnimate(finalPrompt, logoFile);
-      } else {
-        onAnimate(finalPrompt);
+  /** Asks for a rephrasing of a blocked scene, for the user to approve. */
+  const handleSuggestRewrite = async (index: number) => {
+    const {scenes} = forms.storyboard;
+    trackEvent('suggest_scene_rewrite', {scene_number: index + 1});
+    return onRewriteBlockedScene(
+      {
+        scene: scenes[index] ?? '',
+        blockReason: frameErrors[index]?.message,
+        otherScenes: scenes.filter((_, i) => i !== index),
+      },
+      {signal: outputsController.current.signal},
+    );
+  };
+
+  const handlePickVariant = (index: number, variant: string) => {
+    setVisualStoryboard((prev) =>
+      prev.map((frame, i) => (i === index ? variant : frame)),
+    );
+    trackEvent('pick_frame_variant', {
+      scene_number: index + 1,
+      variant_number: frameVariants[index].indexOf(variant) + 1,
+    });
+  };
+
+  /** The negative terms of the style preset picked in a generator's form. */
+  const negativeTermsFor = ({
+    videoType,
+    form,
+  }: Pick<HistorySnapshot, 'videoType' | 'form'>): string => {
+    if (videoType === 'storyboard' && 'styleName' in form) {
+      return stylePresetNegativeTerms(
+        stylePresets,
+        videoType,
+        storyboardStyleName(stylePresets, form.styleName),
+      );
+    }
+    if (videoType === 'logo' && 'animationStyle' in form) {
+      return stylePresetNegativeTerms(
+        stylePresets,
+        videoType,
+        form.animationStyle,
+      );
+    }
+    if (videoType === 'introOutro' && 'visualStyle' in form) {
+      return stylePresetNegativeTerms(
+        stylePresets,
+        videoType,
+        form.visualStyle,
+      );
+    }
+    return '';
+  };
+
+  /** Renders an example scene and records it with the state it came from. */
+  const renderExampleScene = async (
+    prompt: string,
+    imageFile: File | null,
+    snapshot: HistorySnapshot,
+  ) => {
+    const clip = await onAnimate(prompt, imageFile, negativeTermsFor(snapshot));
+    if (!clip) return;
+    try {
+      const id = await addClipToCreations(
+        clip,
+        prompt,
+        `${VIDEO_TYPE_LABELS[snapshot.videoType]} scene`,
+        snapshot.videoType,
+        imageFile,
+      );
+      if (id) {
+        onPlayCreation(id);
       }
+      await recordHistory(snapshot, models.video, {
+        prompt,
+        video: clip,
+        imageFile,
+      });
+    } catch (error) {
+      console.error('Failed to keep the example scene:', error);
+    }
+  };
+
+  const handleGenerateScene = () => {
+    // Generate the first shot, falling back to the whole prompt if the text
+    // has no recognisable shot structure. Blank text has no shots at all.
+    const [first] = splitMasterPrompt(masterPrompt);
+    if (!first) return;
+    const finalPrompt = first.prompt;
+
+    trackEvent('generate_final_scene', {
+      video_type: videoType,
+      prompt_length: finalPrompt.length,
+    });
+
+    renderExampleScene(
+      finalPrompt,
+      videoType === 'logo' ? logoFile : null,
+      takeSnapshot(),
+    );
+  };
+
+  const handleRerunHistoryEntry = (entry: HistoryEntry) => {
+    restoreHistoryEntry(entry);
+    trackEvent('rerun_history_entry', {
+      video_type: entry.videoType,
+      is_example_scene: !!entry.renderedScene,
+    });
+    if (entry.renderedScene) {
+      // Entries recorded with a last frame re-run from their first frame
+      // only, as the Gemini API does not take a last frame.
+      const {prompt, imageFile} = entry.renderedScene;
+      renderExampleScene(
+        prompt,
+        // Entries recorded before frame conditioning only kept the logo.
+        imageFile !== undefined
+          ? imageFile
+          : 'logoFile' in entry.form
+            ? entry.form.logoFile
+            : null,
+        entry,
+      );
+    } else {
+      // The generator runs once it has rendered the restored inputs.
+      setRerunRequested(true);
+    }
+  };
+
+  /** Renders a shot and resolves with the ID of the creation it is kept as. */
+  const handleGenerateShot = async (
+    prompt: string,
+    imageFile: File | null = null,
+    options: CallOptions = {},
+  ): Promise<string> => {
+    const clip = await onGenerateShot(
+      prompt,
+      imageFile,
+      negativeTermsFor({videoType, form: forms[videoType]}),
+      options,
+    );
+    const title =
+      batchShots?.find((shot) => shot.prompt === prompt)?.title ??
+      'Generated Scene';
+    const id = await addClipToCreations(
+      clip,
+      prompt,
+      title,
+      videoType,
+      imageFile,
+    );
+    if (!id) {
+      throw new Error('The shot was rendered but could not be saved.');
     }
+    return id;
+  };
+
+  const handleOpenShotList = () => {
+    const shots = splitMasterPrompt(masterPrompt);
+    trackEvent('open_shot_list', {
+      video_type: videoType,
+      shot_count: shots.length,
+    });
+    setBatchShots(shots);
   };
 
   const handleCopyPrompts = () => {
@@ -600,10 +1469,22 @@ export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
   };
 
   const renderOutputSection = () => {
+    if (videoType === 'explainer') {
+      return (
+        <ExplainerStoryboardOutput
+          data={explainerScenes}
+          isLoading={isExplainerLoading}
+          fullPrompt={masterPrompt}
+          onEditPrompt={handleEditExplainerPrompt}
+        />
+      );
+    }
     if (
       videoType === 'storyboard' ||
       videoType === 'logo' ||
-      videoType === 'introOutro'
+      videoType === 'introOutro' ||
+      videoType === 'musicVideo' ||
+      videoType === 'cashCow'
     ) {
       return (
         <div className="mb-6 mt-6 border-t border-gray-700 pt-6">
@@ -621,6 +1502,9 @@ export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
             placeholder="The AI-generated director's prompt(s) will appear here. You can edit the result before final generation."
             aria-label="Master animation prompt"
           />
+          {validationReport && (
+            <ValidationReportPanel report={validationReport} />
+          )}
         </div>
       );
     }
@@ -695,37 +1579,187 @@ export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
       <section
         id="generator-section"
         className="w-full py-16 flex flex-col items-center px-4 bg-black/20">
-        <VideoTypeSelector selected={videoType} onSelect={setVideoType} />
+        <VideoTypeSelector
+          selected={videoType}
+          onSelect={handleSelectVideoType}
+        />
+        <VideoFormatSelector
+          selected={videoFormat}
+          onSelect={handleSelectVideoFormat}
+        />
 
-        <div className="w-full max-w-2xl bg-gray-800 p-6 md:p-8 rounded-lg shadow-2xl mt-8">
+        {/* Project Bar */}
+        <div className="w-full max-w-2xl flex flex-col sm:flex-row gap-2 mt-8">
+          <input
+            type="text"
+            className="flex-grow bg-gray-800 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            placeholder="Untitled Project"
+            aria-label="Project name"
+          />
+          <button
+            onClick={handleSaveProject}
+            className="px-4 py-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors text-sm">
+            {saveButtonText}
+          </button>
+          <button
+            onClick={handleNewProject}
+            className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2">
+            <PlusIcon className="w-5 h-5" />
+            New
+          </button>
+          <button
+            onClick={() => setIsProjectBrowserOpen(true)}
+            className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2">
+            <FolderIcon className="w-5 h-5" />
+            Projects
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2">
+            <ClockIcon className="w-5 h-5" />
+            History
+          </button>
+          <button
+            onClick={() => setIsStyleLibraryOpen(true)}
+            className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2">
+            <SwatchIcon className="w-5 h-5" />
+            Styles
+          </button>
+          <button
+            onClick={onManageApiKeys}
+            className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2">
+            <KeyIcon className="w-5 h-5" />
+            API Keys
+          </button>
+          <label className="px-4 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm flex items-center justify-center gap-2 cursor-pointer">
+            Import
+            <input
+              type="file"
+              className="sr-only"
+              accept=".zip,application/zip"
+              onChange={(e) => {
+                handleImportProject(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {projectError && (
+          <p className="w-full max-w-2xl text-sm text-red-400 mt-2">
+            {projectError}
+          </p>
+        )}
+        {activeStyle && (
+          <div className="w-full max-w-2xl flex items-center gap-2 mt-2 text-sm text-purple-200">
+            <SwatchIcon className="w-4 h-4" />
+            <span className="flex-1">
+              Applying your style <strong>{activeStyle.name}</strong> to every
+              generator.
+            </span>
+            <button
+              onClick={() => onApplyStyle(null)}
+              className="p-1 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors"
+              aria-label="Stop applying the style">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="w-full max-w-2xl bg-gray-800 p-6 md:p-8 rounded-lg shadow-2xl mt-4">
+          {videoType !== 'logo' && videoType !== 'introOutro' && (
+            <ImageSettingsPanel
+              settings={imageSettings}
+              onChange={setImageSettings}
+              supportsVariants={videoType === 'storyboard'}
+              supportsSeed={supportsImageSeed}
+            />
+          )}
           <main>
             {videoType === 'storyboard' && (
               <StoryboardGenerator
                 onGenerateStoryboard={onGenerateStoryboard}
-                onPromptGenerated={setMasterPrompt}
+                onEstimateCost={onEstimateCost}
+                costReport={reportFor('storyboard')}
+                form={forms.storyboard}
+                onFormChange={updateForm('storyboard')}
+                visualStoryboard={visualStoryboard}
+                frameErrors={frameErrors}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handlePromptGenerated}
+                onPromptStreamed={setMasterPrompt}
                 onVisualsGenerated={setVisualStoryboard}
+                onVariantsGenerated={setFrameVariants}
+                onFrameErrorsGenerated={setFrameErrors}
+                imageSettings={imageSettings}
+                stylePresets={stylePresets}
+                onManageStyles={() => setIsStylePresetManagerOpen(true)}
               />
             )}
             {videoType === 'logo' && (
               <LogoAnimator
                 onGenerateLogoPrompt={onGenerateLogoPrompt}
-                onPromptGenerated={setMasterPrompt}
-                onLogoSelected={setLogoFile}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handlePromptGenerated}
+                form={forms.logo}
+                onFormChange={updateForm('logo')}
+                onEstimateCost={onEstimateCost}
+                costReport={reportFor('logo')}
+                stylePresets={stylePresets}
+                onManageStyles={() => setIsStylePresetManagerOpen(true)}
               />
             )}
             {videoType === 'introOutro' && (
               <YouTubeIntroGenerator
                 onGenerateYouTubeIntroPrompt={onGenerateYouTubeIntroPrompt}
-                onPromptGenerated={setMasterPrompt}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handlePromptGenerated}
+                form={forms.introOutro}
+                onFormChange={updateForm('introOutro')}
+                onEstimateCost={onEstimateCost}
+                costReport={reportFor('introOutro')}
+                stylePresets={stylePresets}
+                onManageStyles={() => setIsStylePresetManagerOpen(true)}
               />
             )}
-            {(videoType === 'musicVideo' || videoType === 'cashCow') && (
-              <div className="text-center py-10">
-                <h3 className="text-xl font-bold text-white">Coming Soon!</h3>
-                <p className="text-gray-400 mt-2">
-                  This feature is currently under development. Stay tuned!
-                </p>
-              </div>
+            {videoType === 'explainer' && (
+              <ExplainerVideoGenerator
+                onGenerateExplainerVideoPrompt={onGenerateExplainerVideoPrompt}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handleExplainerPromptGenerated}
+                form={forms.explainer}
+                onFormChange={updateForm('explainer')}
+              />
+            )}
+            {videoType === 'musicVideo' && (
+              <MusicVideoGenerator
+                onGenerateMusicVideo={onGenerateMusicVideo}
+                form={forms.musicVideo}
+                onFormChange={updateForm('musicVideo')}
+                imageSettings={imageSettings}
+                visualStoryboard={visualStoryboard}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handlePromptGenerated}
+                onVisualsGenerated={setVisualStoryboard}
+              />
+            )}
+            {videoType === 'cashCow' && (
+              <CashCowGenerator
+                onGenerateCashCowVideo={onGenerateCashCowVideo}
+                rerunRequested={rerunRequested}
+                onRerunHandled={() => setRerunRequested(false)}
+                onPromptGenerated={handlePromptGenerated}
+                onVisualsGenerated={setVisualStoryboard}
+                form={forms.cashCow}
+                onFormChange={updateForm('cashCow')}
+                imageSettings={imageSettings}
+              />
             )}
           </main>
 
@@ -735,62 +1769,137 @@ export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 5. Visual Storyboard
               </label>
-              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
-                {visualStoryboard.map((imageSrc, index) => (
-                  <div key={index} className="relative group">
-                    <div className="aspect-w-4 aspect-h-3 bg-gray-700 rounded-lg overflow-hidden">
-                      {imageSrc ? (
-                        <img
-                          src={`data:image/jpeg;base64,${imageSrc}`}
-                          alt={`Generated visual for Scene ${index + 1}`}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex flex-col items-center justify-center text-center p-2">
-                          <PhotoIcon className="w-8 h-8 text-gray-400 mb-1" />
-                          <p className="text-xs text-gray-500">
-                            No image generated
-                          </p>
-                        </div>
-                      )}
-                    </div>
-                    <div className="absolute bottom-0 left-0 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded-tr-lg rounded-bl-lg">
-                      Scene {index + 1}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <p className="text-xs text-gray-500 mb-2 -mt-1">
+                Regenerate or edit a single frame, or lock the ones you like to
+                keep them when you generate again.
+              </p>
+              <StoryboardFrameGrid
+                scenes={forms.storyboard.scenes}
+                images={visualStoryboard}
+                aspectRatio={
+                  imageSettings.aspectRatio ??
+                  imageAspectRatioFor(videoFormat, '4:3')
+                }
+                variants={frameVariants}
+                frameErrors={frameErrors}
+                lockedFrames={forms.storyboard.lockedFrames}
+                regenerating={regeneratingFrames}
+                onToggleLock={handleToggleFrameLock}
+                onRegenerate={handleRegenerateFrame}
+                onSuggestRewrite={handleSuggestRewrite}
+                onSaveFrame={handleSaveFrame}
+                onAnimateFrame={setAnimatingFrame}
+                onPickVariant={handlePickVariant}
+              />
+              {animatingFrame !== null && (
+                <FrameAnimationPanel
+                  key={animatingFrame}
+                  frames={visualStoryboard}
+                  startIndex={animatingFrame}
+                  defaultPrompt={framePrompt(animatingFrame)}
+                  uploadedImages={
+                    forms.storyboard.referenceImage
+                      ? [forms.storyboard.referenceImage]
+                      : []
+                  }
+                  onAnimate={handleAnimateFrame}
+                  onClose={() => setAnimatingFrame(null)}
+                />
+              )}
             </div>
           )}
 
+          {cashCowBeats && cashCowBeats.length > 0 && (
+            <CashCowBeatList beats={cashCowBeats} images={visualStoryboard} />
+          )}
+
           {/* Master Prompt / Explainer Output */}
           {renderOutputSection()}
 
-          {/* Generate Animation - Common to all enabled types */}
-          {(videoType === 'storyboard' ||
-            videoType === 'logo' ||
-            videoType === 'introOutro') && (
-            <footer className="flex flex-col-reverse sm:flex-row justify-end gap-4 border-t border-gray-700 pt-6 mt-6">
+          {/* Generate Animation - Common to all types */}
+          <footer className="flex flex-col-reverse sm:flex-row justify-end gap-4 border-t border-gray-700 pt-6 mt-6">
+            <button
+              onClick={handleCopyPrompts}
+              disabled={!masterPrompt.trim()}
+              className="w-full sm:w-auto px-6 py-3 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base flex items-center justify-center gap-2">
+              <ClipboardDocumentListIcon className="w-5 h-5" />
+              {copyButtonText}
+            </button>
+            <button
+              onClick={handleDownloadProject}
+              disabled={!masterPrompt.trim() || isExplainerLoading}
+              className="w-full sm:w-auto px-6 py-3 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base flex items-center justify-center gap-2">
+              <ArrowDownTrayIcon className="w-5 h-5" />
+              Download Project
+            </button>
+            <button
+              onClick={handleOpenShotList}
+              disabled={!masterPrompt.trim() || isExplainerLoading}
+              className="w-full sm:w-auto px-6 py-3 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base flex items-center justify-center gap-2">
+              <FilmIcon className="w-5 h-5" />
+              Generate All Shots
+            </button>
+            {videoType !== 'storyboard' && videoType !== 'musicVideo' && (
               <button
-                onClick={handleCopyPrompts}
-                disabled={!masterPrompt}
-                className="w-full sm:w-auto px-6 py-3 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base flex items-center justify-center gap-2">
-                <ClipboardDocumentListIcon className="w-5 h-5" />
-                {copyButtonText}
+                onClick={handleGenerateScene}
+                disabled={!masterPrompt.trim() || isGenerating}
+                className="w-full sm:w-auto px-6 py-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base">
+                Generate Example Scene
               </button>
-              {videoType !== 'storyboard' && (
-                <button
-                  onClick={handleGenerateScene}
-                  disabled={!masterPrompt || isGenerating}
-                  className="w-full sm:w-auto px-6 py-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base">
-                  Generate Example Scene
-                </button>
-              )}
-            </footer>
+            )}
+          </footer>
+
+          {batchShots && (
+            <ShotListGenerator
+              key={batchShots.map((shot) => shot.prompt).join('\n')}
+              shots={batchShots}
+              imageFile={videoType === 'logo' ? logoFile : null}
+              onGenerateShot={handleGenerateShot}
+              creations={creations}
+              onPlayVideo={onPlayVideo}
+              onClose={() => setBatchShots(null)}
+            />
           )}
         </div>
       </section>
 
+      {isHistoryOpen && (
+        <HistoryPanel
+          onRestore={handleRestoreHistoryEntry}
+          onRerun={handleRerunHistoryEntry}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isStylePresetManagerOpen && (
+        <StylePresetManager
+          presets={stylePresets}
+          onSave={onSaveStylePreset}
+          onDelete={onDeleteStylePreset}
+          onImport={onImportStylePresets}
+          onClose={() => setIsStylePresetManagerOpen(false)}
+        />
+      )}
+
+      {isStyleLibraryOpen && (
+        <StyleLibraryPanel
+          styles={styles}
+          activeStyleId={activeStyleId}
+          onApply={onApplyStyle}
+          onAnalyze={onAnalyzeStyle}
+          onSave={onSaveStyle}
+          onDelete={onDeleteStyle}
+          onClose={() => setIsStyleLibraryOpen(false)}
+        />
+      )}
+
+      {isProjectBrowserOpen && (
+        <ProjectBrowser
+          onOpen={handleOpenProject}
+          onClose={() => setIsProjectBrowserOpen(false)}
+        />
+      )}
+
       <AdPlaceholder className="max-w-4xl px-4" />
 
       {/* Features Section */}
@@ -834,6 +1943,10 @@ export const AnimateImagePage: React.FC<AnimateImagePageProps> = ({
         </div>
       </section>
 
+      {creations.length > 0 && (
+        <MyCreationsGallery videos={creations} onPlayVideo={onPlayVideo} />
+      )}
+
       {/* Gallery Section */}
       <section className="w-full max-w-7xl py-16 px-4">
         <h2 className="text-3xl font-bold text-center mb-4">
@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {encryptApiKey, unlockApiKey} from '../services/apiKeyStore';
+import {StoredApiKey} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {CheckIcon, KeyIcon, TrashIcon, XMarkIcon} from './icons';
+
+interface ApiKeySettingsPageProps {
+  keys: StoredApiKey[];
+  /** The saved key in use; null when the build-time key is used. */
+  activeKeyId: string | null;
+  /** Whether a key was baked into the build to fall back on. */
+  hasBuildKey: boolean;
+  onSave: (key: StoredApiKey) => Promise<void>;
+  onDelete: (id: string) => void;
+  /** Switches every later call to a saved key, unlocked as `apiKey`. */
+  onActivate: (key: StoredApiKey, apiKey: string) => void;
+  /** Switches back to the build-time key. */
+  onUseBuildKey: () => void;
+  /** Resolves if the API accepts `apiKey`; rejects with the reason if not. */
+  onVerify: (apiKey: string) => Promise<void>;
+  onClose: () => void;
+}
+
+interface StatusMessage {
+  tone: 'success' | 'error';
+  text: string;
+}
+
+const inputClass =
+  'w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500';
+
+const errorText = (e: unknown) =>
+  e instanceof Error ? e.message : 'Something went wrong.';
+
+/**
+ * A modal for bringing your own Gemini API keys: add and test a key, keep it
+ * in the browser encrypted with a passphrase, and switch between saved keys
+ * at runtime. The passphrase and unlocked keys are only held in memory.
+ */
+export const ApiKeySettingsPage: React.FC<ApiKeySettingsPageProps> = ({
+  keys,
+  activeKeyId,
+  hasBuildKey,
+  onSave,
+  onDelete,
+  onActivate,
+  onUseBuildKey,
+  onVerify,
+  onClose,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [label, setLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
+  /** The action in flight, e.g. `test-new` or `use-<id>`. */
+  const [pending, setPending] = useState<string | null>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  /** Runs one action at a time and shows its outcome. */
+  const runAction = async (
+    action: string,
+    run: () => Promise<string>,
+  ): Promise<void> => {
+    setPending(action);
+    setStatus(null);
+    try {
+      setStatus({tone: 'success', text: await run()});
+    } catch (e) {
+      setStatus({tone: 'error', text: errorText(e)});
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleTestNew = () =>
+    runAction('test-new', async () => {
+      try {
+        await onVerify(newKey.trim());
+      } finally {
+        trackEvent('test_api_key', {saved: false});
+      }
+      return 'The key works.';
+    });
+
+  const handleSaveNew = () =>
+    runAction('save-new', async () => {
+      const apiKey = newKey.trim();
+      await onVerify(apiKey);
+      const key = await encryptApiKey(
+        label.trim() || `Key ending in ${apiKey.slice(-4)}`,
+        apiKey,
+        passphrase,
+      );
+      await onSave(key);
+      onActivate(key, apiKey);
+      trackEvent('save_api_key', {saved_key_count: keys.length + 1});
+      setLabel('');
+      setNewKey('');
+      return `Saved "${key.label}" and switched to it.`;
+    });
+
+  const handleUse = (key: StoredApiKey) =>
+    runAction(`use-${key.id}`, async () => {
+      onActivate(key, await unlockApiKey(key, passphrase));
+      trackEvent('switch_api_key');
+      return `Switched to "${key.label}".`;
+    });
+
+  const handleTestSaved = (key: StoredApiKey) =>
+    runAction(`test-${key.id}`, async () => {
+      try {
+        await onVerify(await unlockApiKey(key, passphrase));
+      } finally {
+        trackEvent('test_api_key', {saved: true});
+      }
+      return `"${key.label}" works.`;
+    });
+
+  const handleDelete = (key: StoredApiKey) => {
+    if (!window.confirm(`Delete the API key "${key.label}"?`)) {
+      return;
+    }
+    trackEvent('delete_api_key');
+    onDelete(key.id);
+  };
+
+  const activeKey = keys.find((key) => key.id === activeKeyId);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="api-key-settings-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col relative p-6 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close API key settings">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="api-key-settings-title"
+          className="text-xl font-bold text-white mb-1 pr-10">
+          API Keys
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">
+          {activeKey
+            ? `Using "${activeKey.label}" (…${activeKey.hint}).`
+            : hasBuildKey
+              ? 'Using the key this app was built with.'
+              : 'No API key is set. Add your Gemini API key to start generating.'}
+        </p>
+        <div className="overflow-y-auto -mx-2 px-2 space-y-6">
+          <div>
+            <label
+              htmlFor="api-key-passphrase"
+              className="block text-sm font-medium text-gray-300 mb-1">
+              Passphrase
+            </label>
+            <input
+              id="api-key-passphrase"
+              type="password"
+              autoComplete="current-password"
+              className={inputClass}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Encrypts the keys you save and unlocks them"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Keys are stored in this browser, encrypted with the passphrase. It
+              is never saved, so a forgotten passphrase means adding the keys
+              again.
+            </p>
+          </div>
+
+          {status && (
+            <p
+              className={`text-sm ${
+                status.tone === 'success' ? 'text-green-300' : 'text-red-400'
+              }`}
+              role="status">
+              {status.text}
+            </p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-2">
+              Saved Keys
+            </h3>
+            {keys.length === 0 ? (
+              <p className="text-sm text-gray-400 py-4 text-center">
+                No saved keys yet.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {keys.map((key) => (
+                  <li
+                    key={key.id}
+                    className={`flex flex-wrap items-center gap-2 p-3 rounded-lg bg-gray-900/50 border ${
+                      key.id === activeKeyId
+                        ? 'border-purple-500'
+                        : 'border-gray-700'
+                    }`}>
+                    <KeyIcon className="w-5 h-5 text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{key.label}</p>
+                      <p className="text-xs text-gray-500">
+                        …{key.hint} · added{' '}
+                        {new Date(key.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {key.id === activeKeyId ? (
+                      <span className="flex items-center gap-1 text-xs text-purple-300">
+                        <CheckIcon className="w-4 h-4" />
+                        In use
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleUse(key)}
+                        disabled={!passphrase || pending !== null}
+                        className="px-3 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        {pending === `use-${key.id}` ? 'Unlocking...' : 'Use'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleTestSaved(key)}
+                      disabled={!passphrase || pending !== null}
+                      className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                      {pending === `test-${key.id}` ? 'Testing...' : 'Test'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(key)}
+                      disabled={pending !== null}
+                      className="p-1.5 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors disabled:opacity-40"
+                      aria-label={`Delete ${key.label}`}>
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {activeKeyId && hasBuildKey && (
+              <button
+                onClick={onUseBuildKey}
+                className="mt-2 text-xs text-gray-400 hover:text-white underline">
+                Use the key this app was built with instead
+              </button>
+            )}
+          </div>
+
+          <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+            <h3 className="text-sm font-semibold text-white mb-3">Add a Key</h3>
+            <div className="grid sm:grid-cols-2 gap-3 mb-3">
+              <div>
+                <label
+                  htmlFor="api-key-label"
+                  className="block text-sm font-medium text-gray-300 mb-1">
+                  Label
+                </label>
+                <input
+                  id="api-key-label"
+                  type="text"
+                  className={inputClass}
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Personal"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="api-key-value"
+                  className="block text-sm font-medium text-gray-300 mb-1">
+                  Gemini API key
+                </label>
+                <input
+                  id="api-key-value"
+                  type="password"
+                  autoComplete="off"
+                  className={inputClass}
+                  value={newKey}
+                  onChange={(e) => setNewKey(e.target.value)}
+                  placeholder="AIza..."
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveNew}
+                disabled={!newKey.trim() || !passphrase || pending !== null}
+                className="flex-1 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                {pending === 'save-new' ? 'Checking...' : 'Save & Use'}
+              </button>
+              <button
+                onClick={handleTestNew}
+                disabled={!newKey.trim() || pending !== null}
+                className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                {pending === 'test-new' ? 'Testing...' : 'Test'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              A key is tested before it is saved. The passphrase above encrypts
+              it.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
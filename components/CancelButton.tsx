@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {XMarkIcon} from './icons';
+
+interface CancelButtonProps {
+  onCancel: () => void;
+  label?: string;
+}
+
+/** Stops a generation that is in flight. */
+export const CancelButton: React.FC<CancelButtonProps> = ({
+  onCancel,
+  label = 'Cancel',
+}) => (
+  <button
+    onClick={onCancel}
+    className="w-full flex justify-center items-center gap-2 mb-3 px-6 py-2 rounded-lg bg-gray-900 hover:bg-red-900/60 border border-gray-700 hover:border-red-500 text-gray-300 hover:text-white font-semibold transition-colors text-sm">
+    <XMarkIcon className="w-5 h-5" />
+    <span>{label}</span>
+  </button>
+);
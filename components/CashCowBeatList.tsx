@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {CashCowBeat} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {beatsToSrt} from '../utils/cashCow';
+import {downloadBlob, imageDataUrl} from '../utils/files';
+import {ArrowDownTrayIcon, PhotoIcon} from './icons';
+
+interface CashCowBeatListProps {
+  beats: CashCowBeat[];
+  /** Base64 b-roll previews, one per beat. */
+  images: (string | null)[];
+}
+
+/**
+ * The beats of a faceless video script: each beat's timing, narration and
+ * caption next to its b-roll preview, with the narration downloadable as
+ * subtitles.
+ */
+export const CashCowBeatList: React.FC<CashCowBeatListProps> = ({
+  beats,
+  images,
+}) => {
+  const handleDownloadCaptions = () => {
+    downloadBlob(
+      new Blob([beatsToSrt(beats)], {type: 'application/x-subrip'}),
+      'captions.srt',
+    );
+    trackEvent('download_captions', {beat_count: beats.length});
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-300">
+          6. Beats, Captions & B-Roll
+        </label>
+        <button
+          onClick={handleDownloadCaptions}
+          className="flex items-center gap-1 text-sm text-purple-300 font-semibold hover:text-purple-200 transition-colors">
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          Captions (.srt)
+        </button>
+      </div>
+      <ol className="space-y-3">
+        {beats.map((beat, index) => {
+          const image = images[index];
+          return (
+            <li
+              key={index}
+              className="flex gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+              <div className="relative w-32 h-[72px] flex-shrink-0 bg-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+                {image ? (
+                  <img
+                    src={imageDataUrl(image)}
+                    alt={`B-roll for beat ${beat.beat_number}`}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <PhotoIcon className="w-8 h-8 text-gray-400" />
+                )}
+                {beat.caption && (
+                  <span className="absolute bottom-1 inset-x-1 text-center text-[10px] font-bold text-white bg-black/60 rounded px-1 truncate">
+                    {beat.caption}
+                  </span>
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs text-gray-400">
+                  <span className="font-semibold text-gray-200">
+                    Beat {beat.beat_number}
+                  </span>{' '}
+                  {beat.start_seconds}s-{beat.end_seconds}s
+                </p>
+                <p className="text-sm text-gray-300 mt-1">{beat.narration}</p>
+                <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                  B-roll: {beat.generation_prompt}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
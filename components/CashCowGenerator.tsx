@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {CashCowResult} from '../services/cashCow';
+import {CallOptions} from '../services/generationProvider';
+import {CashCowFormState, ImageSettings} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {CancelButton} from './CancelButton';
+import {SparklesIcon} from './icons';
+
+interface CashCowGeneratorProps {
+  onGenerateCashCowVideo: (
+    niche: string,
+    topic: string,
+    duration: string,
+    tone: string,
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<CashCowResult>;
+  /** Set to generate once with the current inputs, e.g. from the history. */
+  rerunRequested: boolean;
+  onRerunHandled: () => void;
+  onPromptGenerated: (prompt: string) => void;
+  onVisualsGenerated: (visuals: (string | null)[]) => void;
+  form: CashCowFormState;
+  onFormChange: (form: CashCowFormState) => void;
+  /** The project's image settings for the b-roll previews. */
+  imageSettings: ImageSettings;
+}
+
+const NICHES = [
+  'Personal Finance',
+  'Motivation & Self-Improvement',
+  'History Mysteries',
+  'Tech Explained',
+  'Science Facts',
+  'Health & Fitness',
+  'Travel & Geography',
+  'True Crime',
+];
+
+const VIDEO_DURATIONS = ['30s', '60s', '90s'];
+
+const TONES = [
+  'Curious & Engaging',
+  'Calm & Authoritative',
+  'Fast & Hype',
+  'Dark & Suspenseful',
+];
+
+export const DEFAULT_CASH_COW_FORM: CashCowFormState = {
+  niche: NICHES[0],
+  topic: '',
+  duration: VIDEO_DURATIONS[1],
+  tone: TONES[0],
+};
+
+/**
+ * Generates a faceless video for a niche and topic: a narration script split
+ * into timed beats, each with an on-screen caption, a b-roll prompt and a
+ * preview frame.
+ */
+export const CashCowGenerator: React.FC<CashCowGeneratorProps> = ({
+  onGenerateCashCowVideo,
+  rerunRequested,
+  onRerunHandled,
+  onPromptGenerated,
+  onVisualsGenerated,
+  form,
+  onFormChange,
+  imageSettings,
+}) => {
+  const {niche, topic, duration, tone} = form;
+  const [isGenerating, setIsGenerating] = useState(false);
+  const run = useCancellableRun();
+
+  const update = (patch: Partial<CashCowFormState>) =>
+    onFormChange({...form, ...patch});
+
+  const handleGenerate = async () => {
+    const signal = run.start();
+    setIsGenerating(true);
+    onPromptGenerated('');
+    onVisualsGenerated([]);
+    trackEvent('generate_cash_cow_video', {niche, duration, tone});
+    try {
+      const {script, sceneImages} = await onGenerateCashCowVideo(
+        niche,
+        topic.trim(),
+        duration,
+        tone,
+        imageSettings,
+        {signal},
+      );
+      if (signal.aborted) return;
+      onPromptGenerated(script);
+      onVisualsGenerated(sceneImages);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error('Failed to generate cash cow video', error);
+      }
+    } finally {
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    trackEvent('cancel_generation', {video_type: 'cashCow'});
+  };
+
+  useEffect(() => {
+    if (rerunRequested) {
+      onRerunHandled();
+      handleGenerate();
+    }
+  }, [rerunRequested]);
+
+  const canGenerate = topic.trim() !== '';
+
+  return (
+    <>
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          1. Pick a Niche
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {NICHES.map((n) => (
+            <button
+              key={n}
+              onClick={() => update({niche: n})}
+              className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+                niche === n
+                  ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}>
+              {n}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <label
+          htmlFor="cash-cow-topic"
+          className="block text-sm font-medium text-gray-300 mb-2">
+          2. What is this video about?
+        </label>
+        <input
+          id="cash-cow-topic"
+          type="text"
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+          value={topic}
+          onChange={(e) => update({topic: e.target.value})}
+          placeholder="e.g., 5 money habits that keep you broke"
+          aria-label="Video Topic"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            3. Select Video Duration
+          </label>
+          <div className="flex flex-col gap-2">
+            {VIDEO_DURATIONS.map((d) => (
+              <button
+                key={d}
+                onClick={() => update({duration: d})}
+                className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors w-full text-center ${
+                  duration === d
+                    ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}>
+                {d}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            4. Select Narration Tone
+          </label>
+          <div className="flex flex-col gap-2">
+            {TONES.map((t) => (
+              <button
+                key={t}
+                onClick={() => update({tone: t})}
+                className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors w-full text-center ${
+                  tone === t
+                    ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}>
+                {t}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          5. Generate Script, Captions & B-Roll
+        </label>
+        <button
+          onClick={handleGenerate}
+          disabled={!canGenerate || isGenerating}
+          className="w-full flex justify-center items-center gap-2 mb-3 px-6 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base">
+          {isGenerating ? (
+            <>
+              <div className="w-5 h-5 border-2 border-dashed rounded-full animate-spin border-white"></div>
+              <span>Writing Script & Rendering B-Roll...</span>
+            </>
+          ) : (
+            <>
+              <SparklesIcon className="w-5 h-5" />
+              <span>Generate with AI</span>
+            </>
+          )}
+        </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {CastMember} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {PhotoIcon, PlusIcon, TrashIcon, XMarkIcon} from './icons';
+
+interface CastPanelProps {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+}
+
+const CastMemberCard: React.FC<{
+  member: CastMember;
+  onChange: (member: CastMember) => void;
+  onDelete: () => void;
+}> = ({member, onChange, onDelete}) => {
+  const preview = useObjectUrl(member.referenceImage);
+  const inputId = `cast-image-${member.id}`;
+
+  return (
+    <div className="flex gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+      <div className="relative w-20 h-20 flex-shrink-0">
+        <label
+          htmlFor={inputId}
+          className="w-full h-full flex items-center justify-center bg-gray-700 rounded-md overflow-hidden cursor-pointer hover:ring-2 hover:ring-purple-500 transition-shadow"
+          title="Upload a reference image">
+          {preview ? (
+            <img
+              src={preview}
+              alt={`${member.name || 'Cast member'} reference`}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <PhotoIcon className="w-8 h-8 text-gray-400" />
+          )}
+        </label>
+        <input
+          id={inputId}
+          type="file"
+          className="sr-only"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onChange({...member, referenceImage: file});
+            e.target.value = '';
+          }}
+        />
+        {member.referenceImage && (
+          <button
+            onClick={() => onChange({...member, referenceImage: null})}
+            className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-800 text-gray-400 hover:text-white border border-gray-600"
+            aria-label={`Remove ${member.name || 'cast member'} reference image`}>
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <div className="flex-grow min-w-0 space-y-2">
+        <input
+          type="text"
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          value={member.name}
+          onChange={(e) => onChange({...member, name: e.target.value})}
+          placeholder="Name, as written in your scenes (e.g. Mira)"
+          aria-label="Cast member name"
+        />
+        <textarea
+          rows={2}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          value={member.description}
+          onChange={(e) => onChange({...member, description: e.target.value})}
+          placeholder="Appearance, e.g. a young girl with red braids and a yellow raincoat"
+          aria-label="Cast member description"
+        />
+      </div>
+      <button
+        onClick={onDelete}
+        className="self-start p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+        aria-label={`Delete ${member.name || 'cast member'}`}>
+        <TrashIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Lets the user define the recurring characters and objects of a storyboard.
+ * Every scene that mentions one by name gets its description, and its
+ * reference image is shown to the model when writing the director's prompt.
+ */
+export const CastPanel: React.FC<CastPanelProps> = ({cast, onChange}) => {
+  const handleAdd = () => {
+    trackEvent('add_cast_member', {cast_size: cast.length + 1});
+    onChange([
+      ...cast,
+      {
+        id: crypto.randomUUID(),
+        name: '',
+        description: '',
+        referenceImage: null,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {cast.map((member) => (
+        <CastMemberCard
+          key={member.id}
+          member={member}
+          onChange={(updated) =>
+            onChange(cast.map((m) => (m.id === member.id ? updated : m)))
+          }
+          onDelete={() => onChange(cast.filter((m) => m.id !== member.id))}
+        />
+      ))}
+      <button
+        onClick={handleAdd}
+        className="flex items-center gap-2 px-4 py-2 text-sm text-purple-300 font-semibold hover:bg-purple-500/10 rounded-lg transition-colors">
+        <PlusIcon className="w-5 h-5" />
+        Add Character or Prop
+      </button>
+    </div>
+  );
+};
@@ -2,72 +2,103 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useMemo} from 'react';
+import React, {useEffect, useState} from 'react';
+import {
+  CostEstimate,
+  CostEstimateRequest,
+  RunCostReport,
+} from '../services/costEstimation';
+import {
+  DEFAULT_PRICING,
+  loadPricing,
+  priceUsage,
+  Pricing,
+  savePricing,
+} from '../services/pricing';
+import {Usage} from '../services/usage';
 import {CurrencyDollarIcon} from './icons';
 
 interface CostEstimatorProps {
-  imageFile: File | null;
-  scenes: string[];
-  sceneImages: (string | null)[];
+  /** The run to estimate, or null while the inputs are incomplete. */
+  request: CostEstimateRequest | null;
+  onEstimateCost: (request: CostEstimateRequest) => Promise<CostEstimate>;
+  /** The estimated and actual usage of this generator's last run. */
+  report: RunCostReport | null;
 }
 
-// Pricing based on public Gemini API costs (hypothetical for this example)
-// These would be updated with actual figures.
-const COST_PER_INPUT_CHAR = 0.00000015; // ~$0.15 per 1M characters
-const COST_PER_IMAGE_INPUT = 0.0025; // ~$2.50 per 1k images
-const COST_PER_OUTPUT_CHAR = 0.0000005; // ~$0.50 per 1M characters
+/** Waits for typing to settle before asking the model to count tokens. */
+const ESTIMATE_DEBOUNCE_MS = 600;
+
+const PRICE_FIELDS: {key: keyof Pricing; label: string}[] = [
+  {key: 'textInputPerMillionTokens', label: 'Gemini input ($ / 1M tokens)'},
+  {key: 'textOutputPerMillionTokens', label: 'Gemini output ($ / 1M tokens)'},
+  {key: 'imagePerImage', label: 'Imagen ($ / image)'},
+  {key: 'videoPerSecond', label: 'Veo ($ / second)'},
+];
+
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+const describeUsage = (usage: Usage) =>
+  [
+    usage.textInputTokens || usage.textOutputTokens
+      ? `${usage.textInputTokens.toLocaleString()} in / ${usage.textOutputTokens.toLocaleString()} out tokens`
+      : '',
+    usage.images ? `${usage.images} image${usage.images === 1 ? '' : 's'}` : '',
+    usage.videoSeconds ? `${usage.videoSeconds}s video` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
 
 /**
- * A component that provides a rough, real-time estimate of the cost
- * to generate the storyboard and master prompt.
+ * Estimates the cost of the next run from the model's own token count of the
+ * prompts that will be sent, priced with an editable table. After a run it
+ * compares the estimate with the usage the API actually reported.
  */
 export const CostEstimator: React.FC<CostEstimatorProps> = ({
-  imageFile,
-  scenes,
-  sceneImages,
+  request,
+  onEstimateCost,
+  report,
 }) => {
-  const {totalCost, styleAnalysisCost, storyboardCost} = useMemo(() => {
-    let currentStyleCost = 0;
-    let currentStoryboardCost = 0;
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState(false);
+  const [pricing, setPricing] = useState<Pricing>(loadPricing);
+  const [isEditingPrices, setIsEditingPrices] = useState(false);
 
-    // 1. Cost of Style Analysis from uploaded image
-    if (imageFile) {
-      currentStyleCost += COST_PER_IMAGE_INPUT; // One image input
-      // Estimate text input/output for style analysis prompt
-      currentStyleCost += 'Analyze this style...'.length * COST_PER_INPUT_CHAR;
-      currentStyleCost += 500 * COST_PER_OUTPUT_CHAR; // Assume ~500 char output
+  useEffect(() => {
+    if (!request) {
+      setEstimate(null);
+      setIsEstimating(false);
+      return;
     }
-
-    // 2. Cost of generating the master prompt
-    const nonEmptyScenes = scenes.filter((s) => s.trim());
-    if (nonEmptyScenes.length > 0) {
-      // Input text cost
-      const totalSceneChars = nonEmptyScenes.reduce(
-        (acc, scene) => acc + scene.length,
-        0,
-      );
-      currentStoryboardCost += totalSceneChars * COST_PER_INPUT_CHAR;
-      // System instruction cost
-      currentStoryboardCost += 1000 * COST_PER_INPUT_CHAR; // Approx length of system prompt
-
-      // Input images cost (the generated storyboard images)
-      const imageCount = sceneImages.filter(Boolean).length;
-      currentStoryboardCost += imageCount * COST_PER_IMAGE_INPUT;
-
-      // Output text cost (the master prompt)
-      currentStoryboardCost += 1000 * COST_PER_OUTPUT_CHAR; // Assume ~1000 char output for master prompt
-    }
-
-    const total = currentStyleCost + currentStoryboardCost;
-
-    return {
-      totalCost: total.toFixed(4),
-      styleAnalysisCost: currentStyleCost.toFixed(4),
-      storyboardCost: currentStoryboardCost.toFixed(4),
+    let isCurrent = true;
+    setIsEstimating(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await onEstimateCost(request);
+        if (isCurrent) {
+          setEstimate(result);
+          setEstimateError(false);
+        }
+      } catch (e) {
+        console.error('Failed to estimate cost:', e);
+        if (isCurrent) setEstimateError(true);
+      } finally {
+        if (isCurrent) setIsEstimating(false);
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
     };
-  }, [imageFile, scenes, sceneImages]);
+  }, [request]);
 
-  if (parseFloat(totalCost) === 0) {
+  const updatePricing = (next: Pricing) => {
+    setPricing(next);
+    savePricing(next);
+  };
+
+  if (!request && !report) {
     return null;
   }
 
@@ -78,23 +109,129 @@ export const CostEstimator: React.FC<CostEstimatorProps> = ({
         <h4 className="font-semibold text-gray-300">
           Generation Cost Estimator
         </h4>
+        {isEstimating && (
+          <div className="w-3 h-3 border-2 border-dashed rounded-full animate-spin border-gray-400"></div>
+        )}
+        <button
+          onClick={() => setIsEditingPrices(!isEditingPrices)}
+          className="ml-auto text-purple-400 hover:text-purple-300 transition-colors">
+          {isEditingPrices ? 'Done' : 'Edit prices'}
+        </button>
       </div>
-      <div className="space-y-1">
-        {parseFloat(styleAnalysisCost) > 0 && (
-          <div className="flex justify-between">
-            <span>Style Analysis:</span>
-            <span>${styleAnalysisCost}</span>
+
+      {isEditingPrices && (
+        <div className="mb-3 p-2 bg-gray-800 rounded-md space-y-1 animate-fade-in">
+          {PRICE_FIELDS.map(({key, label}) => (
+            <label
+              key={key}
+              className="flex justify-between items-center gap-2">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className="w-24 bg-gray-900 border border-gray-700 rounded p-1 text-right text-gray-200"
+                value={pricing[key]}
+                onChange={(e) =>
+                  updatePricing({
+                    ...pricing,
+                    [key]: Math.max(0, Number(e.target.value) || 0),
+                  })
+                }
+              />
+            </label>
+          ))}
+          <button
+            onClick={() => updatePricing(DEFAULT_PRICING)}
+            className="text-purple-400 hover:text-purple-300 transition-colors">
+            Reset to list prices
+          </button>
+        </div>
+      )}
+
+      {estimateError && (
+        <p className="text-red-400 mb-1">
+          Could not count tokens for an estimate.
+        </p>
+      )}
+      {request && estimate && (
+        <div className="space-y-1">
+          {estimate.lines.map((line) => (
+            <div
+              key={line.label}
+              className="flex justify-between gap-2"
+              title={describeUsage(line.usage)}>
+              <span>
+                {line.label}:{' '}
+                <span className="text-gray-500">
+                  {describeUsage(line.usage)}
+                </span>
+              </span>
+              <span>{formatCost(priceUsage(line.usage, pricing))}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-bold text-gray-200 border-t border-gray-700 pt-1 mt-1">
+            <span>Estimated Total:</span>
+            <span>{formatCost(priceUsage(estimate.total, pricing))}</span>
           </div>
-        )}
-        <div className="flex justify-between">
-          <span>Storyboard & Prompt Gen:</span>
-          <span>${storyboardCost}</span>
+          {estimate.rendering.usage.videoSeconds > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Then, {estimate.rendering.label.toLowerCase()}:</span>
+              <span>
+                {formatCost(priceUsage(estimate.rendering.usage, pricing))}
+              </span>
+            </div>
+          )}
         </div>
-        <div className="flex justify-between font-bold text-gray-200 border-t border-gray-700 pt-1 mt-1">
-          <span>Estimated Total:</span>
-          <span>${totalCost}</span>
+      )}
+
+      {report && (
+        <div className="mt-3 pt-2 border-t border-gray-700">
+          <h5 className="font-semibold text-gray-300 mb-1">
+            Last run: estimated vs actual
+          </h5>
+          <table className="w-full">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">Estimated</th>
+                <th className="text-right font-normal">Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(
+                [
+                  ['Input tokens', 'textInputTokens'],
+                  ['Output tokens', 'textOutputTokens'],
+                  ['Images', 'images'],
+                ] as const
+              ).map(([label, key]) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  <td className="text-right">
+                    {report.estimated?.[key].toLocaleString() ?? '–'}
+                  </td>
+                  <td className="text-right">
+                    {report.actual[key].toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-bold text-gray-200">
+                <td>Cost</td>
+                <td className="text-right">
+                  {report.estimated
+                    ? formatCost(priceUsage(report.estimated, pricing))
+                    : '–'}
+                </td>
+                <td className="text-right">
+                  {formatCost(priceUsage(report.actual, pricing))}
+                </td>
+              </tr>
+            </tbody>
+          </table>
         </div>
-      </div>
+      )}
+
       <p className="text-center text-gray-500 mt-2 text-[10px]">
         Our fine-tuned process is designed to be credit-efficient. Actual costs
         may vary.
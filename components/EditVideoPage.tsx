@@ -14,6 +14,7 @@ interface EditVideoPageProps {
 /**
  * A page that allows the user to edit the description of a video.
  * It provides input field for the description and buttons to save or cancel the changes.
+ * Saving generates a remix of the video from the edited description.
  */
 export const EditVideoPage: React.FC<EditVideoPageProps> = ({
   video,
@@ -27,12 +28,16 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
   };
 
   return (
-    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col items-center justify-center p-4 animate-fade-in">
+    <div
+      className="fixed inset-0 z-50 overflow-y-auto bg-gray-900 text-gray-100 font-sans flex flex-col items-center justify-center p-4 animate-fade-in"
+      aria-modal="true"
+      role="dialog">
       <div className="w-full max-w-2xl bg-gray-800 p-6 md:p-8 rounded-lg shadow-2xl">
         <header className="mb-6">
           <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
             Edit Video
           </h1>
+          <p className="text-gray-400">Remixing "{video.title}"</p>
         </header>
 
         <main>
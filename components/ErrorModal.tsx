@@ -3,23 +3,77 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import {GenerationError, GenerationErrorKind} from '../services/errors';
 import {XMarkIcon} from './icons';
 
 interface ErrorModalProps {
-  message: string[];
+  /** What failed, e.g. "Failed to generate storyboard." */
+  summary: string;
+  /** Why it failed; without it only the summary is shown. */
+  error?: GenerationError;
   onClose: () => void;
-  onSelectKey: () => void;
+  /** Opens the API key settings. */
+  onManageKeys: () => void;
+  /** Lets the user rewrite the storyboard scene a safety filter blocked. */
+  onRephraseScene?: (sceneIndex: number) => void;
 }
 
+/** The title and advice shown for each kind of failure. */
+const ERROR_COPY: Record<GenerationErrorKind, {title: string; advice: string}> =
+  {
+    auth: {
+      title: 'API Key Problem',
+      advice:
+        'Your API key was rejected. Add a valid key with access to these models.',
+    },
+    quota: {
+      title: 'Rate Limit Reached',
+      advice:
+        'Your quota is used up for now, even after a few retries. Wait a minute or use another API key.',
+    },
+    safety: {
+      title: 'Blocked by Safety Filters',
+      advice:
+        'The prompt or its output was flagged. Rephrase it without the flagged content and try again.',
+    },
+    invalidOutput: {
+      title: 'Unexpected Response',
+      advice:
+        'The model returned something the app could not use. Trying again usually works.',
+    },
+    network: {
+      title: 'Connection Problem',
+      advice:
+        'The service could not be reached, even after a few retries. Check your connection and try again.',
+    },
+    timeout: {
+      title: 'Generation Timed Out',
+      advice: 'The generation took too long. Try again in a moment.',
+    },
+    unknown: {
+      title: 'Generation Failed',
+      advice: 'Something went wrong. Please try again in a moment.',
+    },
+  };
+
+const primaryButtonClass =
+  'px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800';
+
 /**
- * A modal component that displays an error message to the user.
- * It includes a title, the error message, a close button, and a visual error icon.
+ * A modal that explains why a generation failed, with the action that fits
+ * the cause: changing the API key, or rephrasing a blocked scene.
  */
 export const ErrorModal: React.FC<ErrorModalProps> = ({
-  message,
+  summary,
+  error,
   onClose,
-  onSelectKey,
+  onManageKeys,
+  onRephraseScene,
 }) => {
+  const copy = error ? ERROR_COPY[error.kind] : null;
+  const blockedScene =
+    error?.kind === 'safety' && onRephraseScene ? error.sceneIndex : undefined;
+
   return (
     <div
       className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
@@ -55,17 +109,33 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
         <h2
           id="error-modal-title"
           className="text-xl font-bold text-white mb-2">
-          Generation Failed
+          {copy?.title ?? 'Generation Failed'}
         </h2>
-        {message.map((m) => (
-          <p className="text-gray-400">{m}</p>
-        ))}
+        <p className="text-gray-400">{summary}</p>
+        {copy && <p className="text-gray-400">{copy.advice}</p>}
+        {error && error.message !== summary && (
+          <p className="mt-4 text-xs text-gray-500 break-words">
+            {error.message}
+          </p>
+        )}
         <div className="mt-8 flex justify-center gap-4">
-          <button
-            onClick={onSelectKey}
-            className="px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
-            Add API Key
-          </button>
+          {blockedScene !== undefined && (
+            <button
+              onClick={() => onRephraseScene?.(blockedScene)}
+              className={primaryButtonClass}>
+              Rephrase Scene {blockedScene + 1}
+            </button>
+          )}
+          {error?.kind === 'auth' && (
+            <button onClick={onManageKeys} className={primaryButtonClass}>
+              Add API Key
+            </button>
+          )}
+          {error?.kind === 'quota' && (
+            <button onClick={onManageKeys} className={primaryButtonClass}>
+              Use Another Key
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-8 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
@@ -75,4 +145,4 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
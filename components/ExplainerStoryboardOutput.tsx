@@ -3,7 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, {useState} from 'react';
-import {ExplainerScene} from './AnimateImagePage';
+import {ExplainerScene} from '../types';
+import {imageDataUrl} from '../utils/files';
 import {ClipboardDocumentListIcon, PhotoIcon} from './icons';
 
 interface ExplainerStoryboardOutputProps {
@@ -33,7 +34,7 @@ const SceneCard: React.FC<{
       <div className="aspect-w-16 aspect-h-9 bg-gray-700">
         {image ? (
           <img
-            src={`data:image/jpeg;base64,${image}`}
+            src={imageDataUrl(image)}
             alt={`Generated visual for Scene ${scene.shot_number}`}
             className="w-full h-full object-cover"
           />
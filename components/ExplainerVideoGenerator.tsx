@@ -2,8 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState} from 'react';
+import React, {useEffect, useState} from 'react';
+import {CallOptions} from '../services/generationProvider';
+import {ExplainerFormState} from '../types';
 import {trackEvent} from '../utils/analytics';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {CancelButton} from './CancelButton';
 import {PlusIcon, SparklesIcon, TrashIcon} from './icons';
 
 type PromptFormat = 'classic' | 'json';
@@ -17,8 +21,14 @@ interface ExplainerVideoGeneratorProps {
     cta: string,
     duration: string,
     promptFormat: PromptFormat,
+    options?: CallOptions,
   ) => Promise<string>;
+  /** Set to generate once with the current inputs, e.g. from the history. */
+  rerunRequested: boolean;
+  onRerunHandled: () => void;
   onPromptGenerated: (prompt: string) => void;
+  form: ExplainerFormState;
+  onFormChange: (form: ExplainerFormState) => void;
 }
 
 const VISUAL_STYLES = [
@@ -37,16 +47,37 @@ const VISUAL_STYLES = [
 
 const VIDEO_DURATIONS = ['15s', '30s', '60s'];
 
+export const DEFAULT_EXPLAINER_FORM: ExplainerFormState = {
+  topic: '',
+  keyPoints: [''],
+  visualStyle: VISUAL_STYLES[0],
+  duration: VIDEO_DURATIONS[1],
+  audience: 'A general audience',
+  cta: 'Visit our website to learn more!',
+};
+
 export const ExplainerVideoGenerator: React.FC<
   ExplainerVideoGeneratorProps
-> = ({onGenerateExplainerVideoPrompt, onPromptGenerated}) => {
-  const [topic, setTopic] = useState('');
-  const [keyPoints, setKeyPoints] = useState<string[]>(['']);
-  const [visualStyle, setVisualStyle] = useState(VISUAL_STYLES[0]);
-  const [duration, setDuration] = useState(VIDEO_DURATIONS[1]);
-  const [audience, setAudience] = useState('A general audience');
-  const [cta, setCta] = useState('Visit our website to learn more!');
+> = ({
+  onGenerateExplainerVideoPrompt,
+  rerunRequested,
+  onRerunHandled,
+  onPromptGenerated,
+  form,
+  onFormChange,
+}) => {
+  const {topic, keyPoints, visualStyle, duration, audience, cta} = form;
   const [isGenerating, setIsGenerating] = useState(false);
+  const run = useCancellableRun();
+
+  const update = (patch: Partial<ExplainerFormState>) =>
+    onFormChange({...form, ...patch});
+  const setTopic = (topic: string) => update({topic});
+  const setKeyPoints = (keyPoints: string[]) => update({keyPoints});
+  const setVisualStyle = (visualStyle: string) => update({visualStyle});
+  const setDuration = (duration: string) => update({duration});
+  const setAudience = (audience: string) => update({audience});
+  const setCta = (cta: string) => update({cta});
   // Hard-coding to JSON to support the new visual storyboard UI
   const [promptFormat] = useState<PromptFormat>('json');
 
@@ -70,6 +101,7 @@ export const ExplainerVideoGenerator: React.FC<
   };
 
   const handleGenerate = async () => {
+    const signal = run.start();
     setIsGenerating(true);
     onPromptGenerated('');
     trackEvent('generate_explainer_prompt', {
@@ -87,15 +119,34 @@ export const ExplainerVideoGenerator: React.FC<
         cta,
         duration,
         promptFormat, // Always 'json' now
+        {signal},
       );
+      if (signal.aborted) return;
       onPromptGenerated(prompt);
     } catch (error) {
-      console.error('Failed to generate explainer video prompt', error);
+      if (!signal.aborted) {
+        console.error('Failed to generate explainer video prompt', error);
+      }
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    trackEvent('cancel_generation', {video_type: 'explainer'});
+  };
+
+  useEffect(() => {
+    if (rerunRequested) {
+      onRerunHandled();
+      handleGenerate();
+    }
+  }, [rerunRequested]);
+
   const canGenerate = topic.trim() !== '';
 
   return (
@@ -274,6 +325,7 @@ export const ExplainerVideoGenerator: React.FC<
             </>
           )}
         </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
       </div>
     </>
   );
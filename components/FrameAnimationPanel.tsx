@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {trackEvent} from '../utils/analytics';
+import {base64ToImageFile, imageDataUrl} from '../utils/files';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {FilmIcon, XMarkIcon} from './icons';
+
+interface FrameAnimationPanelProps {
+  /** Base64 storyboard frames; null where no image was generated. */
+  frames: (string | null)[];
+  /** The frame the clip starts on by default. */
+  startIndex: number;
+  /** The shot prompt for the starting frame. */
+  defaultPrompt: string;
+  /** Images the user uploaded for the storyboard, offered as frames too. */
+  uploadedImages: File[];
+  onAnimate: (prompt: string, imageFile: File) => void;
+  onClose: () => void;
+}
+
+/** A storyboard frame or an uploaded image, picked as a clip's first frame. */
+type FrameChoice = {source: 'frame' | 'upload'; index: number};
+
+const isSameChoice = (a: FrameChoice, b: FrameChoice) =>
+  a.source === b.source && a.index === b.index;
+
+const UploadThumbnail: React.FC<{file: File}> = ({file}) => {
+  const url = useObjectUrl(file);
+  return url ? (
+    <img src={url} alt={file.name} className="w-full h-full object-cover" />
+  ) : null;
+};
+
+/**
+ * Animates a storyboard frame into a clip: the frame, or another frame or an
+ * uploaded image picked instead, becomes the clip's first frame.
+ */
+export const FrameAnimationPanel: React.FC<FrameAnimationPanelProps> = ({
+  frames,
+  startIndex,
+  defaultPrompt,
+  uploadedImages,
+  onAnimate,
+  onClose,
+}) => {
+  const [prompt, setPrompt] = useState(defaultPrompt);
+  const [uploads, setUploads] = useState<File[]>(uploadedImages);
+  const [start, setStart] = useState<FrameChoice>({
+    source: 'frame',
+    index: startIndex,
+  });
+
+  const choices: FrameChoice[] = [
+    ...frames.flatMap((frame, index) =>
+      frame ? [{source: 'frame' as const, index}] : [],
+    ),
+    ...uploads.map((_, index) => ({source: 'upload' as const, index})),
+  ];
+
+  const toFile = ({source, index}: FrameChoice): File =>
+    source === 'upload'
+      ? uploads[index]
+      : base64ToImageFile(frames[index]!, `scene-${index + 1}`);
+
+  const handleUpload = (files: FileList | null) => {
+    if (!files || !files[0]) return;
+    setStart({source: 'upload', index: uploads.length});
+    setUploads((prev) => [...prev, files[0]]);
+  };
+
+  const handleAnimate = () => {
+    trackEvent('animate_frame', {start_source: start.source});
+    onAnimate(prompt.trim(), toFile(start));
+  };
+
+  const renderPicker = () => (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {choices.map((choice) => (
+        <button
+          key={`${choice.source}-${choice.index}`}
+          onClick={() => setStart(choice)}
+          className={`relative w-20 h-14 flex-shrink-0 rounded-md overflow-hidden bg-gray-700 ${
+            isSameChoice(start, choice)
+              ? 'ring-2 ring-purple-400'
+              : 'opacity-70 hover:opacity-100'
+          }`}
+          aria-label={
+            choice.source === 'frame'
+              ? `Scene ${choice.index + 1} frame`
+              : `Uploaded image ${uploads[choice.index].name}`
+          }>
+          {choice.source === 'frame' ? (
+            <img
+              src={imageDataUrl(frames[choice.index]!)}
+              alt=""
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <UploadThumbnail file={uploads[choice.index]} />
+          )}
+          {choice.source === 'frame' && (
+            <span className="absolute bottom-0 left-0 bg-black/60 text-white text-[10px] font-bold px-1 rounded-tr">
+              {choice.index + 1}
+            </span>
+          )}
+        </button>
+      ))}
+      <label className="w-20 h-14 flex-shrink-0 rounded-md border border-dashed border-gray-600 hover:border-purple-500 text-xs text-gray-400 flex items-center justify-center cursor-pointer transition-colors">
+        Upload
+        <input
+          type="file"
+          className="sr-only"
+          accept="image/png, image/jpeg, image/webp"
+          onChange={(e) => {
+            handleUpload(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="mt-4 p-4 bg-gray-900/50 rounded-lg border border-purple-500/40 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-white">
+          Animate from Scene {startIndex + 1}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors"
+          aria-label="Close frame animation">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <label className="block text-xs font-medium text-gray-300 mb-1">
+        Start frame
+      </label>
+      {renderPicker()}
+      <label
+        htmlFor="frame-animation-prompt"
+        className="block text-xs font-medium text-gray-300 mt-3 mb-1">
+        What happens in the clip
+      </label>
+      <textarea
+        id="frame-animation-prompt"
+        rows={4}
+        className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+      />
+      <button
+        onClick={handleAnimate}
+        disabled={!prompt.trim()}
+        className="w-full mt-3 flex justify-center items-center gap-2 px-6 py-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+        <FilmIcon className="w-5 h-5" />
+        Animate Clip
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {GenerationStage} from '../services/progress';
+import {CheckIcon, XMarkIcon} from './icons';
+
+interface GenerationProgressListProps {
+  stages: GenerationStage[];
+}
+
+/** Formats a duration in milliseconds, e.g. `4s` or `1m 05s`. */
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(Math.floor(ms / 1000), 0);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const StageStatusIcon: React.FC<{stage: GenerationStage}> = ({stage}) => {
+  switch (stage.status) {
+    case 'pending':
+      return <span className="w-3 h-3 rounded-full border-2 border-gray-600" />;
+    case 'running':
+      return (
+        <span className="w-4 h-4 border-2 border-dashed rounded-full animate-spin border-purple-400" />
+      );
+    case 'done':
+      return <CheckIcon className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XMarkIcon className="w-4 h-4 text-red-400" />;
+  }
+};
+
+/**
+ * The stages of a generation run with the status of each and how long it has
+ * been running, or took.
+ */
+export const GenerationProgressList: React.FC<GenerationProgressListProps> = ({
+  stages,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const isRunning = stages.some((stage) => stage.status === 'running');
+
+  // Ticks the elapsed times while a stage is running.
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  return (
+    <ol className="space-y-1.5 text-sm" aria-live="polite">
+      {stages.map((stage) => (
+        <li key={stage.id} className="flex items-center gap-3">
+          <span className="w-4 h-4 flex-shrink-0 flex items-center justify-center">
+            <StageStatusIcon stage={stage} />
+          </span>
+          <span
+            className={`flex-grow ${
+              stage.status === 'pending'
+                ? 'text-gray-500'
+                : stage.status === 'failed'
+                  ? 'text-red-300'
+                  : 'text-gray-200'
+            }`}>
+            {stage.label}
+          </span>
+          {stage.startedAt !== null && (
+            <span className="text-xs text-gray-400 tabular-nums">
+              {formatElapsed(
+                (stage.finishedAt ?? Math.max(now, stage.startedAt)) -
+                  stage.startedAt,
+              )}
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
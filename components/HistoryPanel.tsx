@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {VIDEO_TYPE_LABELS} from '../constants';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  listHistory,
+} from '../services/historyStore';
+import {HistoryEntry} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {imageDataUrl} from '../utils/files';
+import {
+  ArrowPathIcon,
+  FilmIcon,
+  PhotoIcon,
+  TrashIcon,
+  XMarkIcon,
+} from './icons';
+import {PromptDiff} from './PromptDiff';
+
+interface HistoryPanelProps {
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+/** How many entries can be compared at once. */
+const MAX_COMPARED = 2;
+
+/** The first generated frame of an entry, if it has any. */
+const entryThumbnail = (entry: HistoryEntry): string | null =>
+  entry.sceneImages.find((image) => image) ??
+  entry.explainerScenes?.find((scene) => scene.image)?.image ??
+  null;
+
+const entryLabel = (entry: HistoryEntry) =>
+  `${VIDEO_TYPE_LABELS[entry.videoType]}${
+    entry.renderedScene ? ' · Example scene' : ''
+  }`;
+
+const entryTime = (entry: HistoryEntry) =>
+  new Date(entry.createdAt).toLocaleString();
+
+/**
+ * A modal timeline of every generation made in this browser, most recent
+ * first. Entries can be restored into the editor or run again, and the master
+ * prompts of two entries can be compared side by side.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  onRestore,
+  onRerun,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistory());
+    } catch (e) {
+      console.error('Failed to load history:', e);
+      setError('Could not load your generation history.');
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleToggleCompare = (id: string) => {
+    setComparedIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((comparedId) => comparedId !== id)
+        : // Selecting a third entry replaces the oldest selection.
+          [...prev, id].slice(-MAX_COMPARED),
+    );
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    trackEvent('delete_history_entry', {video_type: entry.videoType});
+    await deleteHistoryEntry(entry.id);
+    setComparedIds((prev) => prev.filter((id) => id !== entry.id));
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete your whole generation history?')) {
+      return;
+    }
+    trackEvent('clear_history', {entry_count: entries?.length ?? 0});
+    await clearHistory();
+    setComparedIds([]);
+    await refresh();
+  };
+
+  // Older entry on the left, like a diff from one version to the next.
+  const compared = (entries ?? [])
+    .filter((entry) => comparedIds.includes(entry.id))
+    .reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="history-panel-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col relative p-6 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close history">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <div className="flex items-center gap-4 mb-4 pr-10">
+          <h2
+            id="history-panel-title"
+            className="text-xl font-bold text-white flex-1">
+            Generation History
+          </h2>
+          {entries && entries.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="text-sm text-gray-400 hover:text-red-400 transition-colors">
+              Clear History
+            </button>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+        <div className="overflow-y-auto -mx-2 px-2">
+          {compared.length === MAX_COMPARED && (
+            <div className="mb-4 p-3 bg-gray-900/50 rounded-lg border border-purple-500/40">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-white">
+                  Comparing Master Prompts
+                </h3>
+                <button
+                  onClick={() => setComparedIds([])}
+                  className="text-xs text-purple-300 hover:text-purple-200">
+                  Clear Selection
+                </button>
+              </div>
+              <PromptDiff
+                oldPrompt={compared[0].masterPrompt}
+                newPrompt={compared[1].masterPrompt}
+                oldLabel={`${entryLabel(compared[0])}, ${entryTime(
+                  compared[0],
+                )}`}
+                newLabel={`${entryLabel(compared[1])}, ${entryTime(
+                  compared[1],
+                )}`}
+              />
+            </div>
+          )}
+          {entries === null ? (
+            <div className="flex justify-center py-10">
+              <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-400"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-400 py-10">
+              Nothing generated yet. Every prompt and scene you generate will
+              show up here.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 mb-2">
+                Tick two entries to compare their master prompts.
+              </p>
+              <ol className="space-y-3 border-l border-gray-700 ml-2 pl-4">
+                {entries.map((entry) => {
+                  const thumbnail = entryThumbnail(entry);
+                  return (
+                    <li
+                      key={entry.id}
+                      className="relative flex items-start gap-4 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                      <span className="absolute -left-[22px] top-5 w-3 h-3 rounded-full bg-purple-500 ring-4 ring-gray-800" />
+                      <input
+                        type="checkbox"
+                        checked={comparedIds.includes(entry.id)}
+                        onChange={() => handleToggleCompare(entry.id)}
+                        className="mt-1 accent-purple-500"
+                        aria-label={`Compare the prompt from ${entryTime(
+                          entry,
+                        )}`}
+                      />
+                      <div className="w-24 h-16 flex-shrink-0 bg-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+                        {thumbnail ? (
+                          <img
+                            src={imageDataUrl(thumbnail)}
+                            alt=""
+                            className="w-full h-full object-cover"
+                          />
+                        ) : entry.renderedScene ? (
+                          <FilmIcon className="w-8 h-8 text-gray-500" />
+                        ) : (
+                          <PhotoIcon className="w-8 h-8 text-gray-500" />
+                        )}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h3 className="font-semibold text-white truncate">
+                          {entryLabel(entry)}
+                        </h3>
+                        <p className="text-xs text-gray-400">
+                          {entryTime(entry)} · {entry.model} ·{' '}
+                          {entry.promptFormat === 'json' ? 'JSON' : 'Classic'}{' '}
+                          prompt
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono mt-1 line-clamp-2 break-all">
+                          {entry.renderedScene?.prompt ?? entry.masterPrompt}
+                        </p>
+                        <div className="flex gap-3 mt-2">
+                          <button
+                            onClick={() => onRestore(entry)}
+                            className="text-sm text-purple-300 font-semibold hover:text-purple-200 transition-colors">
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => onRerun(entry)}
+                            className="flex items-center gap-1 text-sm text-purple-300 font-semibold hover:text-purple-200 transition-colors">
+                            <ArrowPathIcon className="w-4 h-4" />
+                            Re-run
+                          </button>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
+                        aria-label={`Delete the entry from ${entryTime(entry)}`}
+                        title="Delete">
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {
+  IMAGE_ASPECT_RATIOS,
+  MAX_IMAGE_VARIANTS,
+} from '../services/imageSettings';
+import {ImageSettings} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {AdjustmentsHorizontalIcon, ArrowPathIcon} from './icons';
+
+interface ImageSettingsPanelProps {
+  settings: ImageSettings;
+  onChange: (settings: ImageSettings) => void;
+  /** Whether the active generator offers a pick of frame variants. */
+  supportsVariants: boolean;
+  /** Whether the image model takes a seed, which only Vertex AI does. */
+  supportsSeed: boolean;
+}
+
+/** The largest seed the image model accepts. */
+const MAX_SEED = 2147483647;
+
+const randomSeed = () => Math.floor(Math.random() * MAX_SEED) + 1;
+
+const choiceClass = (isSelected: boolean) =>
+  `px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+    isSelected
+      ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+      : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+  }`;
+
+/**
+ * The collapsible advanced options for the images of a project: negative
+ * prompt, number of frame variants, seed, output format and aspect ratio.
+ */
+export const ImageSettingsPanel: React.FC<ImageSettingsPanelProps> = ({
+  settings,
+  onChange,
+  supportsVariants,
+  supportsSeed,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const {negativePrompt, variantCount, seed, outputFormat, aspectRatio} =
+    settings;
+
+  const update = (patch: Partial<ImageSettings>) =>
+    onChange({...settings, ...patch});
+
+  /** Applies a choice made with one of the option buttons. */
+  const choose = (patch: Partial<ImageSettings>) => {
+    update(patch);
+    trackEvent('change_image_settings', patch);
+  };
+
+  const handleSeedChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    update({
+      seed: Number.isNaN(parsed)
+        ? null
+        : Math.min(Math.max(parsed, 1), MAX_SEED),
+    });
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-purple-400 hover:text-purple-300 transition-colors flex items-center gap-1"
+        aria-expanded={isOpen}>
+        <AdjustmentsHorizontalIcon className="w-5 h-5" />
+        <span>{isOpen ? 'Hide' : 'Show'} Advanced Image Settings</span>
+      </button>
+      {isOpen && (
+        <div className="mt-2 p-4 bg-gray-900/70 rounded-lg border border-gray-700 space-y-4 animate-fade-in">
+          <div>
+            <label
+              htmlFor="image-negative-prompt"
+              className="block text-xs font-medium text-gray-300 mb-1">
+              Negative prompt
+            </label>
+            <textarea
+              id="image-negative-prompt"
+              rows={2}
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              value={negativePrompt}
+              onChange={(e) => update({negativePrompt: e.target.value})}
+              placeholder="e.g. text, watermarks, blurry, extra fingers"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Added to each image prompt as things to avoid.
+            </p>
+          </div>
+          <div>
+            <p className="block text-xs font-medium text-gray-300 mb-1">
+              Aspect ratio
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => choose({aspectRatio: null})}
+                className={choiceClass(aspectRatio === null)}
+                title="The aspect ratio of the project's target format">
+                Match Format
+              </button>
+              {IMAGE_ASPECT_RATIOS.map((ratio) => (
+                <button
+                  key={ratio}
+                  onClick={() => choose({aspectRatio: ratio})}
+                  className={choiceClass(aspectRatio === ratio)}>
+                  {ratio}
+                </button>
+              ))}
+            </div>
+          </div>
+          {supportsVariants && (
+            <div>
+              <p className="block text-xs font-medium text-gray-300 mb-1">
+                Variants per frame
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Array.from({length: MAX_IMAGE_VARIANTS}, (_, i) => i + 1).map(
+                  (count) => (
+                    <button
+                      key={count}
+                      onClick={() => choose({variantCount: count})}
+                      className={choiceClass(variantCount === count)}>
+                      {count}
+                    </button>
+                  ),
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Each variant is billed as an image; pick the best one under each
+                frame.
+              </p>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-6">
+            <div>
+              <label
+                htmlFor="image-seed"
+                className="block text-xs font-medium text-gray-300 mb-1">
+                Seed
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="image-seed"
+                  type="number"
+                  min={1}
+                  max={MAX_SEED}
+                  className="w-36 bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-50"
+                  value={seed ?? ''}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                  placeholder="Random"
+                  disabled={!supportsSeed}
+                />
+                <button
+                  onClick={() => choose({seed: randomSeed()})}
+                  disabled={!supportsSeed}
+                  className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Pick a new seed"
+                  title="Pick a new seed">
+                  <ArrowPathIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1 max-w-xs">
+                {supportsSeed
+                  ? 'A fixed seed makes images reproducible.'
+                  : 'Seeds need the Vertex AI backend (GENAI_USE_VERTEXAI=true). The Gemini API always picks a random one.'}
+              </p>
+            </div>
+            <div>
+              <p className="block text-xs font-medium text-gray-300 mb-1">
+                Output format
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => choose({outputFormat: 'jpeg'})}
+                  className={choiceClass(outputFormat === 'jpeg')}>
+                  JPEG
+                </button>
+                <button
+                  onClick={() => choose({outputFormat: 'png'})}
+                  className={choiceClass(outputFormat === 'png')}>
+                  PNG
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,9 +2,22 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useCallback, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  CostEstimate,
+  CostEstimateRequest,
+  RunCostReport,
+} from '../services/costEstimation';
+import {CallOptions} from '../services/generationProvider';
+import {ANIMATION_STYLES} from '../constants';
+import {LogoFormState, StylePreset} from '../types';
 import {trackEvent} from '../utils/analytics';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {CancelButton} from './CancelButton';
+import {CostEstimator} from './CostEstimator';
 import {PhotoIcon, SparklesIcon} from './icons';
+import {StylePresetPicker} from './StylePresetPicker';
 
 type PromptFormat = 'classic' | 'json';
 
@@ -16,46 +29,79 @@ interface LogoAnimatorProps {
     sfx: string,
     tagline: string,
     promptFormat: PromptFormat,
+    options?: CallOptions,
   ) => Promise<string>;
+  /** Set to generate once with the current inputs, e.g. from the history. */
+  rerunRequested: boolean;
+  onRerunHandled: () => void;
   onPromptGenerated: (prompt: string) => void;
-  onLogoSelected: (file: File | null) => void;
+  form: LogoFormState;
+  onFormChange: (form: LogoFormState) => void;
+  onEstimateCost: (request: CostEstimateRequest) => Promise<CostEstimate>;
+  costReport: RunCostReport | null;
+  /** Every style preset, built-in and the user's own. */
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
 }
 
-const ANIMATION_STYLES = [
-  'Simple Fade',
-  'Dynamic Pop',
-  'Glitch Reveal',
-  'Elegant Rise',
-  'Liquid Morph',
-  '3D Spin',
-];
+export const DEFAULT_LOGO_FORM: LogoFormState = {
+  logoFile: null,
+  animationStyle: ANIMATION_STYLES[0],
+  background: 'A clean, minimalist light gray background with a soft gradient.',
+  sfx: 'A subtle whoosh and a gentle chime.',
+  tagline: '',
+  promptFormat: 'classic',
+};
 
 export const LogoAnimator: React.FC<LogoAnimatorProps> = ({
   onGenerateLogoPrompt,
+  rerunRequested,
+  onRerunHandled,
   onPromptGenerated,
-  onLogoSelected,
+  form,
+  onFormChange,
+  onEstimateCost,
+  costReport,
+  stylePresets,
+  onManageStyles,
 }) => {
-  const [logoFile, setLogoFile] = useState<File | null>(null);
-  const [logoPreview, setLogoPreview] = useState<string | null>(null);
-  const [animationStyle, setAnimationStyle] = useState(ANIMATION_STYLES[0]);
-  const [background, setBackground] = useState(
-    'A clean, minimalist light gray background with a soft gradient.',
-  );
-  const [sfx, setSfx] = useState('A subtle whoosh and a gentle chime.');
-  const [tagline, setTagline] = useState('');
+  const {logoFile, animationStyle, background, sfx, tagline, promptFormat} =
+    form;
+  const logoPreview = useObjectUrl(logoFile);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [promptFormat, setPromptFormat] = useState<PromptFormat>('classic');
+  const run = useCancellableRun();
+
+  const costRequest = useMemo<CostEstimateRequest | null>(
+    () =>
+      logoFile
+        ? {
+            videoType: 'logo',
+            request: {
+              logoFile,
+              animationStyle,
+              background,
+              sfx,
+              tagline,
+              promptFormat,
+            },
+          }
+        : null,
+    [logoFile, animationStyle, background, sfx, tagline, promptFormat],
+  );
+
+  const update = (patch: Partial<LogoFormState>) =>
+    onFormChange({...form, ...patch});
+  const setAnimationStyle = (animationStyle: string) =>
+    update({animationStyle});
+  const setBackground = (background: string) => update({background});
+  const setSfx = (sfx: string) => update({sfx});
+  const setTagline = (tagline: string) => update({tagline});
+  const setPromptFormat = (promptFormat: PromptFormat) =>
+    update({promptFormat});
 
   const handleFileChange = (files: FileList | null) => {
     if (files && files[0]) {
-      const file = files[0];
-      setLogoFile(file);
-      onLogoSelected(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setLogoPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      update({logoFile: files[0]});
     }
   };
 
@@ -75,6 +121,7 @@ export const LogoAnimator: React.FC<LogoAnimatorProps> = ({
 
   const handleGenerate = async () => {
     if (!logoFile) return;
+    const signal = run.start();
     setIsGenerating(true);
     onPromptGenerated('');
     trackEvent('generate_logo_prompt', {
@@ -90,15 +137,34 @@ export const LogoAnimator: React.FC<LogoAnimatorProps> = ({
         sfx,
         tagline,
         promptFormat,
+        {signal},
       );
+      if (signal.aborted) return;
       onPromptGenerated(prompt);
     } catch (error) {
-      console.error('Failed to generate logo prompt', error);
+      if (!signal.aborted) {
+        console.error('Failed to generate logo prompt', error);
+      }
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    trackEvent('cancel_generation', {video_type: 'logo'});
+  };
+
+  useEffect(() => {
+    if (rerunRequested) {
+      onRerunHandled();
+      handleGenerate();
+    }
+  }, [rerunRequested]);
+
   return (
     <>
       <div className="mb-6">
@@ -145,20 +211,13 @@ export const LogoAnimator: React.FC<LogoAnimatorProps> = ({
         <label className="block text-sm font-medium text-gray-300 mb-2">
           2. Select Animation Style
         </label>
-        <div className="flex flex-wrap gap-2">
-          {ANIMATION_STYLES.map((style) => (
-            <button
-              key={style}
-              onClick={() => setAnimationStyle(style)}
-              className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
-                animationStyle === style
-                  ? 'bg-purple-600 text-white ring-2 ring-purple-400'
-                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-              }`}>
-              {style}
-            </button>
-          ))}
-        </div>
+        <StylePresetPicker
+          target="logo"
+          presets={stylePresets}
+          selected={animationStyle}
+          onSelect={setAnimationStyle}
+          onManage={onManageStyles}
+        />
       </div>
 
       <div className="mb-6">
@@ -249,6 +308,12 @@ export const LogoAnimator: React.FC<LogoAnimatorProps> = ({
             </>
           )}
         </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
+        <CostEstimator
+          request={costRequest}
+          onEstimateCost={onEstimateCost}
+          report={costReport}
+        />
       </div>
     </>
   );
@@ -0,0 +1,498 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useState} from 'react';
+import {CINEMATIC_STYLES} from '../constants';
+import {VIDEO_CLIP_SECONDS} from '../services/config';
+import {CallOptions} from '../services/generationProvider';
+import {MusicVideoResult} from '../services/musicVideo';
+import {
+  EnergyLevel,
+  ImageSettings,
+  MusicVideoFormState,
+  PromptFormat,
+} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {
+  AudioAnalysis,
+  TimedShot,
+  analyzeAudioFile,
+  formatTimecode,
+  planBeatAlignedShots,
+} from '../utils/audioAnalysis';
+import {imageDataUrl} from '../utils/files';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {CancelButton} from './CancelButton';
+import {MusicalNoteIcon, PhotoIcon, SparklesIcon, XMarkIcon} from './icons';
+
+interface MusicVideoGeneratorProps {
+  onGenerateMusicVideo: (
+    shots: TimedShot[],
+    bpm: number,
+    mood: string,
+    lyrics: string,
+    imageFile: File | null,
+    selectedStyle: string,
+    promptFormat: PromptFormat,
+    imageSettings: ImageSettings,
+    options?: CallOptions,
+  ) => Promise<MusicVideoResult>;
+  form: MusicVideoFormState;
+  onFormChange: (form: MusicVideoFormState) => void;
+  /** The project's image settings for the frames. */
+  imageSettings: ImageSettings;
+  /** Base64 frames, one per shot of `form.shots`. */
+  visualStoryboard: (string | null)[];
+  /** Set to generate once with the current inputs, e.g. from the history. */
+  rerunRequested: boolean;
+  onRerunHandled: () => void;
+  onPromptGenerated: (prompt: string) => void;
+  onVisualsGenerated: (visuals: (string | null)[]) => void;
+}
+
+export const DEFAULT_MUSIC_VIDEO_FORM: MusicVideoFormState = {
+  audioFile: null,
+  mood: '',
+  lyrics: '',
+  referenceImage: null,
+  styleName: CINEMATIC_STYLES[1].name,
+  promptFormat: 'classic',
+  shots: [],
+};
+
+const ENERGY_COLORS: Record<EnergyLevel, string> = {
+  low: 'bg-sky-600',
+  medium: 'bg-purple-600',
+  high: 'bg-pink-600',
+};
+
+/** The track's energy sections as a bar, with a tick at every planned cut. */
+const TrackTimeline: React.FC<{
+  analysis: AudioAnalysis;
+  shots: TimedShot[];
+}> = ({analysis, shots}) => (
+  <div>
+    <div className="relative flex h-6 w-full rounded-md overflow-hidden">
+      {analysis.sections.map((section) => (
+        <div
+          key={section.start}
+          className={`${ENERGY_COLORS[section.energy]} h-full border-r border-gray-900 last:border-r-0`}
+          style={{
+            width: `${((section.end - section.start) / analysis.duration) * 100}%`,
+          }}
+          title={`${formatTimecode(section.start)}-${formatTimecode(
+            section.end,
+          )}: ${section.energy} energy`}
+        />
+      ))}
+      {shots.slice(1).map((shot) => (
+        <div
+          key={shot.start}
+          className="absolute top-0 h-full w-px bg-white/60"
+          style={{left: `${(shot.start / analysis.duration) * 100}%`}}
+        />
+      ))}
+    </div>
+    <div className="flex justify-between text-xs text-gray-500 mt-1">
+      <span>0:00</span>
+      <span className="flex gap-3">
+        {(['low', 'medium', 'high'] as const).map((energy) => (
+          <span key={energy} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-sm ${ENERGY_COLORS[energy]}`} />
+            {energy}
+          </span>
+        ))}
+      </span>
+      <span>{formatTimecode(analysis.duration)}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Builds a music video from an uploaded track. The track is analyzed in the
+ * browser for tempo, beats and energy sections; the shot list is cut to the
+ * beat and each shot is then written, rendered and prompted through the
+ * storyboard pipeline.
+ */
+export const MusicVideoGenerator: React.FC<MusicVideoGeneratorProps> = ({
+  onGenerateMusicVideo,
+  form,
+  onFormChange,
+  imageSettings,
+  visualStoryboard,
+  rerunRequested,
+  onRerunHandled,
+  onPromptGenerated,
+  onVisualsGenerated,
+}) => {
+  const {audioFile, mood, lyrics, referenceImage, styleName, promptFormat} =
+    form;
+  const audioUrl = useObjectUrl(audioFile);
+  const imagePreview = useObjectUrl(referenceImage);
+  const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  /** The file `analysis` was made from, which lags behind `audioFile`. */
+  const [analyzedFile, setAnalyzedFile] = useState<File | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const run = useCancellableRun();
+
+  const update = (patch: Partial<MusicVideoFormState>) =>
+    onFormChange({...form, ...patch});
+
+  useEffect(() => {
+    setAnalysis(null);
+    setAnalysisError(null);
+    if (!audioFile) return;
+
+    let isCurrent = true;
+    setIsAnalyzing(true);
+    analyzeAudioFile(audioFile)
+      .then((result) => {
+        if (!isCurrent) return;
+        setAnalysis(result);
+        setAnalyzedFile(audioFile);
+        trackEvent('analyze_audio', {
+          bpm: result.bpm,
+          duration_seconds: Math.round(result.duration),
+          section_count: result.sections.length,
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to analyze audio:', error);
+        if (isCurrent) {
+          setAnalysisError(
+            'Could not read this audio file. Try an MP3, WAV or M4A file.',
+          );
+        }
+      })
+      .finally(() => {
+        if (isCurrent) setIsAnalyzing(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [audioFile]);
+
+  const plannedShots = useMemo(
+    () => (analysis ? planBeatAlignedShots(analysis, VIDEO_CLIP_SECONDS) : []),
+    [analysis],
+  );
+
+  const handleAudioChange = (files: FileList | null) => {
+    if (files && files[0]) {
+      // The shot list was cut to the previous track.
+      update({audioFile: files[0], shots: []});
+      onPromptGenerated('');
+      onVisualsGenerated([]);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!analysis) return;
+    const signal = run.start();
+    setIsGenerating(true);
+    onPromptGenerated('');
+    onVisualsGenerated([]);
+    trackEvent('generate_music_video', {
+      bpm: analysis.bpm,
+      shot_count: plannedShots.length,
+      has_lyrics: !!lyrics.trim(),
+      has_reference_image: !!referenceImage,
+      style: styleName,
+      prompt_format: promptFormat,
+    });
+    try {
+      const result = await onGenerateMusicVideo(
+        plannedShots,
+        analysis.bpm,
+        mood.trim(),
+        lyrics.trim(),
+        referenceImage,
+        styleName,
+        promptFormat,
+        imageSettings,
+        {signal},
+      );
+      if (signal.aborted) return;
+      update({shots: result.shots});
+      onPromptGenerated(result.prompts);
+      onVisualsGenerated(result.sceneImages);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error('Error generating music video:', error);
+      }
+    } finally {
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    trackEvent('cancel_generation', {video_type: 'musicVideo'});
+  };
+
+  // A re-run waits for the restored track to be analyzed.
+  useEffect(() => {
+    if (!rerunRequested) return;
+    if (analysisError) {
+      onRerunHandled();
+    } else if (analysis && analyzedFile === audioFile) {
+      onRerunHandled();
+      handleGenerate();
+    }
+  }, [rerunRequested, analysis, analyzedFile, audioFile, analysisError]);
+
+  return (
+    <>
+      {/* Step 1: Upload the track */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          1. Upload Your Track
+        </label>
+        <p className="text-xs text-gray-500 mb-2 -mt-1">
+          The track is analyzed in your browser to find its tempo, beats and
+          energy. It is never uploaded.
+        </p>
+        <label
+          htmlFor="audio-upload"
+          className="flex items-center gap-3 px-4 py-4 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-purple-500 transition-colors">
+          <MusicalNoteIcon className="w-8 h-8 text-gray-400 flex-shrink-0" />
+          <span className="text-sm text-gray-400 truncate">
+            {audioFile ? audioFile.name : 'Click to upload an MP3, WAV or M4A'}
+          </span>
+        </label>
+        <input
+          id="audio-upload"
+          type="file"
+          className="sr-only"
+          accept="audio/*"
+          onChange={(e) => {
+            handleAudioChange(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        {audioUrl && (
+          <audio controls src={audioUrl} className="w-full mt-3">
+            Your browser does not support the audio element.
+          </audio>
+        )}
+        {isAnalyzing && (
+          <div className="flex items-center gap-2 text-sm text-gray-400 mt-3">
+            <div className="w-4 h-4 border-2 border-dashed rounded-full animate-spin border-purple-400"></div>
+            Detecting tempo, beats and sections...
+          </div>
+        )}
+        {analysisError && (
+          <p className="text-sm text-red-400 mt-3">{analysisError}</p>
+        )}
+        {analysis && (
+          <div className="mt-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700 space-y-2">
+            <p className="text-sm text-gray-300">
+              <span className="font-semibold">{analysis.bpm} BPM</span>
+              {' · '}
+              {formatTimecode(analysis.duration)}
+              {' · '}
+              {analysis.sections.length} section
+              {analysis.sections.length === 1 ? '' : 's'}
+              {' · '}
+              {plannedShots.length} beat-aligned shot
+              {plannedShots.length === 1 ? '' : 's'}
+            </p>
+            <TrackTimeline analysis={analysis} shots={plannedShots} />
+          </div>
+        )}
+      </div>
+
+      {/* Step 2: Mood & lyrics */}
+      <div className="mb-6">
+        <label
+          htmlFor="music-mood"
+          className="block text-sm font-medium text-gray-300 mb-2">
+          2. Describe the Song
+        </label>
+        <input
+          id="music-mood"
+          type="text"
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+          value={mood}
+          onChange={(e) => update({mood: e.target.value})}
+          placeholder="Mood, e.g. Dreamy late-night synth-pop about leaving town"
+          aria-label="Song mood"
+        />
+        <textarea
+          rows={6}
+          className="w-full mt-3 bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+          value={lyrics}
+          onChange={(e) => update({lyrics: e.target.value})}
+          placeholder="Lyrics (optional). Leave empty for an instrumental."
+          aria-label="Song lyrics"
+        />
+      </div>
+
+      {/* Step 3: Style */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          3. Choose a Look
+        </label>
+        <div className="flex items-start gap-3 mb-3">
+          <div className="relative w-20 h-20 flex-shrink-0">
+            <label
+              htmlFor="music-reference-upload"
+              className="w-full h-full flex items-center justify-center bg-gray-700 rounded-md overflow-hidden cursor-pointer hover:ring-2 hover:ring-purple-500 transition-shadow"
+              title="Upload a reference image (optional)">
+              {imagePreview ? (
+                <img
+                  src={imagePreview}
+                  alt="Reference"
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <PhotoIcon className="w-8 h-8 text-gray-400" />
+              )}
+            </label>
+            <input
+              id="music-reference-upload"
+              type="file"
+              className="sr-only"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) update({referenceImage: file});
+                e.target.value = '';
+              }}
+            />
+            {referenceImage && (
+              <button
+                onClick={() => update({referenceImage: null})}
+                className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-800 text-gray-400 hover:text-white border border-gray-600"
+                aria-label="Remove reference image">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Optionally upload a reference image to guide the look, and pick a
+            base style.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {CINEMATIC_STYLES.map((style) => (
+            <button
+              key={style.name}
+              onClick={() => update({styleName: style.name})}
+              className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+                styleName === style.name
+                  ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+              title={style.description}>
+              {style.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Step 4: Generate */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          4. Generate Shot List & Director's Prompts
+        </label>
+        <div className="mb-3">
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Prompt Format
+          </label>
+          <div className="flex w-full rounded-lg bg-gray-900 p-1 border border-gray-700">
+            <button
+              onClick={() => update({promptFormat: 'classic'})}
+              className={`w-1/2 rounded-md py-1.5 text-sm font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800 ${
+                promptFormat === 'classic'
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-transparent text-gray-300 hover:bg-gray-700'
+              }`}>
+              Classic
+            </button>
+            <button
+              onClick={() => update({promptFormat: 'json'})}
+              className={`w-1/2 rounded-md py-1.5 text-sm font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800 ${
+                promptFormat === 'json'
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-transparent text-gray-300 hover:bg-gray-700'
+              }`}>
+              JSON (Advanced)
+            </button>
+          </div>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={!analysis || isGenerating}
+          className="w-full flex justify-center items-center gap-2 mb-3 px-6 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-base">
+          {isGenerating ? (
+            <>
+              <div className="w-5 h-5 border-2 border-dashed rounded-full animate-spin border-white"></div>
+              <span>Generating...</span>
+            </>
+          ) : (
+            <>
+              <SparklesIcon className="w-5 h-5" />
+              <span>Generate with AI</span>
+            </>
+          )}
+        </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
+      </div>
+
+      {/* Shot list */}
+      {form.shots.length > 0 && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            5. Beat-Aligned Shot List
+          </label>
+          <ol className="space-y-3">
+            {form.shots.map((shot, index) => {
+              const image = visualStoryboard[index];
+              return (
+                <li
+                  key={shot.start}
+                  className="flex gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                  <div className="w-28 h-20 flex-shrink-0 bg-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+                    {image ? (
+                      <img
+                        src={imageDataUrl(image)}
+                        alt={`Frame for shot ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <PhotoIcon className="w-8 h-8 text-gray-400" />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-xs text-gray-400 flex items-center gap-2">
+                      <span className="font-semibold text-gray-200">
+                        Shot {index + 1}
+                      </span>
+                      {formatTimecode(shot.start)}-{formatTimecode(shot.end)} (
+                      {(shot.end - shot.start).toFixed(1)}s)
+                      <span
+                        className={`px-1.5 rounded text-white ${ENERGY_COLORS[shot.energy]}`}>
+                        {shot.energy}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-300 mt-1">
+                      {shot.description}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useState} from 'react';
+import {Video} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {MagnifyingGlassIcon} from './icons';
+import {VideoGrid} from './VideoGrid';
+
+interface MyCreationsGalleryProps {
+  videos: Video[];
+  onPlayVideo: (video: Video) => void;
+}
+
+const matchesQuery = (video: Video, query: string) =>
+  [video.title, video.description, ...(video.tags ?? [])].some((text) =>
+    text.toLowerCase().includes(query),
+  );
+
+/**
+ * The clips and frames the user generated, stored in this browser, with a
+ * search box and tag filters above the same grid as the showcase.
+ */
+export const MyCreationsGallery: React.FC<MyCreationsGalleryProps> = ({
+  videos,
+  onPlayVideo,
+}) => {
+  const [query, setQuery] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+  const tags = useMemo(
+    () => [...new Set(videos.flatMap((video) => video.tags ?? []))].sort(),
+    [videos],
+  );
+
+  const filtered = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return videos.filter(
+      (video) =>
+        (!selectedTag || video.tags?.includes(selectedTag)) &&
+        (!normalizedQuery || matchesQuery(video, normalizedQuery)),
+    );
+  }, [videos, query, selectedTag]);
+
+  const handleSelectTag = (tag: string | null) => {
+    setSelectedTag(tag);
+    trackEvent('filter_creations', {tag: tag ?? 'all'});
+  };
+
+  const handlePlay = (video: Video) => {
+    trackEvent('play_creation', {has_video: !!video.videoUrl});
+    onPlayVideo(video);
+  };
+
+  return (
+    <section className="w-full max-w-7xl py-16 px-4">
+      <h2 className="text-3xl font-bold text-center mb-4">My Creations</h2>
+      <p className="text-center text-lg text-gray-400 mb-8 max-w-3xl mx-auto">
+        Every clip and saved frame you generate, kept in this browser.
+      </p>
+      <div className="max-w-3xl mx-auto mb-8">
+        <div className="relative mb-3">
+          <MagnifyingGlassIcon className="w-5 h-5 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+          <input
+            type="search"
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 pl-10 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search titles, prompts and tags"
+            aria-label="Search your creations"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 justify-center">
+          {[null, ...tags].map((tag) => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => handleSelectTag(tag)}
+              className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+                selectedTag === tag
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}>
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {filtered.length > 0 ? (
+        <VideoGrid videos={filtered} onPlayVideo={handlePlay} />
+      ) : (
+        <p className="text-center text-gray-400 py-10">
+          Nothing matches your search.
+        </p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {VIDEO_TYPE_LABELS} from '../constants';
+import {
+  deleteProject,
+  duplicateProject,
+  listProjects,
+} from '../services/projectStore';
+import {Project} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {imageDataUrl} from '../utils/files';
+import {DocumentDuplicateIcon, PhotoIcon, TrashIcon, XMarkIcon} from './icons';
+
+interface ProjectBrowserProps {
+  onOpen: (project: Project) => void;
+  onClose: () => void;
+}
+
+/** The first generated frame of a project, if it has any. */
+const projectThumbnail = (project: Project): string | null =>
+  project.sceneImages.find((image) => image) ??
+  project.explainerScenes?.find((scene) => scene.image)?.image ??
+  null;
+
+/**
+ * A modal listing the projects saved in this browser, most recent first, with
+ * controls to open, duplicate and delete them.
+ */
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  onOpen,
+  onClose,
+}) => {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error('Failed to load projects:', e);
+      setError('Could not load your saved projects.');
+      setProjects([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (project: Project) => {
+    trackEvent('duplicate_project', {video_type: project.videoType});
+    await duplicateProject(project);
+    await refresh();
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      return;
+    }
+    trackEvent('delete_project', {video_type: project.videoType});
+    await deleteProject(project.id);
+    await refresh();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="project-browser-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col relative p-6 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close project browser">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="project-browser-title"
+          className="text-xl font-bold text-white mb-4">
+          Your Projects
+        </h2>
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+        <div className="overflow-y-auto -mx-2 px-2">
+          {projects === null ? (
+            <div className="flex justify-center py-10">
+              <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-400"></div>
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-center text-gray-400 py-10">
+              No saved projects yet. Use "Save Project" to keep your work.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {projects.map((project) => {
+                const thumbnail = projectThumbnail(project);
+                return (
+                  <li
+                    key={project.id}
+                    className="flex items-center gap-4 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                    <button
+                      onClick={() => onOpen(project)}
+                      className="flex flex-1 min-w-0 items-center gap-4 text-left group">
+                      <div className="w-24 h-16 flex-shrink-0 bg-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+                        {thumbnail ? (
+                          <img
+                            src={imageDataUrl(thumbnail)}
+                            alt=""
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <PhotoIcon className="w-8 h-8 text-gray-500" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <h3 className="font-semibold text-white truncate group-hover:text-purple-300 transition-colors">
+                          {project.name}
+                        </h3>
+                        <p className="text-xs text-gray-400">
+                          {VIDEO_TYPE_LABELS[project.videoType]}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Updated {new Date(project.updatedAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(project)}
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Duplicate ${project.name}`}
+                      title="Duplicate">
+                      <DocumentDuplicateIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(project)}
+                      className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Delete ${project.name}`}
+                      title="Delete">
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
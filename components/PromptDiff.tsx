@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo} from 'react';
+import {DiffRow, diffLines} from '../utils/diff';
+
+interface PromptDiffProps {
+  oldPrompt: string;
+  newPrompt: string;
+  oldLabel: string;
+  newLabel: string;
+}
+
+const CELL_STYLES: Record<DiffRow['kind'], [string, string]> = {
+  same: ['text-gray-400', 'text-gray-400'],
+  removed: ['bg-red-500/15 text-red-200', 'bg-gray-900/60'],
+  added: ['bg-gray-900/60', 'bg-green-500/15 text-green-200'],
+  changed: ['bg-red-500/15 text-red-200', 'bg-green-500/15 text-green-200'],
+};
+
+/** Two versions of a master prompt side by side, with changed lines marked. */
+export const PromptDiff: React.FC<PromptDiffProps> = ({
+  oldPrompt,
+  newPrompt,
+  oldLabel,
+  newLabel,
+}) => {
+  const rows = useMemo(
+    () => diffLines(oldPrompt, newPrompt),
+    [oldPrompt, newPrompt],
+  );
+  const changedCount = rows.filter((row) => row.kind !== 'same').length;
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2">
+        {changedCount === 0
+          ? 'The prompts are identical.'
+          : `${changedCount} line(s) differ.`}
+      </p>
+      <div className="grid grid-cols-2 text-xs font-semibold text-gray-300 mb-1">
+        <span className="px-2 truncate">{oldLabel}</span>
+        <span className="px-2 truncate">{newLabel}</span>
+      </div>
+      <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-gray-700 font-mono text-xs">
+        {rows.map((row, index) => {
+          const [leftStyle, rightStyle] = CELL_STYLES[row.kind];
+          return (
+            <div key={index} className="grid grid-cols-2">
+              <pre
+                className={`px-2 py-0.5 whitespace-pre-wrap break-words border-r border-gray-700 ${leftStyle}`}>
+                {row.left ?? ''}
+              </pre>
+              <pre
+                className={`px-2 py-0.5 whitespace-pre-wrap break-words ${rightStyle}`}>
+                {row.right ?? ''}
+              </pre>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -3,10 +3,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import {GenerationStage} from '../services/progress';
+import {CancelButton} from './CancelButton';
+import {GenerationProgressList} from './GenerationProgressList';
 
 interface SavingProgressPageProps {
   title?: string;
   subtitle?: string;
+  /** The stages of the run, shown with their status and elapsed time. */
+  stages?: GenerationStage[];
+  /** Stops the run; no cancel button is shown without it. */
+  onCancel?: () => void;
 }
 
 /**
@@ -16,6 +23,8 @@ interface SavingProgressPageProps {
 export const SavingProgressPage: React.FC<SavingProgressPageProps> = ({
   title = 'Creating your remix...',
   subtitle = 'Please wait while we bring your vision to life.',
+  stages = [],
+  onCancel,
 }) => {
   return (
     <div
@@ -25,6 +34,16 @@ export const SavingProgressPage: React.FC<SavingProgressPageProps> = ({
       <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
       <h2 className="text-2xl font-bold text-white mt-8">{title}</h2>
       <p className="text-gray-400 mt-2">{subtitle}</p>
+      {stages.length > 0 && (
+        <div className="w-full max-w-xs mt-6">
+          <GenerationProgressList stages={stages} />
+        </div>
+      )}
+      {onCancel && (
+        <div className="w-full max-w-xs mt-6">
+          <CancelButton onCancel={onCancel} label="Cancel Generation" />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {CallOptions} from '../services/generationProvider';
+import {Video} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {Shot} from '../utils/shots';
+import {PlayIcon, SparklesIcon, XMarkIcon} from './icons';
+
+type ShotStatus =
+  'idle' | 'queued' | 'generating' | 'done' | 'failed' | 'cancelled';
+
+interface ShotJob {
+  shot: Shot;
+  status: ShotStatus;
+  /** Identifies the in-flight request; results from older runs are dropped. */
+  runId: number;
+  /** The creation the finished clip was kept as. */
+  creationId?: string;
+  error?: string;
+}
+
+interface ShotListGeneratorProps {
+  shots: Shot[];
+  /** Optional first frame for every shot, e.g. the uploaded logo. */
+  imageFile: File | null;
+  /** Renders a shot and resolves with the ID of the creation it is kept as. */
+  onGenerateShot: (
+    prompt: string,
+    imageFile: File | null,
+    options: CallOptions,
+  ) => Promise<string>;
+  /** The user's clips, which the finished shots are shown from. */
+  creations: Video[];
+  onPlayVideo: (video: Video) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ShotStatus, string> = {
+  idle: 'bg-gray-700 text-gray-300',
+  queued: 'bg-blue-500/20 text-blue-300',
+  generating: 'bg-purple-500/20 text-purple-300',
+  done: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const STATUS_LABELS: Record<ShotStatus, string> = {
+  idle: 'Not started',
+  queued: 'Queued',
+  generating: 'Generating...',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Generates a clip for every shot in the master prompt. Shots are queued and
+ * rendered one at a time, each with its own status, retry and cancel controls,
+ * and the finished clips are shown together in shot order.
+ */
+export const ShotListGenerator: React.FC<ShotListGeneratorProps> = ({
+  shots,
+  imageFile,
+  onGenerateShot,
+  creations,
+  onPlayVideo,
+  onClose,
+}) => {
+  const [jobs, setJobs] = useState<ShotJob[]>(() =>
+    shots.map((shot) => ({shot, status: 'idle', runId: 0})),
+  );
+  const nextRunId = useRef(1);
+  /** The controllers of in-flight requests, by run id. */
+  const controllers = useRef(new Map<number, AbortController>());
+
+  // Closing the shot list stops the shot being rendered.
+  useEffect(
+    () => () => {
+      for (const controller of controllers.current.values()) {
+        controller.abort();
+      }
+    },
+    [],
+  );
+
+  const updateJob = (index: number, runId: number, patch: Partial<ShotJob>) => {
+    setJobs((prev) =>
+      prev.map((job, i) =>
+        i === index && job.runId === runId ? {...job, ...patch} : job,
+      ),
+    );
+  };
+
+  // Start the next queued shot whenever nothing is generating.
+  useEffect(() => {
+    if (jobs.some((job) => job.status === 'generating')) return;
+    const index = jobs.findIndex((job) => job.status === 'queued');
+    if (index === -1) return;
+
+    const runId = nextRunId.current++;
+    const {shot} = jobs[index];
+    setJobs((prev) =>
+      prev.map((job, i) =>
+        i === index
+          ? {...job, status: 'generating', runId, error: undefined}
+          : job,
+      ),
+    );
+    const controller = new AbortController();
+    controllers.current.set(runId, controller);
+    onGenerateShot(shot.prompt, imageFile, {signal: controller.signal})
+      .then((creationId) =>
+        updateJob(index, runId, {status: 'done', creationId}),
+      )
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error(`Failed to generate shot ${index + 1}:`, error);
+        updateJob(index, runId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => controllers.current.delete(runId));
+  }, [jobs]);
+
+  const setStatus = (
+    shouldChange: (job: ShotJob, index: number) => boolean,
+    status: ShotStatus,
+  ) => {
+    if (status === 'cancelled') {
+      jobs.forEach((job, i) => {
+        if (shouldChange(job, i)) {
+          controllers.current.get(job.runId)?.abort();
+        }
+      });
+    }
+    setJobs((prev) =>
+      prev.map((job, i) =>
+        shouldChange(job, i)
+          ? // Resetting the run id drops the result of any in-flight request.
+            {...job, status, runId: status === 'cancelled' ? 0 : job.runId}
+          : job,
+      ),
+    );
+  };
+
+  const handleGenerateAll = () => {
+    trackEvent('generate_all_shots', {shot_count: jobs.length});
+    setStatus(
+      (job) => job.status !== 'done' && job.status !== 'generating',
+      'queued',
+    );
+  };
+
+  const handleCancelAll = () => {
+    setStatus(
+      (job) => job.status === 'queued' || job.status === 'generating',
+      'cancelled',
+    );
+  };
+
+  const handleRetry = (index: number) => {
+    trackEvent('retry_shot', {shot_number: index + 1});
+    setStatus((_, i) => i === index, 'queued');
+  };
+
+  const handleCancel = (index: number) => {
+    setStatus((_, i) => i === index, 'cancelled');
+  };
+
+  const doneCount = jobs.filter((job) => job.status === 'done').length;
+  const isRunning = jobs.some(
+    (job) => job.status === 'queued' || job.status === 'generating',
+  );
+
+  return (
+    <div className="mt-6 border-t border-gray-700 pt-6">
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-300">
+          Shot List ({doneCount}/{jobs.length} generated)
+        </label>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+          aria-label="Close shot list">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={handleGenerateAll}
+          disabled={isRunning || doneCount === jobs.length}
+          className="flex-1 flex justify-center items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed text-sm">
+          <SparklesIcon className="w-5 h-5" />
+          Generate All Shots
+        </button>
+        <button
+          onClick={handleCancelAll}
+          disabled={!isRunning}
+          className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:bg-gray-500/50 disabled:cursor-not-allowed text-sm">
+          Cancel All
+        </button>
+      </div>
+      <ol className="space-y-3">
+        {jobs.map((job, index) => {
+          const video = creations.find(({id}) => id === job.creationId);
+          return (
+            <li
+              key={index}
+              className="flex gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+              <div className="w-32 flex-shrink-0 aspect-w-16 aspect-h-9 bg-gray-700 rounded-md overflow-hidden">
+                {video ? (
+                  <button
+                    onClick={() => onPlayVideo(video)}
+                    className="group"
+                    aria-label={`Play shot ${index + 1}`}>
+                    <video
+                      src={video.videoUrl}
+                      className="w-full h-full object-cover"
+                      muted
+                      loop
+                      playsInline
+                      autoPlay
+                    />
+                    <span className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <PlayIcon className="w-8 h-8 text-white" />
+                    </span>
+                  </button>
+                ) : (
+                  <div className="flex items-center justify-center text-xs font-bold text-gray-400">
+                    {job.status === 'generating' ? (
+                      <div className="w-6 h-6 border-2 border-dashed rounded-full animate-spin border-purple-400"></div>
+                    ) : (
+                      `Shot ${index + 1}`
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <h4
+                    className="text-sm font-semibold text-white truncate"
+                    title={job.shot.title}>
+                    {index + 1}. {job.shot.title}
+                  </h4>
+                  <span
+                    className={`flex-shrink-0 text-[10px] font-semibold px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>
+                    {STATUS_LABELS[job.status]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-400 line-clamp-2">
+                  {job.shot.prompt}
+                </p>
+                {job.error && (
+                  <p
+                    className="text-xs text-red-400 mt-1 truncate"
+                    title={job.error}>
+                    {job.error}
+                  </p>
+                )}
+                <div className="flex gap-3 mt-2 text-xs">
+                  {(job.status === 'failed' ||
+                    job.status === 'cancelled' ||
+                    job.status === 'idle' ||
+                    job.status === 'done') && (
+                    <button
+                      onClick={() => handleRetry(index)}
+                      className="text-purple-400 hover:text-purple-300 font-semibold">
+                      {job.status === 'idle'
+                        ? 'Generate'
+                        : job.status === 'done'
+                          ? 'Regenerate'
+                          : 'Retry'}
+                    </button>
+                  )}
+                  {(job.status === 'queued' || job.status === 'generating') && (
+                    <button
+                      onClick={() => handleCancel(index)}
+                      className="text-gray-400 hover:text-white font-semibold">
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {GenerationError} from '../services/errors';
+import {ImageAspectRatio} from '../types';
+import {imageDataUrl} from '../utils/files';
+import {
+  ArrowPathIcon,
+  BookmarkIcon,
+  FilmIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  PencilSquareIcon,
+  PhotoIcon,
+  SparklesIcon,
+} from './icons';
+
+const ASPECT_CLASSES: Record<ImageAspectRatio, string> = {
+  '16:9': 'aspect-video',
+  '4:3': 'aspect-4/3',
+  '1:1': 'aspect-square',
+  '3:4': 'aspect-3/4',
+  '9:16': 'aspect-9/16',
+};
+
+interface StoryboardFrameGridProps {
+  scenes: string[];
+  /** Base64 frames, one per scene; null where no image was generated. */
+  images: (string | null)[];
+  /** The aspect ratio the frames are rendered at. */
+  aspectRatio: ImageAspectRatio;
+  /** The rendered variants of each frame to pick from, by scene index. */
+  variants: string[][];
+  /** Why each frame failed to render, by scene index. */
+  frameErrors: (GenerationError | null)[];
+  lockedFrames: boolean[];
+  /** Indices of the frames currently being re-rendered. */
+  regenerating: number[];
+  onToggleLock: (index: number) => void;
+  /** Re-renders one frame from the given (possibly edited) scene text. */
+  onRegenerate: (index: number, scene: string) => void;
+  /** Suggests a rephrasing of a scene the safety filters blocked. */
+  onSuggestRewrite: (index: number) => Promise<string>;
+  /** Keeps one frame in the user's My Creations gallery. */
+  onSaveFrame: (index: number) => void;
+  /** Opens the panel that animates a clip starting from one frame. */
+  onAnimateFrame: (index: number) => void;
+  /** Makes one of a frame's variants the frame. */
+  onPickVariant: (index: number, variant: string) => void;
+}
+
+/**
+ * The generated storyboard frames, each with controls to re-render it, edit
+ * its scene text and re-render, lock it so full regenerations keep it, save
+ * it to My Creations, or animate a clip from it. Frames rendered with several
+ * variants show them underneath to pick the best one. A frame the safety
+ * filters blocked offers a suggested rewrite of its scene, which is only used
+ * once the user re-renders with it.
+ */
+export const StoryboardFrameGrid: React.FC<StoryboardFrameGridProps> = ({
+  scenes,
+  images,
+  aspectRatio,
+  variants,
+  frameErrors,
+  lockedFrames,
+  regenerating,
+  onToggleLock,
+  onRegenerate,
+  onSuggestRewrite,
+  onSaveFrame,
+  onAnimateFrame,
+  onPickVariant,
+}) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  /** Whether the draft is a suggested rewrite rather than the user's edit. */
+  const [isSuggestion, setIsSuggestion] = useState(false);
+  const [suggestingIndex, setSuggestingIndex] = useState<number | null>(null);
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(scenes[index] ?? '');
+    setIsSuggestion(false);
+  };
+
+  const handleSuggestRewrite = async (index: number) => {
+    setSuggestingIndex(index);
+    try {
+      const rewrite = await onSuggestRewrite(index);
+      setEditingIndex(index);
+      setDraft(rewrite);
+      setIsSuggestion(true);
+    } catch (e) {
+      // The error is reported by the app.
+    } finally {
+      setSuggestingIndex(null);
+    }
+  };
+
+  const handleRerender = (index: number) => {
+    setEditingIndex(null);
+    onRegenerate(index, draft);
+  };
+
+  return (
+    <div
+      className={`grid gap-4 ${
+        // Tall frames get narrower columns so a row stays a similar height.
+        aspectRatio === '9:16' || aspectRatio === '3:4'
+          ? 'grid-cols-3 sm:grid-cols-4'
+          : 'grid-cols-2 sm:grid-cols-3'
+      }`}>
+      {images.map((imageSrc, index) => {
+        const isLocked = !!lockedFrames[index] && !!imageSrc;
+        const isRegenerating = regenerating.includes(index);
+        const hasScene = !!scenes[index]?.trim();
+        const isBlocked = !imageSrc && frameErrors[index]?.kind === 'safety';
+        // Variants of an earlier render of the frame are not offered.
+        const frameVariants =
+          imageSrc && variants[index]?.includes(imageSrc)
+            ? variants[index]
+            : [];
+        return (
+          <div key={index}>
+            <div className="relative group">
+              <div
+                className={`${ASPECT_CLASSES[aspectRatio]} bg-gray-700 rounded-lg overflow-hidden ${
+                  isLocked ? 'ring-2 ring-purple-500' : ''
+                }`}>
+                {isRegenerating ? (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <div className="w-8 h-8 border-4 border-dashed rounded-full animate-spin border-purple-400"></div>
+                  </div>
+                ) : imageSrc ? (
+                  <img
+                    src={imageDataUrl(imageSrc)}
+                    alt={`Generated visual for Scene ${index + 1}`}
+                    className="w-full h-full object-cover"
+                  />
+                ) : isBlocked ? (
+                  <div
+                    className="w-full h-full flex flex-col items-center justify-center text-center p-2"
+                    title={frameErrors[index]?.message}>
+                    <PhotoIcon className="w-8 h-8 text-amber-400 mb-1" />
+                    <p className="text-xs text-amber-300">
+                      Blocked by safety filters
+                    </p>
+                    <button
+                      onClick={() => handleSuggestRewrite(index)}
+                      disabled={suggestingIndex !== null || !hasScene}
+                      className="mt-2 flex items-center gap-1 px-2 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                      <SparklesIcon className="w-3.5 h-3.5" />
+                      {suggestingIndex === index
+                        ? 'Rewriting...'
+                        : 'Suggest a rewrite'}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center text-center p-2">
+                    <PhotoIcon className="w-8 h-8 text-gray-400 mb-1" />
+                    <p className="text-xs text-gray-500">No image generated</p>
+                  </div>
+                )}
+              </div>
+              <div className="absolute bottom-0 left-0 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded-tr-lg rounded-bl-lg">
+                Scene {index + 1}
+              </div>
+              <div className="absolute top-1 right-1 flex gap-1">
+                <button
+                  onClick={() => onToggleLock(index)}
+                  disabled={!imageSrc || isRegenerating}
+                  className={`p-1.5 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    isLocked
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-black/50 text-gray-200 hover:bg-black/70'
+                  }`}
+                  aria-label={`${isLocked ? 'Unlock' : 'Lock'} scene ${index + 1} frame`}
+                  title={
+                    isLocked
+                      ? 'Locked: kept when the storyboard is regenerated'
+                      : 'Lock this frame'
+                  }>
+                  {isLocked ? (
+                    <LockClosedIcon className="w-4 h-4" />
+                  ) : (
+                    <LockOpenIcon className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => startEditing(index)}
+                  disabled={isLocked || isRegenerating}
+                  className="p-1.5 rounded-full bg-black/50 text-gray-200 hover:bg-black/70 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Edit scene ${index + 1}`}
+                  title="Edit the scene and re-render">
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRegenerate(index, scenes[index] ?? '')}
+                  disabled={isLocked || isRegenerating || !hasScene}
+                  className="p-1.5 rounded-full bg-black/50 text-gray-200 hover:bg-black/70 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Regenerate scene ${index + 1} frame`}
+                  title="Regenerate this frame">
+                  <ArrowPathIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onSaveFrame(index)}
+                  disabled={!imageSrc || isRegenerating}
+                  className="p-1.5 rounded-full bg-black/50 text-gray-200 hover:bg-black/70 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Save scene ${index + 1} frame to My Creations`}
+                  title="Save to My Creations">
+                  <BookmarkIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onAnimateFrame(index)}
+                  disabled={!imageSrc || isRegenerating}
+                  className="p-1.5 rounded-full bg-black/50 text-gray-200 hover:bg-black/70 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Animate from scene ${index + 1} frame`}
+                  title="Animate from this frame">
+                  <FilmIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {frameVariants.length > 1 && !isRegenerating && (
+              <div className="flex gap-1 mt-1">
+                {frameVariants.map((variant, variantIndex) => (
+                  <button
+                    key={variantIndex}
+                    onClick={() => onPickVariant(index, variant)}
+                    disabled={isLocked}
+                    className={`flex-1 ${ASPECT_CLASSES[aspectRatio]} rounded overflow-hidden bg-gray-700 disabled:cursor-not-allowed ${
+                      variant === imageSrc
+                        ? 'ring-2 ring-purple-400'
+                        : 'opacity-60 hover:opacity-100'
+                    }`}
+                    aria-label={`Use variant ${variantIndex + 1} for scene ${index + 1}`}>
+                    <img
+                      src={imageDataUrl(variant)}
+                      alt=""
+                      className="w-full h-full object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+            {editingIndex === index && (
+              <div className="mt-2 animate-fade-in">
+                {isSuggestion && (
+                  <div className="mb-1 text-xs text-gray-400">
+                    <p>
+                      Suggested rewrite. Edit it if needed; the scene only
+                      changes when you re-render.
+                    </p>
+                    <p className="mt-1 text-gray-500 line-through">
+                      {scenes[index]}
+                    </p>
+                  </div>
+                )}
+                <textarea
+                  rows={3}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-xs text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  aria-label={`Scene ${index + 1} description`}
+                />
+                <div className="flex gap-2 mt-1">
+                  <button
+                    onClick={() => handleRerender(index)}
+                    disabled={!draft.trim()}
+                    className="flex-1 px-2 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                    {isSuggestion ? 'Use & Re-render' : 'Re-render'}
+                  </button>
+                  <button
+                    onClick={() => setEditingIndex(null)}
+                    className="px-2 py-1 rounded-md bg-gray-600 hover:bg-gray-500 text-white text-xs font-semibold transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,396 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {SavedStyle, StyleProfile} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {
+  EMPTY_STYLE_PROFILE,
+  STYLE_PROFILE_FIELDS,
+  styleProfileKeywords,
+} from '../utils/styleProfile';
+import {useObjectUrl} from '../utils/useObjectUrl';
+import {
+  PencilSquareIcon,
+  PlusIcon,
+  SparklesIcon,
+  TrashIcon,
+  XMarkIcon,
+} from './icons';
+
+interface StyleLibraryPanelProps {
+  styles: SavedStyle[];
+  /** The saved style applied to every generator, if any. */
+  activeStyleId: string | null;
+  onApply: (id: string | null) => void;
+  onAnalyze: (imageFiles: File[]) => Promise<StyleProfile>;
+  onSave: (name: string, profile: StyleProfile, id?: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/** A style being edited; `id` is set when it is already in the library. */
+interface StyleDraft {
+  id?: string;
+  name: string;
+  profile: StyleProfile;
+}
+
+const FIELD_PLACEHOLDERS: Record<
+  (typeof STYLE_PROFILE_FIELDS)[number],
+  string
+> = {
+  lighting: 'e.g. soft golden-hour backlight',
+  lens: 'e.g. 35mm anamorphic, shallow depth of field',
+  texture: 'e.g. fine film grain, matte finish',
+  era: 'e.g. 1970s Kodachrome',
+  mood: 'e.g. nostalgic, wistful',
+};
+
+const ReferenceThumbnail: React.FC<{file: File; onRemove: () => void}> = ({
+  file,
+  onRemove,
+}) => {
+  const url = useObjectUrl(file);
+  return (
+    <div className="relative w-20 h-20 flex-shrink-0 rounded-md overflow-hidden bg-gray-700">
+      {url && (
+        <img src={url} alt={file.name} className="w-full h-full object-cover" />
+      )}
+      <button
+        onClick={onRemove}
+        className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-gray-200 hover:text-white"
+        aria-label={`Remove ${file.name}`}>
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const PaletteSwatches: React.FC<{palette: string[]}> = ({palette}) => (
+  <div className="flex gap-1">
+    {palette.map((color, index) => (
+      <span
+        key={index}
+        className="w-5 h-5 rounded border border-gray-600"
+        style={{backgroundColor: color}}
+        title={color}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * A modal style library. Several reference images are analyzed into one
+ * style profile, which the user can edit and save under a name. A saved style
+ * can then be applied to every generator without analyzing the images again.
+ */
+export const StyleLibraryPanel: React.FC<StyleLibraryPanelProps> = ({
+  styles,
+  activeStyleId,
+  onApply,
+  onAnalyze,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [draft, setDraft] = useState<StyleDraft | null>(null);
+
+  const handleAddReferences = (files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter((file) =>
+      file.type.startsWith('image/'),
+    );
+    setReferenceFiles((prev) => [...prev, ...images]);
+  };
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    trackEvent('analyze_style', {image_count: referenceFiles.length});
+    try {
+      const profile = await onAnalyze(referenceFiles);
+      setDraft({name: '', profile});
+    } catch (e) {
+      // The error is shown by the caller.
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const updateProfile = (update: Partial<StyleProfile>) =>
+    setDraft((prev) =>
+      prev ? {...prev, profile: {...prev.profile, ...update}} : prev,
+    );
+
+  const updateColor = (index: number, color: string) =>
+    updateProfile({
+      palette: draft!.profile.palette.map((c, i) => (i === index ? color : c)),
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    trackEvent('save_style', {is_update: !!draft.id});
+    await onSave(draft.name.trim(), draft.profile, draft.id);
+    setDraft(null);
+    setReferenceFiles([]);
+  };
+
+  const handleDelete = (style: SavedStyle) => {
+    if (!window.confirm(`Delete the style "${style.name}"?`)) {
+      return;
+    }
+    trackEvent('delete_style', {was_applied: style.id === activeStyleId});
+    onDelete(style.id);
+    if (draft?.id === style.id) {
+      setDraft(null);
+    }
+  };
+
+  const handleToggleApply = (style: SavedStyle) => {
+    const isApplied = style.id === activeStyleId;
+    trackEvent('apply_style', {applied: !isApplied});
+    onApply(isApplied ? null : style.id);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="style-library-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col relative p-6 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close style library">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="style-library-title"
+          className="text-xl font-bold text-white mb-1 pr-10">
+          Style Library
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">
+          The applied style is added to every generator on top of its own style
+          choices.
+        </p>
+        <div className="overflow-y-auto -mx-2 px-2 space-y-6">
+          {draft ? (
+            <div className="p-4 bg-gray-900/50 rounded-lg border border-purple-500/40">
+              <label
+                htmlFor="style-name"
+                className="block text-sm font-medium text-gray-300 mb-1">
+                Style name
+              </label>
+              <input
+                id="style-name"
+                type="text"
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 mb-3"
+                value={draft.name}
+                onChange={(e) => setDraft({...draft, name: e.target.value})}
+                placeholder="e.g. Sunset Road Trip"
+              />
+              <span className="block text-sm font-medium text-gray-300 mb-1">
+                Palette
+              </span>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                {draft.profile.palette.map((color, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => updateColor(index, e.target.value)}
+                      className="w-8 h-8 bg-transparent cursor-pointer"
+                      aria-label={`Palette colour ${index + 1}`}
+                    />
+                    <button
+                      onClick={() =>
+                        updateProfile({
+                          palette: draft.profile.palette.filter(
+                            (_, i) => i !== index,
+                          ),
+                        })
+                      }
+                      className="text-gray-500 hover:text-red-400"
+                      aria-label={`Remove palette colour ${index + 1}`}>
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() =>
+                    updateProfile({
+                      palette: [...draft.profile.palette, '#808080'],
+                    })
+                  }
+                  className="flex items-center gap-1 text-sm text-purple-300 hover:text-purple-200">
+                  <PlusIcon className="w-4 h-4" />
+                  Add colour
+                </button>
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {STYLE_PROFILE_FIELDS.map((field) => (
+                  <div key={field}>
+                    <label
+                      htmlFor={`style-${field}`}
+                      className="block text-sm font-medium text-gray-300 mb-1 capitalize">
+                      {field}
+                    </label>
+                    <input
+                      id={`style-${field}`}
+                      type="text"
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      value={draft.profile[field]}
+                      onChange={(e) => updateProfile({[field]: e.target.value})}
+                      placeholder={FIELD_PLACEHOLDERS[field]}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.name.trim()}
+                  className="flex-1 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                  {draft.id ? 'Update Style' : 'Save to Library'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <h3 className="text-sm font-semibold text-white mb-2">
+                New Style from Reference Images
+              </h3>
+              <div className="flex gap-2 overflow-x-auto pb-1 mb-3">
+                {referenceFiles.map((file, index) => (
+                  <ReferenceThumbnail
+                    key={`${file.name}-${index}`}
+                    file={file}
+                    onRemove={() =>
+                      setReferenceFiles((prev) =>
+                        prev.filter((_, i) => i !== index),
+                      )
+                    }
+                  />
+                ))}
+                <label className="w-20 h-20 flex-shrink-0 rounded-md border border-dashed border-gray-600 hover:border-purple-500 text-xs text-gray-400 flex flex-col items-center justify-center gap-1 cursor-pointer transition-colors">
+                  <PlusIcon className="w-5 h-5" />
+                  Add images
+                  <input
+                    type="file"
+                    multiple
+                    className="sr-only"
+                    accept="image/png, image/jpeg, image/webp"
+                    onChange={(e) => {
+                      handleAddReferences(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleAnalyze}
+                  disabled={referenceFiles.length === 0 || isAnalyzing}
+                  className="flex-1 flex justify-center items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                  <SparklesIcon className="w-5 h-5" />
+                  {isAnalyzing
+                    ? 'Analyzing...'
+                    : `Analyze ${referenceFiles.length || ''} Image${
+                        referenceFiles.length === 1 ? '' : 's'
+                      }`}
+                </button>
+                <button
+                  onClick={() =>
+                    setDraft({name: '', profile: EMPTY_STYLE_PROFILE})
+                  }
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors">
+                  Start from Scratch
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-2">
+              Saved Styles
+            </h3>
+            {styles.length === 0 ? (
+              <p className="text-sm text-gray-400 py-4 text-center">
+                No saved styles yet. Analyze a few reference images to create
+                one.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {styles.map((style) => {
+                  const isApplied = style.id === activeStyleId;
+                  return (
+                    <li
+                      key={style.id}
+                      className={`flex items-center gap-3 p-3 rounded-lg border ${
+                        isApplied
+                          ? 'bg-purple-900/30 border-purple-500'
+                          : 'bg-gray-900/50 border-gray-700'
+                      }`}>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h4 className="font-semibold text-white truncate">
+                            {style.name}
+                          </h4>
+                          <PaletteSwatches palette={style.profile.palette} />
+                        </div>
+                        <p className="text-xs text-gray-400 line-clamp-2">
+                          {styleProfileKeywords(style.profile)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleToggleApply(style)}
+                        className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+                          isApplied
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                        }`}>
+                        {isApplied ? 'Applied' : 'Apply'}
+                      </button>
+                      <button
+                        onClick={() =>
+                          setDraft({
+                            id: style.id,
+                            name: style.name,
+                            profile: style.profile,
+                          })
+                        }
+                        className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                        aria-label={`Edit ${style.name}`}
+                        title="Edit">
+                        <PencilSquareIcon className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(style)}
+                        className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
+                        aria-label={`Delete ${style.name}`}
+                        title="Delete">
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
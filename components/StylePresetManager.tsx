@@ -0,0 +1,422 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {VIDEO_TYPE_LABELS} from '../constants';
+import {StylePreset, StylePresetTarget} from '../types';
+import {trackEvent} from '../utils/analytics';
+import {downloadBlob} from '../utils/files';
+import {
+  ExportedStylePreset,
+  exportStylePresets,
+  parseStylePresets,
+  STYLE_PRESET_TARGETS,
+} from '../utils/stylePresets';
+import {
+  ArrowDownTrayIcon,
+  DocumentDuplicateIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from './icons';
+
+interface StylePresetManagerProps {
+  /** Every preset, built-in and the user's own. */
+  presets: StylePreset[];
+  onSave: (preset: StylePreset) => Promise<void>;
+  onDelete: (id: string) => void;
+  onImport: (presets: ExportedStylePreset[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const NEW_PRESET: StylePreset = {
+  id: '',
+  name: '',
+  description: '',
+  targets: STYLE_PRESET_TARGETS,
+  promptFragment: '',
+  negativeTerms: '',
+};
+
+const presetFileName = (name: string) =>
+  `${name.trim().replace(/[^\w.-]+/g, '-') || 'style'}.json`;
+
+/** Another preset offered by one of the same generators under this name. */
+const findNameClash = (presets: StylePreset[], draft: StylePreset) =>
+  presets.find(
+    (preset) =>
+      preset.id !== draft.id &&
+      preset.name.trim().toLowerCase() === draft.name.trim().toLowerCase() &&
+      preset.targets.some((target) => draft.targets.includes(target)),
+  );
+
+const TargetBadges: React.FC<{targets: StylePresetTarget[]}> = ({targets}) => (
+  <div className="flex flex-wrap gap-1">
+    {targets.map((target) => (
+      <span
+        key={target}
+        className="px-2 py-0.5 rounded-full bg-gray-700 text-[11px] text-gray-300">
+        {VIDEO_TYPE_LABELS[target]}
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * A modal for the user's own style presets: create, edit, duplicate a
+ * built-in style, delete, and share presets as JSON files or text.
+ */
+export const StylePresetManager: React.FC<StylePresetManagerProps> = ({
+  presets,
+  onSave,
+  onDelete,
+  onImport,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const customPresets = presets.filter((preset) => !preset.builtIn);
+  const builtInPresets = presets.filter((preset) => preset.builtIn);
+  const nameClash = draft && findNameClash(presets, draft);
+
+  const update = (patch: Partial<StylePreset>) =>
+    setDraft((prev) => (prev ? {...prev, ...patch} : prev));
+
+  const handleToggleTarget = (target: StylePresetTarget) => {
+    if (!draft) return;
+    update({
+      targets: draft.targets.includes(target)
+        ? draft.targets.filter((t) => t !== target)
+        : STYLE_PRESET_TARGETS.filter(
+            (t) => t === target || draft.targets.includes(t),
+          ),
+    });
+  };
+
+  const handleDuplicate = (preset: StylePreset) => {
+    trackEvent('duplicate_style_preset', {built_in: !!preset.builtIn});
+    setDraft({
+      ...preset,
+      id: '',
+      name: `${preset.name} (Custom)`,
+      builtIn: undefined,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    trackEvent('save_style_preset', {
+      is_update: !!draft.id,
+      target_count: draft.targets.length,
+      has_negative_terms: !!draft.negativeTerms.trim(),
+    });
+    await onSave({
+      ...draft,
+      id: draft.id || crypto.randomUUID(),
+      name: draft.name.trim(),
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (!window.confirm(`Delete the style preset "${preset.name}"?`)) {
+      return;
+    }
+    trackEvent('delete_style_preset');
+    onDelete(preset.id);
+  };
+
+  const handleExport = (toExport: StylePreset[], fileName: string) => {
+    trackEvent('export_style_presets', {preset_count: toExport.length});
+    downloadBlob(
+      new Blob([exportStylePresets(toExport)], {type: 'application/json'}),
+      fileName,
+    );
+  };
+
+  const handleCopy = async (preset: StylePreset) => {
+    trackEvent('share_style_preset');
+    try {
+      await navigator.clipboard.writeText(exportStylePresets([preset]));
+      setMessage(
+        `Copied "${preset.name}" as JSON. Paste it into a file to share it.`,
+      );
+    } catch (e) {
+      console.error('Failed to copy the preset:', e);
+      setMessage('Could not copy the preset. Export it as a file instead.');
+    }
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files || !files[0]) return;
+    const imported = parseStylePresets(await files[0].text());
+    if (!imported) {
+      setMessage(`${files[0].name} is not a style preset file.`);
+      return;
+    }
+    trackEvent('import_style_presets', {preset_count: imported.length});
+    await onImport(imported);
+    setMessage(
+      `Imported ${imported.length} style preset${
+        imported.length === 1 ? '' : 's'
+      }.`,
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="style-preset-manager-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col relative p-6 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close style presets">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <div className="flex flex-wrap items-center gap-2 mb-4 pr-10">
+          <h2
+            id="style-preset-manager-title"
+            className="text-xl font-bold text-white flex-1">
+            Style Presets
+          </h2>
+          <button
+            onClick={() => setDraft(NEW_PRESET)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold transition-colors">
+            <PlusIcon className="w-4 h-4" />
+            New Preset
+          </button>
+          <label className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold transition-colors cursor-pointer">
+            Import JSON
+            <input
+              type="file"
+              className="sr-only"
+              accept=".json,application/json"
+              onChange={(e) => {
+                handleImport(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={() => handleExport(customPresets, 'style-presets.json')}
+            disabled={customPresets.length === 0}
+            className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+            Export All
+          </button>
+        </div>
+        {message && <p className="text-sm text-purple-200 mb-3">{message}</p>}
+        <div className="overflow-y-auto -mx-2 px-2 space-y-6">
+          {draft && (
+            <div className="p-4 bg-gray-900/50 rounded-lg border border-purple-500/40">
+              <div className="grid sm:grid-cols-2 gap-3 mb-3">
+                <div>
+                  <label
+                    htmlFor="preset-name"
+                    className="block text-sm font-medium text-gray-300 mb-1">
+                    Name
+                  </label>
+                  <input
+                    id="preset-name"
+                    type="text"
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    value={draft.name}
+                    onChange={(e) => update({name: e.target.value})}
+                    placeholder="e.g. Retro VHS"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="preset-description"
+                    className="block text-sm font-medium text-gray-300 mb-1">
+                    Description
+                  </label>
+                  <input
+                    id="preset-description"
+                    type="text"
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    value={draft.description}
+                    onChange={(e) => update({description: e.target.value})}
+                    placeholder="Shown when hovering the style"
+                  />
+                </div>
+              </div>
+              <span className="block text-sm font-medium text-gray-300 mb-1">
+                Offered in
+              </span>
+              <div className="flex flex-wrap gap-4 mb-3">
+                {STYLE_PRESET_TARGETS.map((target) => (
+                  <label
+                    key={target}
+                    className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.targets.includes(target)}
+                      onChange={() => handleToggleTarget(target)}
+                      className="accent-purple-500"
+                    />
+                    {VIDEO_TYPE_LABELS[target]}
+                  </label>
+                ))}
+              </div>
+              <label
+                htmlFor="preset-fragment"
+                className="block text-sm font-medium text-gray-300 mb-1">
+                Prompt fragment
+              </label>
+              <textarea
+                id="preset-fragment"
+                rows={3}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 mb-3"
+                value={draft.promptFragment}
+                onChange={(e) => update({promptFragment: e.target.value})}
+                placeholder="e.g. washed-out VHS colours, scan lines, 4:3 camcorder framing"
+              />
+              <label
+                htmlFor="preset-negative"
+                className="block text-sm font-medium text-gray-300 mb-1">
+                Negative terms
+              </label>
+              <input
+                id="preset-negative"
+                type="text"
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                value={draft.negativeTerms}
+                onChange={(e) => update({negativeTerms: e.target.value})}
+                placeholder="e.g. crisp digital look, text, watermarks"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Sent to the video model as a negative prompt for rendered clips.
+                Storyboard frames cannot take one.
+              </p>
+              {nameClash && (
+                <p className="text-sm text-red-400 mt-2">
+                  "{nameClash.name}" is already a style in{' '}
+                  {nameClash.targets
+                    .filter((target) => draft.targets.includes(target))
+                    .map((target) => VIDEO_TYPE_LABELS[target])
+                    .join(', ')}
+                  . Pick another name.
+                </p>
+              )}
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={handleSave}
+                  disabled={
+                    !draft.name.trim() ||
+                    draft.targets.length === 0 ||
+                    !!nameClash
+                  }
+                  className="flex-1 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                  {draft.id ? 'Update Preset' : 'Save Preset'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-2">
+              Your Presets
+            </h3>
+            {customPresets.length === 0 ? (
+              <p className="text-sm text-gray-400 py-4 text-center">
+                No presets yet. Create one, duplicate a built-in style or import
+                a shared preset.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {customPresets.map((preset) => (
+                  <li
+                    key={preset.id}
+                    className="flex items-start gap-3 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                    <div className="min-w-0 flex-1">
+                      <h4 className="font-semibold text-white truncate mb-1">
+                        {preset.name}
+                      </h4>
+                      <TargetBadges targets={preset.targets} />
+                      {preset.promptFragment && (
+                        <p className="text-xs text-gray-400 mt-1 line-clamp-2">
+                          {preset.promptFragment}
+                        </p>
+                      )}
+                      {preset.negativeTerms && (
+                        <p className="text-xs text-gray-500 mt-1 line-clamp-1">
+                          Avoid: {preset.negativeTerms}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setDraft(preset)}
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Edit ${preset.name}`}
+                      title="Edit">
+                      <PencilSquareIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleCopy(preset)}
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Copy ${preset.name} as JSON`}
+                      title="Copy as JSON">
+                      <DocumentDuplicateIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() =>
+                        handleExport([preset], presetFileName(preset.name))
+                      }
+                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Export ${preset.name}`}
+                      title="Export">
+                      <ArrowDownTrayIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(preset)}
+                      className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-full transition-colors"
+                      aria-label={`Delete ${preset.name}`}
+                      title="Delete">
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-white mb-2">
+              Built-in Styles
+            </h3>
+            <ul className="grid sm:grid-cols-2 gap-2">
+              {builtInPresets.map((preset) => (
+                <li
+                  key={preset.id}
+                  className="flex items-center gap-2 p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-white truncate">{preset.name}</p>
+                    <TargetBadges targets={preset.targets} />
+                  </div>
+                  <button
+                    onClick={() => handleDuplicate(preset)}
+                    className="text-xs text-purple-300 font-semibold hover:text-purple-200 transition-colors">
+                    Customize
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {StylePreset, StylePresetTarget} from '../types';
+import {presetsFor} from '../utils/stylePresets';
+import {PencilSquareIcon} from './icons';
+
+interface StylePresetPickerProps {
+  target: StylePresetTarget;
+  /** Every preset, built-in and the user's own. */
+  presets: StylePreset[];
+  /** The name of the picked style. */
+  selected: string;
+  onSelect: (name: string) => void;
+  onManage: () => void;
+  /** Shows the picked style's preview image above the choices. */
+  showPreview?: boolean;
+}
+
+/**
+ * The style choices of a generator: its built-in styles followed by the
+ * user's own presets for it, with a link to the style manager.
+ */
+export const StylePresetPicker: React.FC<StylePresetPickerProps> = ({
+  target,
+  presets,
+  selected,
+  onSelect,
+  onManage,
+  showPreview = false,
+}) => {
+  const choices = presetsFor(presets, target);
+  const selectedPreset = choices.find((preset) => preset.name === selected);
+
+  return (
+    <div>
+      {showPreview && selectedPreset && (
+        <div className="aspect-w-16 aspect-h-9 w-full bg-gray-700 rounded-lg overflow-hidden mb-2">
+          {selectedPreset.imageUrl ? (
+            <img
+              src={selectedPreset.imageUrl}
+              alt={`${selectedPreset.name} style preview`}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
+              <p className="font-semibold text-white">{selectedPreset.name}</p>
+              <p className="text-sm text-gray-400">
+                {selectedPreset.description || selectedPreset.promptFragment}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {choices.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(preset.name)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+              selected === preset.name
+                ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+                : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            } ${preset.builtIn ? '' : 'border border-dashed border-purple-400/60'}`}
+            title={preset.description || preset.promptFragment || undefined}>
+            {preset.name}
+          </button>
+        ))}
+        <button
+          onClick={onManage}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-purple-300 font-semibold hover:bg-purple-500/10 rounded-lg transition-colors">
+          <PencilSquareIcon className="w-4 h-4" />
+          Manage Styles
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ValidationReport} from '../utils/promptSchemas';
+import {InformationCircleIcon} from './icons';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+}
+
+/**
+ * Shows whether a JSON director's prompt matches its generator's schema and,
+ * if not, lists every missing or mistyped field.
+ */
+export const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({
+  report,
+}) => {
+  if (report.parseError) {
+    return (
+      <div className="mt-2 p-3 bg-red-500/10 rounded-lg border border-red-500/40 text-xs text-red-300">
+        <p className="font-semibold">The output is not valid JSON.</p>
+        <p className="font-mono mt-1">{report.parseError}</p>
+      </div>
+    );
+  }
+
+  if (report.issues.length === 0) {
+    return (
+      <p className="mt-2 text-xs text-green-400">
+        All {report.itemCount} item(s) match the expected schema.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/40 text-xs text-yellow-200">
+      <div className="flex items-center gap-2 mb-2">
+        <InformationCircleIcon className="w-4 h-4 flex-shrink-0" />
+        <p className="font-semibold">
+          {report.issues.length} schema problem(s) found
+        </p>
+      </div>
+      <ul className="space-y-1 font-mono max-h-40 overflow-y-auto">
+        {report.issues.map((issue) => (
+          <li key={`${issue.path}-${issue.problem}`}>
+            <span className="text-yellow-100">{issue.path || '(root)'}</span>
+            {' — '}
+            {issue.problem === 'missing'
+              ? `missing (expected ${issue.expected})`
+              : `expected ${issue.expected}, got ${issue.received}`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -14,10 +14,13 @@ interface VideoCardProps {
 /**
  * A component that renders a video card with a thumbnail image that
  * transitions to a playing video on hover. Clicking the card opens the full player.
+ * Cards without a thumbnail show the paused video, and cards without a video
+ * (still frames) keep showing the image.
  */
 export const VideoCard: React.FC<VideoCardProps> = ({video, onPlay}) => {
   const [isHovered, setIsHovered] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const showVideo = !!video.videoUrl && (isHovered || !video.imageUrl);
 
   const handleMouseEnter = () => {
     setIsHovered(true);
@@ -46,26 +49,30 @@ export const VideoCard: React.FC<VideoCardProps> = ({video, onPlay}) => {
       onBlur={handleMouseLeave}
       aria-label={`Play video: ${video.title}`}>
       <div className="w-full h-96">
-        <img
-          src={video.imageUrl}
-          alt={`Static image of ${video.title}`}
-          className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ease-in-out ${
-            isHovered ? 'opacity-0' : 'opacity-100'
-          }`}
-          loading="lazy"
-        />
-        <video
-          ref={videoRef}
-          className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ease-in-out ${
-            isHovered ? 'opacity-100' : 'opacity-0'
-          }`}
-          src={video.videoUrl}
-          muted
-          loop
-          playsInline
-          preload="auto"
-          aria-hidden="true"
-        />
+        {video.imageUrl && (
+          <img
+            src={video.imageUrl}
+            alt={`Static image of ${video.title}`}
+            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ease-in-out ${
+              showVideo ? 'opacity-0' : 'opacity-100'
+            }`}
+            loading="lazy"
+          />
+        )}
+        {video.videoUrl && (
+          <video
+            ref={videoRef}
+            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ease-in-out ${
+              showVideo ? 'opacity-100' : 'opacity-0'
+            }`}
+            src={video.videoUrl}
+            muted
+            loop
+            playsInline
+            preload="auto"
+            aria-hidden="true"
+          />
+        )}
       </div>
 
       <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-black/40">
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {VIDEO_FORMATS, videoAspectRatioFor} from '../services/videoFormat';
+import {VideoFormat} from '../types';
+
+interface VideoFormatSelectorProps {
+  selected: VideoFormat;
+  onSelect: (format: VideoFormat) => void;
+}
+
+/** The size of the frame outline drawn for each format. */
+const FORMAT_ICON_SIZES: Record<VideoFormat, string> = {
+  '16:9': 'w-6 h-[13.5px]',
+  '9:16': 'w-[13.5px] h-6',
+  '1:1': 'w-5 h-5',
+  '4:5': 'w-4 h-5',
+};
+
+/** Picks the frame a project's videos are made for. */
+export const VideoFormatSelector: React.FC<VideoFormatSelectorProps> = ({
+  selected,
+  onSelect,
+}) => (
+  <div className="w-full max-w-2xl mt-4">
+    <p className="block text-sm font-medium text-gray-300 mb-2">
+      Target Format
+    </p>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+      {VIDEO_FORMATS.map(({format, label, platforms}) => (
+        <button
+          key={format}
+          onClick={() => onSelect(format)}
+          className={`flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+            selected === format
+              ? 'bg-purple-600 text-white ring-2 ring-purple-400'
+              : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+          }`}>
+          <span className="w-6 h-6 flex-shrink-0 flex items-center justify-center">
+            <span
+              className={`block border-2 border-current rounded-sm ${FORMAT_ICON_SIZES[format]}`}
+            />
+          </span>
+          <span>
+            <span className="block text-sm font-semibold">
+              {label} {format}
+            </span>
+            <span className="block text-xs opacity-75">{platforms}</span>
+          </span>
+        </button>
+      ))}
+    </div>
+    {videoAspectRatioFor(selected) !== selected && (
+      <p className="text-xs text-gray-500 mt-2">
+        Clips are rendered at {videoAspectRatioFor(selected)} with the action
+        kept inside a {selected} frame; crop them to {selected} when you post
+        them.
+      </p>
+    )}
+  </div>
+);
@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, {useState} from 'react';
 import {Video} from '../types';
 import {PencilSquareIcon, XMarkIcon} from './icons';
 
@@ -10,16 +10,25 @@ interface VideoPlayerProps {
   video: Video;
   onClose: () => void;
   onEdit?: (video: Video) => void;
+  /** The videos this one was remixed from, nearest first. */
+  lineage?: Video[];
+  onSelectVideo?: (video: Video) => void;
 }
 
 /**
  * A component that renders a video player with controls, description, and edit button.
+ * Remixes also list the videos they were made from, each of which can be played.
+ * Vertical clips, e.g. Shorts, get a narrower, taller player.
  */
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   video,
   onClose,
   onEdit,
+  lineage = [],
+  onSelectVideo,
 }) => {
+  const [isPortrait, setIsPortrait] = useState(false);
+
   return (
     <div
       className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center animate-fade-in"
@@ -27,7 +36,9 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       aria-modal="true"
       role="dialog">
       <div
-        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl relative overflow-hidden flex flex-col max-h-[90vh]"
+        className={`bg-gray-800 rounded-lg shadow-2xl w-full ${
+          isPortrait ? 'max-w-sm' : 'max-w-4xl'
+        } relative overflow-hidden flex flex-col max-h-[90vh]`}
         onClick={(e) => e.stopPropagation()}>
         <div className="flex-shrink-0 p-2 sm:p-4">
           <button
@@ -36,19 +47,60 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
             aria-label="Close video player">
             <XMarkIcon className="w-6 h-6 sm:w-8 sm:h-8" />
           </button>
-          <div className="aspect-w-16 aspect-h-9 bg-black rounded-md overflow-hidden">
-            <video
-              key={video.id}
-              className="w-full h-full"
-              src={video.videoUrl}
-              controls
-              autoPlay
-              loop
-              aria-label={video.title}
-            />
+          <div
+            className={`${
+              isPortrait
+                ? 'aspect-9/16 max-h-[65vh] w-full'
+                : 'aspect-w-16 aspect-h-9'
+            } bg-black rounded-md overflow-hidden`}>
+            {video.videoUrl ? (
+              <video
+                key={video.id}
+                className="w-full h-full"
+                src={video.videoUrl}
+                controls
+                autoPlay
+                loop
+                aria-label={video.title}
+                onLoadedMetadata={(e) =>
+                  setIsPortrait(
+                    e.currentTarget.videoHeight > e.currentTarget.videoWidth,
+                  )
+                }
+              />
+            ) : (
+              // Still frames from My Creations have no clip.
+              <img
+                src={video.imageUrl}
+                alt={video.title}
+                className="w-full h-full object-contain"
+                onLoad={(e) =>
+                  setIsPortrait(
+                    e.currentTarget.naturalHeight >
+                      e.currentTarget.naturalWidth,
+                  )
+                }
+              />
+            )}
           </div>
         </div>
         <div className="flex-1 p-4 pt-2 overflow-y-auto">
+          {lineage.length > 0 && (
+            <p className="text-xs text-gray-400 mb-2">
+              Remix of{' '}
+              {lineage.map((ancestor, index) => (
+                <React.Fragment key={ancestor.id}>
+                  {index > 0 && ', from '}
+                  <button
+                    onClick={() => onSelectVideo?.(ancestor)}
+                    disabled={!onSelectVideo}
+                    className="font-semibold text-purple-300 hover:text-purple-200 disabled:text-gray-300 transition-colors">
+                    {ancestor.title}
+                  </button>
+                </React.Fragment>
+              ))}
+            </p>
+          )}
           <div className="flex justify-between items-start gap-4">
             <p className="text-sm text-gray-400 mt-0 whitespace-pre-wrap flex-1">
               {video.description}
@@ -2,9 +2,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState} from 'react';
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  CostEstimate,
+  CostEstimateRequest,
+  RunCostReport,
+} from '../services/costEstimation';
+import {CallOptions} from '../services/generationProvider';
+import {VISUAL_STYLES} from '../constants';
+import {IntroFormState, StylePreset} from '../types';
 import {trackEvent} from '../utils/analytics';
+import {useCancellableRun} from '../utils/useCancellableRun';
+import {CancelButton} from './CancelButton';
+import {CostEstimator} from './CostEstimator';
 import {SparklesIcon} from './icons';
+import {StylePresetPicker} from './StylePresetPicker';
 
 type PromptFormat = 'classic' | 'json';
 
@@ -16,35 +28,69 @@ interface YouTubeIntroGeneratorProps {
     energy: string,
     specificElements: string,
     promptFormat: PromptFormat,
+    options?: CallOptions,
   ) => Promise<string>;
+  /** Set to generate once with the current inputs, e.g. from the history. */
+  rerunRequested: boolean;
+  onRerunHandled: () => void;
   onPromptGenerated: (prompt: string) => void;
+  form: IntroFormState;
+  onFormChange: (form: IntroFormState) => void;
+  onEstimateCost: (request: CostEstimateRequest) => Promise<CostEstimate>;
+  costReport: RunCostReport | null;
+  /** Every style preset, built-in and the user's own. */
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
 }
 
-const VISUAL_STYLES = [
-  'Clean & Minimalist',
-  'Gaming / Neon',
-  'Vlog / Cinematic',
-  'Corporate / Professional',
-  'Grunge / Energetic',
-];
-
 const ENERGY_LEVELS = ['High-Energy & Fast', 'Calm & Relaxing', 'Modern & Upbeat'];
 
+export const DEFAULT_INTRO_FORM: IntroFormState = {
+  channelName: '',
+  videoTopic: '',
+  visualStyle: VISUAL_STYLES[0],
+  energy: ENERGY_LEVELS[0],
+  specificElements:
+    'My channel logo, my social media handles (@YourHandle), a subscribe button.',
+  promptFormat: 'classic',
+};
+
 export const YouTubeIntroGenerator: React.FC<YouTubeIntroGeneratorProps> = ({
   onGenerateYouTubeIntroPrompt,
+  rerunRequested,
+  onRerunHandled,
   onPromptGenerated,
+  form,
+  onFormChange,
+  onEstimateCost,
+  costReport,
+  stylePresets,
+  onManageStyles,
 }) => {
-  const [channelName, setChannelName] = useState('');
-  const [videoTopic, setVideoTopic] = useState('');
-  const [visualStyle, setVisualStyle] = useState(VISUAL_STYLES[0]);
-  const [energy, setEnergy] = useState(ENERGY_LEVELS[0]);
-  const [specificElements, setSpecificElements] = useState(
-    'My channel logo, my social media handles (@YourHandle), a subscribe button.',
-  );
+  const {
+    channelName,
+    videoTopic,
+    visualStyle,
+    energy,
+    specificElements,
+    promptFormat,
+  } = form;
   const [isGenerating, setIsGenerating] = useState(false);
-  const [promptFormat, setPromptFormat] = useState<PromptFormat>('classic');
+  const run = useCancellableRun();
+
+  const update = (patch: Partial<IntroFormState>) =>
+    onFormChange({...form, ...patch});
+  const setChannelName = (channelName: string) => update({channelName});
+  const setVideoTopic = (videoTopic: string) => update({videoTopic});
+  const setVisualStyle = (visualStyle: string) => update({visualStyle});
+  const setEnergy = (energy: string) => update({energy});
+  const setSpecificElements = (specificElements: string) =>
+    update({specificElements});
+  const setPromptFormat = (promptFormat: PromptFormat) =>
+    update({promptFormat});
 
   const handleGenerate = async () => {
+    const signal = run.start();
     setIsGenerating(true);
     onPromptGenerated('');
     trackEvent('generate_youtube_intro_prompt', {
@@ -60,17 +106,62 @@ export const YouTubeIntroGenerator: React.FC<YouTubeIntroGeneratorProps> = ({
         energy,
         specificElements,
         promptFormat,
+        {signal},
       );
+      if (signal.aborted) return;
       onPromptGenerated(prompt);
     } catch (error) {
-      console.error('Failed to generate YouTube intro prompt', error);
+      if (!signal.aborted) {
+        console.error('Failed to generate YouTube intro prompt', error);
+      }
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) {
+        setIsGenerating(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    run.cancel();
+    setIsGenerating(false);
+    trackEvent('cancel_generation', {video_type: 'introOutro'});
+  };
+
+  useEffect(() => {
+    if (rerunRequested) {
+      onRerunHandled();
+      handleGenerate();
+    }
+  }, [rerunRequested]);
+
   const canGenerate = channelName.trim() !== '' && videoTopic.trim() !== '';
 
+  const costRequest = useMemo<CostEstimateRequest | null>(
+    () =>
+      canGenerate
+        ? {
+            videoType: 'introOutro',
+            request: {
+              channelName,
+              videoTopic,
+              visualStyle,
+              energy,
+              specificElements,
+              promptFormat,
+            },
+          }
+        : null,
+    [
+      canGenerate,
+      channelName,
+      videoTopic,
+      visualStyle,
+      energy,
+      specificElements,
+      promptFormat,
+    ],
+  );
+
   return (
     <>
       <div className="mb-6">
@@ -112,20 +203,13 @@ export const YouTubeIntroGenerator: React.FC<YouTubeIntroGeneratorProps> = ({
           <label className="block text-sm font-medium text-gray-300 mb-2">
             3. Select Visual Style
           </label>
-          <div className="flex flex-wrap gap-2">
-            {VISUAL_STYLES.map((style) => (
-              <button
-                key={style}
-                onClick={() => setVisualStyle(style)}
-                className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors w-full text-left ${
-                  visualStyle === style
-                    ? 'bg-purple-600 text-white ring-2 ring-purple-400'
-                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-                }`}>
-                {style}
-              </button>
-            ))}
-          </div>
+          <StylePresetPicker
+            target="introOutro"
+            presets={stylePresets}
+            selected={visualStyle}
+            onSelect={setVisualStyle}
+            onManage={onManageStyles}
+          />
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -210,6 +294,12 @@ export const YouTubeIntroGenerator: React.FC<YouTubeIntroGeneratorProps> = ({
             </>
           )}
         </button>
+        {isGenerating && <CancelButton onCancel={handleCancel} />}
+        <CostEstimator
+          request={costRequest}
+          onEstimateCost={onEstimateCost}
+          report={costReport}
+        />
       </div>
     </>
   );
@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {Video} from './types';
+import {StylePreset, Video, VideoType} from './types';
 
 /** Base URL for static files. */
 const staticFilesUrl =
@@ -59,3 +59,114 @@ export const GALLERY_ITEMS: Video[] = [
     videoUrl: staticFilesUrl + 'Live_Performance_Soulful_Singer_s_Ballad.mp4',
   },
 ];
+
+/** The base styles a storyboard or music video can be rendered in. */
+export const CINEMATIC_STYLES = [
+  {
+    name: 'No Style',
+    description: 'Relies on the reference image or scene descriptions.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-cinematic.jpg',
+  },
+  {
+    name: 'Cinematic',
+    description: 'Photorealistic, dramatic lighting, high contrast.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-cinematic.jpg',
+  },
+  {
+    name: 'Noir Thriller',
+    description: 'Black and white, high contrast, shadows, mysterious mood.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-noir.jpg',
+  },
+  {
+    name: 'Epic Fantasy',
+    description:
+      'Grandiose landscapes, magical elements, rich, vibrant colors.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-fantasy.jpg',
+  },
+  {
+    name: 'Sci-Fi Dystopian',
+    description:
+      'Futuristic, gritty, neon lights against dark backgrounds, cool color palette.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-scifi.jpg',
+  },
+  {
+    name: 'Pixar Animation',
+    description:
+      'Warm, colorful, soft lighting, friendly character design, 3D rendered look.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-pixar.jpg',
+  },
+  {
+    name: 'Studio Ghibli',
+    description:
+      'Hand-drawn anime style, lush natural backgrounds, watercolor aesthetic, whimsical feel.',
+    imageUrl:
+      'https://storage.googleapis.com/aistudio-hosting/story-workshop/style-ghibli.jpg',
+  },
+];
+
+/** Display names of the video types, for lists of projects and generations. */
+export const VIDEO_TYPE_LABELS: Record<VideoType, string> = {
+  storyboard: 'Cinematic Storyboard',
+  logo: 'Logo Animation',
+  introOutro: 'YouTube Intro/Outro',
+  explainer: 'Explainer Video',
+  musicVideo: 'Music Video',
+  cashCow: 'Cash Cow Content',
+};
+
+/** The animation styles of the Logo Animation generator. */
+export const ANIMATION_STYLES = [
+  'Simple Fade',
+  'Dynamic Pop',
+  'Glitch Reveal',
+  'Elegant Rise',
+  'Liquid Morph',
+  '3D Spin',
+];
+
+/** The visual styles of the YouTube Intro/Outro generator. */
+export const VISUAL_STYLES = [
+  'Clean & Minimalist',
+  'Gaming / Neon',
+  'Vlog / Cinematic',
+  'Corporate / Professional',
+  'Grunge / Energetic',
+];
+
+/** The styles every generator's style picker offers before the user's own. */
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  ...CINEMATIC_STYLES.map(({name, description, imageUrl}) => ({
+    id: `built-in-storyboard-${name}`,
+    name,
+    description,
+    targets: ['storyboard' as const],
+    promptFragment: '',
+    negativeTerms: '',
+    imageUrl,
+    builtIn: true,
+  })),
+  ...ANIMATION_STYLES.map((name) => ({
+    id: `built-in-logo-${name}`,
+    name,
+    description: '',
+    targets: ['logo' as const],
+    promptFragment: '',
+    negativeTerms: '',
+    builtIn: true,
+  })),
+  ...VISUAL_STYLES.map((name) => ({
+    id: `built-in-introOutro-${name}`,
+    name,
+    description: '',
+    targets: ['introOutro' as const],
+    promptFragment: '',
+    negativeTerms: '',
+    builtIn: true,
+  })),
+];
@@ -7,6 +7,8 @@ import '@tailwindcss/browser';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import {App} from './App';
+import {USE_MOCK_PROVIDER} from './services/config';
+import {createMockProvider} from './services/mockProvider';
 import './utils/analytics';
 
 const rootElement = document.getElementById('root');
@@ -17,6 +19,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App provider={USE_MOCK_PROVIDER ? createMockProvider() : undefined} />
   </React.StrictMode>,
 );
\ No newline at end of file
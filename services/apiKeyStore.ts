@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {StoredApiKey} from '../types';
+import {decryptText, encryptText} from '../utils/crypto';
+import {withStore} from './db';
+
+/** Lists the saved API keys, oldest first. Their keys stay encrypted. */
+export const listApiKeys = async (): Promise<StoredApiKey[]> => {
+  const keys = await withStore<StoredApiKey[]>('apiKeys', 'readonly', (store) =>
+    store.getAll(),
+  );
+  return keys.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveApiKey = async (key: StoredApiKey): Promise<void> => {
+  await withStore('apiKeys', 'readwrite', (store) => store.put(key));
+};
+
+export const deleteApiKey = async (id: string): Promise<void> => {
+  await withStore('apiKeys', 'readwrite', (store) => store.delete(id));
+};
+
+/** Encrypts `apiKey` with `passphrase` into a new key ready to be saved. */
+export const encryptApiKey = async (
+  label: string,
+  apiKey: string,
+  passphrase: string,
+): Promise<StoredApiKey> => ({
+  id: crypto.randomUUID(),
+  label,
+  createdAt: Date.now(),
+  hint: apiKey.slice(-4),
+  encryptedKey: await encryptText(apiKey, passphrase),
+});
+
+/** Decrypts a saved key; rejects if the passphrase is wrong. */
+export const unlockApiKey = (
+  key: StoredApiKey,
+  passphrase: string,
+): Promise<string> => decryptText(key.encryptedKey, passphrase);
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageSettings, StyleProfile} from '../types';
+import {parseCashCowBeats} from '../utils/cashCow';
+import {styleProfileKeywords} from '../utils/styleProfile';
+import {
+  CallOptions,
+  CashCowScriptRequest,
+  GenerationProvider,
+} from './generationProvider';
+import {GenerationError} from './errors';
+import {DEFAULT_IMAGE_SETTINGS, imageRequest} from './imageSettings';
+import {DEFAULT_VIDEO_FORMAT, imageAspectRatioFor} from './videoFormat';
+
+export interface CashCowResult {
+  /** The beats as a JSON array, used as the video's master prompt. */
+  script: string;
+  /** One base64 b-roll preview per beat; null where rendering failed. */
+  sceneImages: (string | null)[];
+}
+
+/**
+ * Writes the narration script of a faceless video and renders a b-roll
+ * preview frame for every beat, in the saved style if one is given. The
+ * previews have no variant picker, so one image is rendered per beat.
+ */
+export async function generateCashCowVideo(
+  provider: GenerationProvider,
+  request: CashCowScriptRequest,
+  styleProfile: StyleProfile | null = null,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  {signal}: CallOptions = {},
+): Promise<CashCowResult> {
+  const script = await provider.generateCashCowScript(request, {signal});
+  const beats = parseCashCowBeats(script);
+  if (!beats) {
+    throw new GenerationError(
+      'invalidOutput',
+      'The script is not a list of beats.',
+    );
+  }
+
+  const imageResults = await Promise.allSettled(
+    beats.map((beat) =>
+      provider.generateImages(
+        imageRequest(
+          styleProfile
+            ? `${styleProfileKeywords(styleProfile)}, ${beat.generation_prompt}`
+            : beat.generation_prompt,
+          imageSettings,
+          imageAspectRatioFor(
+            request.videoFormat ?? DEFAULT_VIDEO_FORMAT,
+            '16:9',
+          ),
+          1,
+        ),
+        {signal},
+      ),
+    ),
+  );
+  signal?.throwIfAborted();
+  const sceneImages = imageResults.map((result) => {
+    if (result.status === 'fulfilled') {
+      return result.value[0];
+    }
+    console.error('Failed to generate b-roll frame:', result.reason);
+    return null;
+  });
+
+  return {script, sceneImages};
+}
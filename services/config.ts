@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Configuration shared by every generation provider: which models to call,
+ * how to reach the API and how failed calls are retried.
+ */
+export interface GenerationConfig {
+  apiKey?: string;
+  /** Overrides the API endpoint, e.g. `http://localhost:8080` for a fake server. */
+  baseUrl?: string;
+  /**
+   * Calls Vertex AI in express mode, with a Vertex AI API key, instead of the
+   * Gemini API. Only Vertex AI takes a seed for images.
+   */
+  vertexai?: boolean;
+  models: {
+    /** Gemini model used for prompt writing and style analysis. */
+    text: string;
+    /** Imagen model used for storyboard frames. */
+    image: string;
+    /** Veo model used for video clips. */
+    video: string;
+  };
+  /** How calls that fail with a transient error are retried. */
+  retry: {
+    /** Total attempts per call, including the first one. */
+    maxAttempts: number;
+    /** Delay before the first retry; it doubles with every further retry. */
+    baseDelayMs: number;
+    /** Upper bound of the delay between attempts. */
+    maxDelayMs: number;
+  };
+}
+
+/**
+ * Whether the app runs on the mock provider instead of the Gemini API, to try
+ * the UI without a key or network calls. Baked in from `GENAI_MOCK=true`.
+ */
+export const USE_MOCK_PROVIDER = process.env.GENAI_MOCK === 'true';
+
+/** Length of a Veo clip when no duration is requested, used for billing. */
+export const VIDEO_CLIP_SECONDS = 8;
+
+/**
+ * The default configuration. The API key, endpoint and backend are baked in
+ * at build time by vite.config.ts from `GEMINI_API_KEY`, `GENAI_BASE_URL` and
+ * `GENAI_USE_VERTEXAI`.
+ */
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  apiKey: process.env.API_KEY,
+  baseUrl: process.env.GENAI_BASE_URL || undefined,
+  vertexai: process.env.GENAI_USE_VERTEXAI === 'true',
+  models: {
+    text: 'gemini-2.5-flash',
+    image: 'imagen-3.0-generate-002',
+    video: 'veo-2.0-generate-001',
+  },
+  retry: {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 16000,
+  },
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CastMember, StyleProfile, VideoFormat} from '../types';
+import {findCastInScene} from '../utils/cast';
+import {VIDEO_CLIP_SECONDS} from './config';
+import {
+  GenerationProvider,
+  LogoPromptRequest,
+  PromptFormat,
+  YouTubeIntroPromptRequest,
+} from './generationProvider';
+import {EMPTY_USAGE, Usage, addUsage} from './usage';
+
+/** The inputs of a prompt-writing run whose cost should be estimated. */
+export type CostEstimateRequest =
+  | {
+      videoType: 'storyboard';
+      scenes: string[];
+      imageFile: File | null;
+      promptFormat: PromptFormat;
+      cast: CastMember[];
+      /** Frames that are reused rather than rendered again. */
+      keptFrameCount: number;
+      /** A saved style, used instead of analyzing the reference image. */
+      styleProfile?: StyleProfile | null;
+      /** How many variants of each frame are rendered; 1 if not given. */
+      variantCount?: number;
+      videoFormat?: VideoFormat;
+    }
+  | {videoType: 'logo'; request: LogoPromptRequest}
+  | {videoType: 'introOutro'; request: YouTubeIntroPromptRequest};
+
+/** One step of a run, e.g. the style analysis or the scene frames. */
+export interface CostLine {
+  label: string;
+  usage: Usage;
+}
+
+export interface CostEstimate {
+  /** The calls made when the prompts are generated. */
+  lines: CostLine[];
+  total: Usage;
+  /** Rendering every shot of the result with Veo, which is a separate step. */
+  rendering: CostLine;
+}
+
+/**
+ * Gemini bills an image of up to 384x384 pixels as 258 tokens. Frames that
+ * have not been rendered yet are counted at this rate; larger images are tiled
+ * and cost more, which shows up in the actual usage after the run.
+ */
+const IMAGE_INPUT_TOKENS = 258;
+
+/**
+ * Output length cannot be counted in advance, so it is estimated per shot
+ * from typical responses. JSON shots carry many more fields.
+ */
+const OUTPUT_TOKENS_PER_SHOT: Record<PromptFormat, number> = {
+  classic: 250,
+  json: 450,
+};
+/** The style analysis returns a short style profile. */
+const STYLE_ANALYSIS_OUTPUT_TOKENS = 120;
+/** The logo and intro instructions ask for three or four segments. */
+const SEGMENTS_PER_PROMPT = 4;
+
+const DIRECTORS_PROMPT = "Director's prompt";
+
+const textUsage = (
+  textInputTokens: number,
+  textOutputTokens: number,
+): Usage => ({...EMPTY_USAGE, textInputTokens, textOutputTokens});
+
+const renderingLine = (shots: number): CostLine => ({
+  label: `Rendering ${shots} shot${shots === 1 ? '' : 's'} (${VIDEO_CLIP_SECONDS}s each)`,
+  usage: {...EMPTY_USAGE, videoSeconds: shots * VIDEO_CLIP_SECONDS},
+});
+
+const toEstimate = (lines: CostLine[], shots: number): CostEstimate => ({
+  lines,
+  total: lines.reduce(
+    (total, line) => addUsage(total, line.usage),
+    EMPTY_USAGE,
+  ),
+  rendering: renderingLine(shots),
+});
+
+/**
+ * Estimates the usage of a prompt-writing run. Input tokens are counted by the
+ * model on the exact parts and system instructions that would be sent; image
+ * and video counts follow from the inputs; output tokens are estimated.
+ */
+export async function estimateCost(
+  provider: GenerationProvider,
+  request: CostEstimateRequest,
+): Promise<CostEstimate> {
+  if (request.videoType !== 'storyboard') {
+    const inputTokens = await provider.countTokens(
+      request.videoType === 'logo'
+        ? {kind: 'logo', request: request.request}
+        : {kind: 'introOutro', request: request.request},
+    );
+    const outputTokens =
+      OUTPUT_TOKENS_PER_SHOT[request.request.promptFormat] *
+      SEGMENTS_PER_PROMPT;
+    return toEstimate(
+      [{label: DIRECTORS_PROMPT, usage: textUsage(inputTokens, outputTokens)}],
+      SEGMENTS_PER_PROMPT,
+    );
+  }
+
+  const {
+    scenes,
+    imageFile,
+    promptFormat,
+    cast,
+    keptFrameCount,
+    styleProfile,
+    variantCount = 1,
+    videoFormat,
+  } = request;
+  const nonEmptyScenes = scenes.filter((scene) => scene.trim());
+  const lines: CostLine[] = [];
+
+  if (imageFile && !styleProfile) {
+    lines.push({
+      label: 'Style analysis',
+      usage: textUsage(
+        await provider.countTokens({
+          kind: 'styleAnalysis',
+          imageFiles: [imageFile],
+        }),
+        STYLE_ANALYSIS_OUTPUT_TOKENS,
+      ),
+    });
+  }
+
+  const framesToRender = Math.max(0, nonEmptyScenes.length - keptFrameCount);
+  if (framesToRender > 0) {
+    lines.push({
+      label: 'Scene frames',
+      usage: {...EMPTY_USAGE, images: framesToRender * variantCount},
+    });
+  }
+
+  if (nonEmptyScenes.length > 0) {
+    // The frames do not exist yet, so the scenes are counted without them and
+    // the frames are added at the per-image rate.
+    const promptScenes = nonEmptyScenes.map((scene) => ({
+      description: scene.trim(),
+      image: null,
+      cast: findCastInScene(cast, scene).map((member) => member.name.trim()),
+    }));
+    const inputTokens = await provider.countTokens({
+      kind: 'storyboard',
+      request: {
+        scenes: promptScenes,
+        cast: cast.filter((member) =>
+          nonEmptyScenes.some(
+            (scene) => findCastInScene([member], scene).length > 0,
+          ),
+        ),
+        styleGuide: '',
+        promptFormat,
+        videoFormat,
+      },
+    });
+    lines.push({
+      label: DIRECTORS_PROMPT,
+      usage: textUsage(
+        inputTokens + nonEmptyScenes.length * IMAGE_INPUT_TOKENS,
+        nonEmptyScenes.length * OUTPUT_TOKENS_PER_SHOT[promptFormat],
+      ),
+    });
+  }
+
+  return toEstimate(lines, nonEmptyScenes.length);
+}
+
+/** The estimated and the actual usage of a finished run. */
+export interface RunCostReport {
+  videoType: CostEstimateRequest['videoType'];
+  /** Null if the estimate could not be made. */
+  estimated: Usage | null;
+  actual: Usage;
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Creation} from '../types';
+import {withStore} from './db';
+
+/** Lists the user's creations, newest first. */
+export const listCreations = async (): Promise<Creation[]> => {
+  const creations = await withStore<Creation[]>(
+    'creations',
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return creations.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveCreation = async (creation: Creation): Promise<void> => {
+  await withStore('creations', 'readwrite', (store) => store.put(creation));
+};
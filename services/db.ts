@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'cinegen';
+const DB_VERSION = 6;
+
+/** The object stores in the app's IndexedDB database. */
+export type StoreName =
+  'projects' | 'history' | 'creations' | 'styles' | 'stylePresets' | 'apiKeys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('projects')) {
+        db.createObjectStore('projects', {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains('history')) {
+        db.createObjectStore('history', {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains('creations')) {
+        db.createObjectStore('creations', {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains('styles')) {
+        db.createObjectStore('styles', {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains('stylePresets')) {
+        db.createObjectStore('stylePresets', {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains('apiKeys')) {
+        db.createObjectStore('apiKeys', {keyPath: 'id'});
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result
+ * once the transaction has completed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Why a model call failed, grouped by what the user can do about it. */
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalidOutput'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+/** A failed generation, classified so the UI can explain it. */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  /** The storyboard scene the failure is about, by index, if known. */
+  readonly sceneIndex?: number;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    {cause, sceneIndex}: {cause?: unknown; sceneIndex?: number} = {},
+  ) {
+    super(message, {cause});
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.sceneIndex = sceneIndex;
+  }
+}
+
+/** Kinds that may succeed when the call is simply tried again. */
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['quota', 'network', 'timeout'];
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as {status?: unknown} | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const kindOf = (error: unknown): GenerationErrorKind => {
+  const status = statusOf(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    status === 401 ||
+    status === 403 ||
+    /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(
+      message,
+    )
+  ) {
+    return 'auth';
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return 'quota';
+  }
+  if (
+    status === 408 ||
+    status === 504 ||
+    /DEADLINE_EXCEEDED|timed out/i.test(message)
+  ) {
+    return 'timeout';
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    /UNAVAILABLE|overloaded|failed to fetch|fetch failed|network/i.test(message)
+  ) {
+    return 'network';
+  }
+  return 'unknown';
+};
+
+/**
+ * Classifies any error thrown by a model call. Errors that are already
+ * classified are returned as they are.
+ */
+export const classifyError = (error: unknown): GenerationError =>
+  error instanceof GenerationError
+    ? error
+    : new GenerationError(
+        kindOf(error),
+        error instanceof Error ? error.message : String(error),
+        {cause: error},
+      );
+
+/** Whether retrying the call that threw `error` may succeed. */
+export const isTransientError = (error: unknown): boolean =>
+  TRANSIENT_KINDS.includes(classifyError(error).kind);
+
+/** The same error, recorded as being about one storyboard scene. */
+export const forScene = (
+  error: GenerationError,
+  sceneIndex: number,
+): GenerationError =>
+  new GenerationError(error.kind, error.message, {
+    cause: error.cause,
+    sceneIndex,
+  });
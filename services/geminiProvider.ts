@@ -0,0 +1,771 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  FinishReason,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  Part,
+  Schema,
+  Type,
+} from '@google/genai';
+import {StyleProfile, VideoFormat} from '../types';
+import {formatTimecode} from '../utils/audioAnalysis';
+import {parseExplainerShots} from '../utils/explainer';
+import {fileToBase64, imageMimeType} from '../utils/files';
+import {
+  getResponseSchema,
+  PromptSchemaKind,
+  stripJsonFences,
+  validatePromptJson,
+} from '../utils/promptSchemas';
+import {formatStyleProfile, parseStyleProfile} from '../utils/styleProfile';
+import {
+  DEFAULT_GENERATION_CONFIG,
+  GenerationConfig,
+  VIDEO_CLIP_SECONDS,
+} from './config';
+import {classifyError, GenerationError} from './errors';
+import {
+  CashCowScriptRequest,
+  ExplainerPromptRequest,
+  GenerationProvider,
+  LogoPromptRequest,
+  MusicVideoScenesRequest,
+  SceneRewriteRequest,
+  StoryboardPromptRequest,
+  YouTubeIntroPromptRequest,
+} from './generationProvider';
+import {withRetry} from './retry';
+import {
+  CASH_COW_JSON_SYSTEM_INSTRUCTION,
+  EXPLAINER_CLASSIC_SYSTEM_INSTRUCTION,
+  EXPLAINER_JSON_SYSTEM_INSTRUCTION,
+  FRAMING_INSTRUCTIONS,
+  INTRO_CLASSIC_SYSTEM_INSTRUCTION,
+  INTRO_JSON_SYSTEM_INSTRUCTION,
+  LOGO_CLASSIC_SYSTEM_INSTRUCTION,
+  LOGO_JSON_SYSTEM_INSTRUCTION,
+  MUSIC_VIDEO_SCENES_SYSTEM_INSTRUCTION,
+  SCENE_REWRITE_SYSTEM_INSTRUCTION,
+  STORYBOARD_CLASSIC_SYSTEM_INSTRUCTION,
+  STORYBOARD_JSON_SYSTEM_INSTRUCTION,
+  STYLE_ANALYSIS_PROMPT,
+} from './systemInstructions';
+import {UsageMeter} from './usage';
+import {
+  createVideoGenerationClient,
+  generateVideo,
+  VideoGenerationClient,
+} from './videoGeneration';
+
+/**
+ * Builds the structured-output config for a JSON prompt request so the model
+ * is constrained to the given schema.
+ */
+const jsonOutputConfig = (responseSchema: Schema) => ({
+  responseMimeType: 'application/json',
+  responseSchema,
+});
+
+/**
+ * Pretty-prints a JSON prompt response and logs any schema violations. The
+ * text is returned as-is (minus code fences) if it cannot be parsed, so the
+ * UI can show the user exactly what is wrong with it.
+ */
+function formatJsonPrompt(kind: PromptSchemaKind, text: string): string {
+  const report = validatePromptJson(kind, text);
+  if (report.parseError) {
+    console.error('AI response is not valid JSON:', report.parseError);
+    return stripJsonFences(text);
+  }
+  if (report.issues.length > 0) {
+    console.warn('AI response does not match the schema:', report.issues);
+  }
+  return JSON.stringify(JSON.parse(stripJsonFences(text)), null, 2);
+}
+
+/** Finish reasons that mean the output was withheld by a safety filter. */
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/** Throws if the request was refused or its output withheld. */
+const checkTextResponse = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError(
+      'safety',
+      `The request was blocked by the safety filters (${blockReason}).`,
+    );
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError(
+      'safety',
+      `The response was withheld by the safety filters (${finishReason}).`,
+    );
+  }
+};
+
+/** The parts and instructions of a single prompt-writing call. */
+interface PromptPayload {
+  parts: Part[];
+  systemInstruction?: string;
+  /** Constrains the output to this JSON schema. */
+  responseSchema?: Schema;
+}
+
+const STYLE_PROFILE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    palette: {type: Type.ARRAY, items: {type: Type.STRING}},
+    lighting: {type: Type.STRING},
+    lens: {type: Type.STRING},
+    texture: {type: Type.STRING},
+    era: {type: Type.STRING},
+    mood: {type: Type.STRING},
+  },
+  required: ['palette', 'lighting', 'lens', 'texture', 'era', 'mood'],
+};
+
+const styleAnalysisPayload = async (
+  imageFiles: File[],
+): Promise<PromptPayload> => ({
+  parts: [
+    {text: STYLE_ANALYSIS_PROMPT},
+    ...(await Promise.all(
+      imageFiles.map(async (imageFile) => ({
+        inlineData: {
+          mimeType: imageFile.type,
+          data: await fileToBase64(imageFile),
+        },
+      })),
+    )),
+  ],
+  responseSchema: STYLE_PROFILE_SCHEMA,
+});
+
+/** Adds the composition guidance of a non-landscape format to an instruction. */
+const withFraming = (systemInstruction: string, videoFormat?: VideoFormat) =>
+  videoFormat && videoFormat !== '16:9'
+    ? `${systemInstruction}\n\n${FRAMING_INSTRUCTIONS[videoFormat]}`
+    : systemInstruction;
+
+/** The saved style a prompt should follow, as an indented spec line. */
+const styleProfileLine = (styleProfile?: StyleProfile | null) =>
+  styleProfile
+    ? `- Style Profile (follow it closely):\n${formatStyleProfile(styleProfile)
+        .split('\n')
+        .map((line) => `        ${line}`)
+        .join('\n')}`
+    : '';
+
+const logoPromptPayload = async ({
+  logoFile,
+  animationStyle,
+  background,
+  sfx,
+  tagline,
+  promptFormat,
+  styleProfile,
+  videoFormat,
+}: LogoPromptRequest): Promise<PromptPayload> => {
+  const promptText = `
+      Create a logo animation prompt series based on these details:
+      - Animation Style: ${animationStyle}
+      - Background Description: ${background}
+      - Sound Effects (SFX) Description: ${sfx}
+      - Tagline (optional): ${tagline || 'None'}
+      - Output Format: ${promptFormat}
+      ${styleProfileLine(styleProfile)}
+    `;
+  const parts: Part[] = [
+    {text: promptText},
+    {
+      inlineData: {
+        mimeType: logoFile.type,
+        data: await fileToBase64(logoFile),
+      },
+    },
+  ];
+  return promptFormat === 'json'
+    ? {
+        parts,
+        systemInstruction: withFraming(
+          LOGO_JSON_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+        responseSchema: getResponseSchema('logo'),
+      }
+    : {
+        parts,
+        systemInstruction: withFraming(
+          LOGO_CLASSIC_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+      };
+};
+
+const introPromptPayload = ({
+  channelName,
+  videoTopic,
+  visualStyle,
+  energy,
+  specificElements,
+  promptFormat,
+  styleProfile,
+  videoFormat,
+}: YouTubeIntroPromptRequest): PromptPayload => {
+  const promptText = `
+      Create a YouTube intro prompt series with the following specifications:
+      - Channel Name: ${channelName}
+      - Video Topic/Theme: ${videoTopic}
+      - Visual Style: ${visualStyle}
+      - Energy Level: ${energy}
+      - Specific Elements to Include: ${specificElements}
+      - Output Format: ${promptFormat}
+      ${styleProfileLine(styleProfile)}
+    `;
+  const parts = [{text: promptText}];
+  return promptFormat === 'json'
+    ? {
+        parts,
+        systemInstruction: withFraming(
+          INTRO_JSON_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+        responseSchema: getResponseSchema('introOutro'),
+      }
+    : {
+        parts,
+        systemInstruction: withFraming(
+          INTRO_CLASSIC_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+      };
+};
+
+const explainerPromptPayload = ({
+  topic,
+  keyPoints,
+  style,
+  audience,
+  cta,
+  duration,
+  promptFormat,
+  styleProfile,
+  videoFormat,
+}: ExplainerPromptRequest): PromptPayload => {
+  const promptText = `
+      Create an explainer video prompt series with the following specifications:
+      - Topic: ${topic}
+      - Key Points: ${
+        keyPoints.length > 0 ? keyPoints.join('; ') : 'None (decide yourself)'
+      }
+      - Visual Style: ${style}
+      - Target Audience: ${audience}
+      - Call to Action: ${cta}
+      - Video Duration: ${duration}
+      - Output Format: ${promptFormat}
+      ${styleProfileLine(styleProfile)}
+    `;
+  return {
+    parts: [{text: promptText}],
+    systemInstruction: withFraming(
+      promptFormat === 'json'
+        ? EXPLAINER_JSON_SYSTEM_INSTRUCTION
+        : EXPLAINER_CLASSIC_SYSTEM_INSTRUCTION,
+      videoFormat,
+    ),
+    ...(promptFormat === 'json'
+      ? {responseSchema: getResponseSchema('explainer')}
+      : {}),
+  };
+};
+
+const storyboardPromptPayload = async ({
+  scenes,
+  cast,
+  styleGuide,
+  promptFormat,
+  videoFormat,
+}: StoryboardPromptRequest): Promise<PromptPayload> => {
+  const parts: Part[] = [
+    {
+      text: `Based on the following storyboard scenes (text and images), and adhering to the specified cinematic and technical guidance, create a series of detailed, individual shot prompts for a video generation model.`,
+    },
+    {text: `--- STYLE GUIDANCE ---\n${styleGuide}`},
+  ];
+  if (cast.length > 0) {
+    parts.push({
+      text: `--- CAST & PROPS ---\nThe following characters and objects recur across scenes. Whenever a shot features one of them, describe it exactly as specified here (and as shown in its reference image, if provided) so it looks identical in every shot.`,
+    });
+    for (const member of cast) {
+      parts.push({
+        text: `${member.name}: ${member.description || 'See reference image.'}`,
+      });
+      if (member.referenceImage) {
+        parts.push({
+          inlineData: {
+            mimeType: member.referenceImage.type,
+            data: await fileToBase64(member.referenceImage),
+          },
+        });
+      }
+    }
+  }
+  if (scenes.some((scene) => scene.timing)) {
+    parts.push({
+      text: `--- TIMING ---\nThese scenes are the shots of a music video, cut to the beat of the track. Each shot's duration and cut points are fixed by its Timing line: use exactly that duration for the shot and make each cut land on it.`,
+    });
+  }
+  scenes.forEach((scene, index) => {
+    parts.push({
+      text: `Scene ${index + 1}: ${scene.description}${
+        scene.timing ? `\nTiming: ${scene.timing}` : ''
+      }${scene.cast.length > 0 ? `\nFeaturing: ${scene.cast.join(', ')}` : ''}`,
+    });
+    if (scene.image) {
+      parts.push({
+        inlineData: {
+          mimeType: imageMimeType(scene.image),
+          data: scene.image,
+        },
+      });
+    }
+  });
+  return promptFormat === 'json'
+    ? {
+        parts,
+        systemInstruction: withFraming(
+          STORYBOARD_JSON_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+        responseSchema: getResponseSchema('storyboard'),
+      }
+    : {
+        parts,
+        systemInstruction: withFraming(
+          STORYBOARD_CLASSIC_SYSTEM_INSTRUCTION,
+          videoFormat,
+        ),
+      };
+};
+
+const cashCowScriptPayload = ({
+  niche,
+  topic,
+  duration,
+  tone,
+  videoFormat,
+}: CashCowScriptRequest): PromptPayload => {
+  const promptText = `
+      Write a faceless video script with the following specifications:
+      - Niche: ${niche}
+      - Topic: ${topic}
+      - Video Duration: ${duration}
+      - Tone of Voice: ${tone}
+    `;
+  return {
+    parts: [{text: promptText}],
+    systemInstruction: withFraming(
+      CASH_COW_JSON_SYSTEM_INSTRUCTION,
+      videoFormat,
+    ),
+    responseSchema: getResponseSchema('cashCow'),
+  };
+};
+
+const musicVideoScenesPayload = ({
+  mood,
+  lyrics,
+  bpm,
+  shots,
+  videoFormat,
+}: MusicVideoScenesRequest): PromptPayload => {
+  const shotList = shots
+    .map(
+      (shot, index) =>
+        `${index + 1}. ${formatTimecode(shot.start)}-${formatTimecode(
+          shot.end,
+        )} (${(shot.end - shot.start).toFixed(1)}s, ${shot.energy} energy)`,
+    )
+    .join('\n');
+  const promptText = `
+      Describe one scene for each shot of this music video:
+      - Mood: ${mood || 'Decide from the lyrics'}
+      - Tempo: ${bpm} BPM
+      - Lyrics: ${lyrics || 'None (instrumental)'}
+      - Shots (${shots.length}):
+${shotList}
+    `;
+  return {
+    parts: [{text: promptText}],
+    systemInstruction: withFraming(
+      MUSIC_VIDEO_SCENES_SYSTEM_INSTRUCTION,
+      videoFormat,
+    ),
+    responseSchema: {type: Type.ARRAY, items: {type: Type.STRING}},
+  };
+};
+
+const sceneRewritePayload = ({
+  scene,
+  blockReason,
+  otherScenes = [],
+}: SceneRewriteRequest): PromptPayload => {
+  const context = otherScenes
+    .filter((other) => other.trim())
+    .map((other) => `- ${other.trim()}`)
+    .join('\n');
+  const promptText = `
+      Rewrite this blocked storyboard scene:
+      - Scene: ${scene}
+      - Reported reason: ${blockReason || 'Not given'}
+      - Other scenes:
+${context || 'None'}
+    `;
+  return {
+    parts: [{text: promptText}],
+    systemInstruction: SCENE_REWRITE_SYSTEM_INSTRUCTION,
+  };
+};
+
+/**
+ * Creates a `GenerationProvider` that calls Gemini, Imagen and Veo through the
+ * `@google/genai` SDK. If a usage meter is given, every billable call reports
+ * its token counts, images or video seconds to it.
+ */
+export const createGeminiProvider = (
+  config: GenerationConfig = DEFAULT_GENERATION_CONFIG,
+  usageMeter?: UsageMeter,
+): GenerationProvider => {
+  const {models, retry} = config;
+
+  // The browser SDK refuses to be created without a key, so the clients are
+  // only created by the first call, which fails instead if there is no key.
+  let clients: {ai: GoogleGenAI; videoClient: VideoGenerationClient} | null =
+    null;
+  const getClients = () => {
+    if (!config.apiKey) {
+      throw new GenerationError(
+        'auth',
+        'No API key is set. Add your Gemini API key under API Keys.',
+      );
+    }
+    clients ??= {
+      ai: new GoogleGenAI({
+        apiKey: config.apiKey,
+        vertexai: config.vertexai,
+        httpOptions: config.baseUrl ? {baseUrl: config.baseUrl} : undefined,
+      }),
+      videoClient: createVideoGenerationClient({
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        vertexai: config.vertexai,
+      }),
+    };
+    return clients;
+  };
+
+  const contentRequest = (
+    {parts, systemInstruction, responseSchema}: PromptPayload,
+    signal?: AbortSignal,
+  ) => ({
+    model: models.text,
+    contents: {parts},
+    config: {
+      systemInstruction,
+      ...(responseSchema ? jsonOutputConfig(responseSchema) : {}),
+      abortSignal: signal,
+    },
+  });
+
+  const recordTextUsage = (usage?: GenerateContentResponseUsageMetadata) =>
+    usageMeter?.record({
+      textInputTokens: usage?.promptTokenCount ?? 0,
+      // Thinking tokens are billed as output.
+      textOutputTokens:
+        (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    });
+
+  const generateText = (payload: PromptPayload, signal?: AbortSignal) =>
+    withRetry(
+      async () => {
+        const response = await getClients().ai.models.generateContent(
+          contentRequest(payload, signal),
+        );
+        recordTextUsage(response.usageMetadata);
+        checkTextResponse(response);
+        if (!response.text) {
+          throw new GenerationError(
+            'invalidOutput',
+            'The model returned no text.',
+          );
+        }
+        return response.text;
+      },
+      retry,
+      signal,
+    );
+
+  /**
+   * Like `generateText`, but passes the text received so far to `onText` after
+   * every chunk. A retried stream starts over from empty text.
+   */
+  const streamText = (
+    payload: PromptPayload,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+  ) =>
+    withRetry(
+      async () => {
+        const stream = await getClients().ai.models.generateContentStream(
+          contentRequest(payload, signal),
+        );
+        let text = '';
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        for await (const chunk of stream) {
+          checkTextResponse(chunk);
+          text += chunk.text ?? '';
+          // Every chunk carries the running totals; the last one is complete.
+          usage = chunk.usageMetadata ?? usage;
+          onText(text);
+        }
+        recordTextUsage(usage);
+        return text;
+      },
+      retry,
+      signal,
+    );
+
+  return {
+    models,
+    supportsImageSeed: !!config.vertexai,
+
+    generateImages: (
+      {
+        prompt,
+        aspectRatio = '16:9',
+        numberOfImages = 1,
+        seed,
+        mimeType = 'image/jpeg',
+      },
+      {signal} = {},
+    ) =>
+      withRetry(
+        async () => {
+          const response = await getClients().ai.models.generateImages({
+            model: models.image,
+            prompt,
+            config: {
+              numberOfImages,
+              outputMimeType: mimeType,
+              aspectRatio,
+              // The Gemini API rejects a seed, and Vertex AI only takes one
+              // with the watermark turned off.
+              ...(seed !== undefined && config.vertexai
+                ? {seed, addWatermark: false}
+                : {}),
+              // Filtered images come back with the reason instead of bytes.
+              includeRaiReason: true,
+              abortSignal: signal,
+            },
+          });
+
+          const images = (response.generatedImages ?? []).flatMap(
+            (generated) => generated.image?.imageBytes ?? [],
+          );
+          if (images.length === 0) {
+            const filteredReason = response.generatedImages?.find(
+              (generated) => generated.raiFilteredReason,
+            )?.raiFilteredReason;
+            throw filteredReason
+              ? new GenerationError('safety', filteredReason)
+              : new GenerationError(
+                  'invalidOutput',
+                  'No images generated from prompt.',
+                );
+          }
+          usageMeter?.record({images: images.length});
+          return images;
+        },
+        retry,
+        signal,
+      ),
+
+    analyzeStyle: async (imageFiles, {signal} = {}) => {
+      const profile = parseStyleProfile(
+        await generateText(await styleAnalysisPayload(imageFiles), signal),
+      );
+      if (!profile) {
+        throw new GenerationError(
+          'invalidOutput',
+          'The style analysis is not a style profile.',
+        );
+      }
+      return profile;
+    },
+
+    generateLogoPrompt: async (request, {signal} = {}) => {
+      const text = await generateText(await logoPromptPayload(request), signal);
+      return request.promptFormat === 'json'
+        ? formatJsonPrompt('logo', text)
+        : text;
+    },
+
+    generateYouTubeIntroPrompt: async (request, {signal} = {}) => {
+      const text = await generateText(introPromptPayload(request), signal);
+      return request.promptFormat === 'json'
+        ? formatJsonPrompt('introOutro', text)
+        : text;
+    },
+
+    generateExplainerPrompt: async (request, {signal} = {}) => {
+      const output = await generateText(
+        explainerPromptPayload(request),
+        signal,
+      );
+      if (request.promptFormat !== 'json') {
+        return output;
+      }
+      if (!parseExplainerShots(output)?.length) {
+        throw new GenerationError(
+          'invalidOutput',
+          'The model did not return a list of explainer shots.',
+        );
+      }
+      return formatJsonPrompt('explainer', output);
+    },
+
+    generateStoryboardPrompt: async (request, {onText, signal} = {}) => {
+      const payload = await storyboardPromptPayload(request);
+      const text = await (onText
+        ? streamText(payload, onText, signal)
+        : generateText(payload, signal));
+      return request.promptFormat === 'json'
+        ? formatJsonPrompt('storyboard', text)
+        : text;
+    },
+
+    generateCashCowScript: async (request, {signal} = {}) =>
+      formatJsonPrompt(
+        'cashCow',
+        await generateText(cashCowScriptPayload(request), signal),
+      ),
+
+    generateMusicVideoScenes: async (request, {signal} = {}) => {
+      const text = await generateText(musicVideoScenesPayload(request), signal);
+      let scenes: unknown;
+      try {
+        scenes = JSON.parse(stripJsonFences(text));
+      } catch (e) {
+        scenes = null;
+      }
+      if (
+        !Array.isArray(scenes) ||
+        !scenes.every((scene) => typeof scene === 'string')
+      ) {
+        throw new GenerationError(
+          'invalidOutput',
+          'The model did not return a list of scenes.',
+        );
+      }
+      return scenes;
+    },
+
+    rewriteBlockedScene: async (request, {signal} = {}) => {
+      const text = await generateText(sceneRewritePayload(request), signal);
+      // Models sometimes quote the rewrite despite the instruction.
+      const rewrite = text
+        .trim()
+        .replace(/^"(.*)"$/s, '$1')
+        .trim();
+      if (!rewrite) {
+        throw new GenerationError(
+          'invalidOutput',
+          'The model did not return a rewritten scene.',
+        );
+      }
+      return rewrite;
+    },
+
+    // Video generation is a long-running operation that already polls, so it
+    // is not wrapped in `withRetry`.
+    generateVideo: async (
+      {prompt, imageFile, negativePrompt, aspectRatio},
+      {signal} = {},
+    ) => {
+      const clip = await generateVideo(getClients().videoClient, {
+        model: models.video,
+        prompt,
+        imageFile,
+        negativePrompt,
+        aspectRatio,
+        signal,
+      });
+      usageMeter?.record({videoSeconds: VIDEO_CLIP_SECONDS});
+      return clip;
+    },
+
+    countTokens: async (request) => {
+      let payload: PromptPayload;
+      switch (request.kind) {
+        case 'styleAnalysis':
+          payload = await styleAnalysisPayload(request.imageFiles);
+          break;
+        case 'logo':
+          payload = await logoPromptPayload(request.request);
+          break;
+        case 'introOutro':
+          payload = introPromptPayload(request.request);
+          break;
+        case 'storyboard':
+          payload = await storyboardPromptPayload(request.request);
+          break;
+      }
+      // The Gemini API does not accept a system instruction when counting
+      // tokens, so it is counted as a leading text part instead.
+      const {parts, systemInstruction} = payload;
+      const response = await getClients().ai.models.countTokens({
+        model: models.text,
+        contents: {
+          parts: systemInstruction
+            ? [{text: systemInstruction}, ...parts]
+            : parts,
+        },
+      });
+      return response.totalTokens ?? 0;
+    },
+  };
+};
+
+/**
+ * Checks that `apiKey` is accepted by looking up the text model, which is not
+ * billed. Rejects with the classified error otherwise.
+ */
+export const verifyApiKey = async (
+  apiKey: string,
+  config: GenerationConfig = DEFAULT_GENERATION_CONFIG,
+  signal?: AbortSignal,
+): Promise<void> => {
+  const ai = new GoogleGenAI({
+    apiKey,
+    vertexai: config.vertexai,
+    httpOptions: config.baseUrl ? {baseUrl: config.baseUrl} : undefined,
+  });
+  try {
+    await ai.models.get({
+      model: config.models.text,
+      config: {abortSignal: signal},
+    });
+  } catch (e) {
+    throw signal?.aborted ? e : classifyError(e);
+  }
+};
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  CastMember,
+  EnergyLevel,
+  ImageAspectRatio,
+  StyleProfile,
+  VideoAspectRatio,
+  VideoFormat,
+} from '../types';
+import {GenerationConfig} from './config';
+
+export type PromptFormat = 'classic' | 'json';
+
+export interface LogoPromptRequest {
+  logoFile: File;
+  animationStyle: string;
+  background: string;
+  sfx: string;
+  tagline: string;
+  promptFormat: PromptFormat;
+  /** A saved style to follow, described to the model with the inputs. */
+  styleProfile?: StyleProfile | null;
+  /** The frame to compose for; landscape 16:9 if not given. */
+  videoFormat?: VideoFormat;
+}
+
+export interface YouTubeIntroPromptRequest {
+  channelName: string;
+  videoTopic: string;
+  visualStyle: string;
+  energy: string;
+  specificElements: string;
+  promptFormat: PromptFormat;
+  /** A saved style to follow, described to the model with the inputs. */
+  styleProfile?: StyleProfile | null;
+  /** The frame to compose for; landscape 16:9 if not given. */
+  videoFormat?: VideoFormat;
+}
+
+export interface ExplainerPromptRequest {
+  topic: string;
+  keyPoints: string[];
+  style: string;
+  audience: string;
+  cta: string;
+  duration: string;
+  promptFormat: PromptFormat;
+  /** A saved style to follow, described to the model with the inputs. */
+  styleProfile?: StyleProfile | null;
+  /** The frame to compose for; landscape 16:9 if not given. */
+  videoFormat?: VideoFormat;
+}
+
+export interface StoryboardPromptRequest {
+  /**
+   * Non-empty scenes in order, each with its generated frame (base64 data)
+   * and the names of the cast members it mentions. Music video shots also
+   * carry their fixed timing in the track, e.g. `0:04.2-0:07.9 (3.7s)`.
+   */
+  scenes: {
+    description: string;
+    image: string | null;
+    cast: string[];
+    timing?: string;
+  }[];
+  /** The cast members mentioned in at least one scene. */
+  cast: CastMember[];
+  styleGuide: string;
+  promptFormat: PromptFormat;
+  videoFormat?: VideoFormat;
+}
+
+export interface CashCowScriptRequest {
+  niche: string;
+  topic: string;
+  /** Target length of the finished video, e.g. `60s`. */
+  duration: string;
+  tone: string;
+  videoFormat?: VideoFormat;
+}
+
+export interface MusicVideoScenesRequest {
+  mood: string;
+  lyrics: string;
+  bpm: number;
+  /** The planned shots in order, with their timing in the track. */
+  shots: {start: number; end: number; energy: EnergyLevel}[];
+  videoFormat?: VideoFormat;
+}
+
+export interface SceneRewriteRequest {
+  /** The scene description the safety filters blocked. */
+  scene: string;
+  /** The reason the filter reported, if any. */
+  blockReason?: string;
+  /** The other scenes of the storyboard in order, for the story around it. */
+  otherScenes?: string[];
+}
+
+/** A prompt-writing request whose input tokens should be counted. */
+export type TokenCountRequest =
+  | {kind: 'styleAnalysis'; imageFiles: File[]}
+  | {kind: 'logo'; request: LogoPromptRequest}
+  | {kind: 'introOutro'; request: YouTubeIntroPromptRequest}
+  | {kind: 'storyboard'; request: StoryboardPromptRequest};
+
+export interface ImageRequest {
+  prompt: string;
+  /** 16:9 if not given. */
+  aspectRatio?: ImageAspectRatio;
+  /** How many variants to generate; 1 if not given. */
+  numberOfImages?: number;
+  /** A fixed seed for reproducible images; ignored without `supportsImageSeed`. */
+  seed?: number;
+  /** JPEG if not given. */
+  mimeType?: 'image/jpeg' | 'image/png';
+}
+
+export interface VideoRequest {
+  prompt: string;
+  /** An optional image used as the first frame of the clip. */
+  imageFile?: File | null;
+  /** What the clip should not show, e.g. a style preset's negative terms. */
+  negativePrompt?: string;
+  /** 16:9 if not given. */
+  aspectRatio?: VideoAspectRatio;
+}
+
+/** Options every generating call accepts. */
+export interface CallOptions {
+  /**
+   * Cancels the call, which then rejects with the abort reason. Work the
+   * server has already started may still be billed.
+   */
+  signal?: AbortSignal;
+}
+
+export interface StoryboardPromptOptions extends CallOptions {
+  /** Receives the text written so far as it streams in. */
+  onText?: (text: string) => void;
+}
+
+/**
+ * Every model call the app makes. Components and handlers depend only on this
+ * interface, so the Gemini-backed implementation can be swapped for a
+ * deterministic mock in tests.
+ */
+export interface GenerationProvider {
+  /** The models behind each kind of call, recorded with every generation. */
+  readonly models: GenerationConfig['models'];
+  /** Whether `generateImages` honours `ImageRequest.seed`. */
+  readonly supportsImageSeed: boolean;
+  /** Generates one or more variants of a still image as base64 data. */
+  generateImages(
+    request: ImageRequest,
+    options?: CallOptions,
+  ): Promise<string[]>;
+  /** Analyzes the shared visual style of one or more reference images. */
+  analyzeStyle(
+    imageFiles: File[],
+    options?: CallOptions,
+  ): Promise<StyleProfile>;
+  generateLogoPrompt(
+    request: LogoPromptRequest,
+    options?: CallOptions,
+  ): Promise<string>;
+  generateYouTubeIntroPrompt(
+    request: YouTubeIntroPromptRequest,
+    options?: CallOptions,
+  ): Promise<string>;
+  generateExplainerPrompt(
+    request: ExplainerPromptRequest,
+    options?: CallOptions,
+  ): Promise<string>;
+  /** Writes the director's master prompt for a storyboard. */
+  generateStoryboardPrompt(
+    request: StoryboardPromptRequest,
+    options?: StoryboardPromptOptions,
+  ): Promise<string>;
+  /**
+   * Writes the narration script of a faceless video as a JSON array of timed
+   * beats, each with a caption and a b-roll prompt.
+   */
+  generateCashCowScript(
+    request: CashCowScriptRequest,
+    options?: CallOptions,
+  ): Promise<string>;
+  /**
+   * Describes what each planned shot of a music video shows, one description
+   * per shot, in order.
+   */
+  generateMusicVideoScenes(
+    request: MusicVideoScenesRequest,
+    options?: CallOptions,
+  ): Promise<string[]>;
+  /**
+   * Rephrases a storyboard scene that the safety filters blocked, keeping its
+   * narrative intent, so it can be rendered once the user approves it.
+   */
+  rewriteBlockedScene(
+    request: SceneRewriteRequest,
+    options?: CallOptions,
+  ): Promise<string>;
+  /** Generates a video clip and returns its bytes. */
+  generateVideo(request: VideoRequest, options?: CallOptions): Promise<Blob>;
+  /**
+   * Counts the input tokens the matching generate call would send, including
+   * its system instruction, without running it.
+   */
+  countTokens(request: TokenCountRequest): Promise<number>;
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {HistoryEntry} from '../types';
+import {withStore} from './db';
+
+/** Lists every recorded generation, most recent first. */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(
+    'history',
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Records a generation, or updates one recorded earlier. */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await withStore('history', 'readwrite', (store) => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('history', 'readwrite', (store) => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('history', 'readwrite', (store) => store.clear());
+};
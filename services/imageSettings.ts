@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageAspectRatio, ImageSettings} from '../types';
+import {ImageRequest} from './generationProvider';
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = [
+  '16:9',
+  '4:3',
+  '1:1',
+  '3:4',
+  '9:16',
+];
+
+/** The most variants the image model returns for one prompt. */
+export const MAX_IMAGE_VARIANTS = 4;
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  negativePrompt: '',
+  variantCount: 1,
+  seed: null,
+  outputFormat: 'jpeg',
+  aspectRatio: null,
+};
+
+/**
+ * The image request for a prompt under the project's image settings.
+ * `defaultAspectRatio`, the one of the project's format, is used unless the
+ * settings pick one; `variants` overrides the variant count for images that
+ * have no variant picker. The negative prompt is added to the prompt as
+ * things to avoid.
+ */
+export const imageRequest = (
+  prompt: string,
+  settings: ImageSettings,
+  defaultAspectRatio: ImageAspectRatio,
+  variants = settings.variantCount,
+): ImageRequest => ({
+  prompt: settings.negativePrompt.trim()
+    ? `${prompt}\n\nAvoid: ${settings.negativePrompt.trim()}`
+    : prompt,
+  aspectRatio: settings.aspectRatio ?? defaultAspectRatio,
+  numberOfImages: Math.min(
+    Math.max(Math.round(variants), 1),
+    MAX_IMAGE_VARIANTS,
+  ),
+  ...(settings.seed !== null ? {seed: settings.seed} : {}),
+  mimeType: settings.outputFormat === 'png' ? 'image/png' : 'image/jpeg',
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerationProvider, PromptFormat} from './generationProvider';
+
+/** A 1x1 grey JPEG, returned for every mock image. */
+export const MOCK_IMAGE_BASE64 =
+  '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+const mockPrompt = (
+  promptFormat: PromptFormat,
+  titles: string[],
+  describe: (title: string, index: number) => Record<string, unknown>,
+) =>
+  promptFormat === 'json'
+    ? JSON.stringify(
+        titles.map((title, index) => describe(title, index)),
+        null,
+        2,
+      )
+    : titles
+        .map(
+          (title, index) =>
+            `--- PROMPT ${index + 1}: ${title} ---\n- **Generation Prompt:** ${
+              describe(title, index).generation_prompt
+            }`,
+        )
+        .join('\n\n');
+
+const segment = (title: string, index: number, details: string) => ({
+  segment_number: index + 1,
+  segment_title: title,
+  time_range: `${index * 2}-${index * 2 + 2}s`,
+  setting: details,
+  action_and_movement: details,
+  camera: 'Static shot',
+  visual_style_and_aesthetics: details,
+  audio: 'None',
+  generation_prompt: `${title}: ${details}`,
+});
+
+/**
+ * Creates a deterministic `GenerationProvider` that never touches the network.
+ * Every output is derived from the inputs, so the same request always yields
+ * the same result. Individual methods can be replaced via `overrides`.
+ */
+export const createMockProvider = (
+  overrides: Partial<GenerationProvider> = {},
+): GenerationProvider => ({
+  models: {text: 'mock-text', image: 'mock-image', video: 'mock-video'},
+  supportsImageSeed: false,
+
+  generateImages: async ({numberOfImages = 1}) =>
+    Array.from({length: numberOfImages}, () => MOCK_IMAGE_BASE64),
+
+  analyzeStyle: async (imageFiles) => {
+    const names = imageFiles.map((file) => file.name).join(', ');
+    return {
+      palette: ['#808080'],
+      lighting: `mock lighting of ${names}`,
+      lens: `mock lens of ${names}`,
+      texture: `mock texture of ${names}`,
+      era: `mock era of ${names}`,
+      mood: `mock mood of ${names}`,
+    };
+  },
+
+  generateLogoPrompt: async ({animationStyle, tagline, promptFormat}) =>
+    mockPrompt(promptFormat, ['Intro', 'Reveal', 'Outro'], (title, index) => ({
+      ...segment(title, index, `${animationStyle} logo animation`),
+      text_overlay: tagline || 'None',
+    })),
+
+  generateYouTubeIntroPrompt: async ({
+    channelName,
+    visualStyle,
+    promptFormat,
+  }) =>
+    mockPrompt(promptFormat, ['Buildup', 'Reveal', 'CTA'], (title, index) => ({
+      ...segment(title, index, `${visualStyle} intro for ${channelName}`),
+      text_and_overlays: channelName,
+    })),
+
+  generateExplainerPrompt: async ({topic, keyPoints, promptFormat}) =>
+    mockPrompt(
+      promptFormat,
+      keyPoints.length > 0 ? keyPoints : [topic],
+      (point, index) => ({
+        shot_number: index + 1,
+        key_point_covered: point,
+        audio: {voiceover: `Let's talk about ${point}.`},
+        generation_prompt: `An illustration explaining ${point}`,
+      }),
+    ),
+
+  generateStoryboardPrompt: async (
+    {scenes, styleGuide, promptFormat},
+    {onText} = {},
+  ) => {
+    const text = mockPrompt(
+      promptFormat,
+      scenes.map((scene) => scene.description),
+      (description, index) => ({
+        shot_number: index + 1,
+        scene_description: description,
+        suggested_duration: '3-5s',
+        subject: description,
+        action: description,
+        scene: description,
+        camera: {angle: 'Wide shot', movement: 'Static', lens_effects: 'None'},
+        style: {
+          visual_style: styleGuide,
+          mood: 'Neutral',
+          lighting: 'Natural',
+          color_palette: 'Neutral',
+        },
+        audio: {ambience: 'None', sfx: [], music: 'None'},
+        generation_prompt: `cinematic shot depicting ${description}`,
+      }),
+    );
+    onText?.(text);
+    return text;
+  },
+
+  generateCashCowScript: async ({niche, topic}) =>
+    mockPrompt('json', ['Hook', 'Point', 'Outro'], (part, index) => ({
+      beat_number: index + 1,
+      start_seconds: index * 5,
+      end_seconds: (index + 1) * 5,
+      narration: `${part} about ${topic}.`,
+      caption: part,
+      generation_prompt: `${niche} b-roll illustrating ${topic}`,
+    })),
+
+  generateMusicVideoScenes: async ({mood, shots}) =>
+    shots.map(
+      (shot, index) =>
+        `${mood || 'Music video'} scene ${index + 1}, ${shot.energy} energy`,
+    ),
+
+  rewriteBlockedScene: async ({scene}) => `A gentler take on: ${scene}`,
+
+  // An empty clip, which plays as a blank video.
+  generateVideo: async () => new Blob([], {type: 'video/mp4'}),
+
+  // Roughly four characters per token, like English text.
+  countTokens: async (request) => Math.ceil(JSON.stringify(request).length / 4),
+
+  ...overrides,
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  ImageSettings,
+  MusicVideoShot,
+  StyleProfile,
+  VideoFormat,
+} from '../types';
+import {TimedShot, formatTimecode} from '../utils/audioAnalysis';
+import {
+  CallOptions,
+  GenerationProvider,
+  PromptFormat,
+} from './generationProvider';
+import {StoryboardResult, generateStoryboard} from './storyboard';
+
+export interface MusicVideoRequest {
+  /** The beat-aligned shots planned from the track. */
+  shots: TimedShot[];
+  bpm: number;
+  mood: string;
+  lyrics: string;
+  imageFile: File | null;
+  selectedStyle: string;
+  promptFormat: PromptFormat;
+  styleProfile?: StyleProfile | null;
+  imageSettings?: ImageSettings;
+  videoFormat?: VideoFormat;
+}
+
+export interface MusicVideoResult extends StoryboardResult {
+  /** The planned shots with the scene each one shows. */
+  shots: MusicVideoShot[];
+}
+
+/**
+ * Describes where a shot sits in the track, e.g.
+ * `0:04.2-0:07.9 (3.7s, high energy section)`.
+ */
+const describeTiming = ({start, end, energy}: TimedShot) =>
+  `${formatTimecode(start)}-${formatTimecode(end)} (${(end - start).toFixed(
+    1,
+  )}s, ${energy} energy section)`;
+
+/**
+ * Writes a scene for every planned shot from the song's mood and lyrics, then
+ * runs the scenes through the storyboard pipeline with their timing, so every
+ * frame and shot prompt follows the cut points of the track.
+ */
+export async function generateMusicVideo(
+  provider: GenerationProvider,
+  {
+    shots,
+    bpm,
+    mood,
+    lyrics,
+    imageFile,
+    selectedStyle,
+    promptFormat,
+    styleProfile,
+    imageSettings,
+    videoFormat,
+  }: MusicVideoRequest,
+  {signal}: CallOptions = {},
+): Promise<MusicVideoResult> {
+  const descriptions = await provider.generateMusicVideoScenes(
+    {
+      mood,
+      lyrics,
+      bpm,
+      shots,
+      videoFormat,
+    },
+    {signal},
+  );
+  // The model may return too few scenes; the shot list stays as planned.
+  const scenes = shots.map(
+    (shot, index) =>
+      descriptions[index]?.trim() ||
+      `${mood || 'A performance'} moment, ${shot.energy} energy`,
+  );
+
+  const storyboard = await generateStoryboard(
+    provider,
+    {
+      scenes,
+      imageFile,
+      selectedStyle,
+      promptFormat,
+      styleProfile,
+      timings: shots.map(describeTiming),
+      // Music video frames have no variant picker.
+      imageSettings: imageSettings && {...imageSettings, variantCount: 1},
+      videoFormat,
+    },
+    {signal},
+  );
+
+  return {
+    ...storyboard,
+    shots: shots.map((shot, index) => ({
+      ...shot,
+      description: scenes[index],
+    })),
+  };
+}
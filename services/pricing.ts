@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Usage} from './usage';
+
+/** What each billable unit costs, in US dollars. */
+export interface Pricing {
+  /** Gemini text model, per million input tokens. */
+  textInputPerMillionTokens: number;
+  /** Gemini text model, per million output tokens (including thinking). */
+  textOutputPerMillionTokens: number;
+  /** Imagen, per generated image. */
+  imagePerImage: number;
+  /** Veo, per second of generated video. */
+  videoPerSecond: number;
+}
+
+/** Public list prices of the default models at the time of writing. */
+export const DEFAULT_PRICING: Pricing = {
+  textInputPerMillionTokens: 0.3,
+  textOutputPerMillionTokens: 2.5,
+  imagePerImage: 0.03,
+  videoPerSecond: 0.35,
+};
+
+const STORAGE_KEY = 'cinegen.pricing';
+
+/** Loads the user's edited prices, falling back to the defaults. */
+export const loadPricing = (): Pricing => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {...DEFAULT_PRICING, ...saved};
+  } catch (e) {
+    return DEFAULT_PRICING;
+  }
+};
+
+export const savePricing = (pricing: Pricing) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pricing));
+};
+
+/** The cost of some usage in US dollars. */
+export const priceUsage = (usage: Usage, pricing: Pricing): number =>
+  (usage.textInputTokens * pricing.textInputPerMillionTokens) / 1_000_000 +
+  (usage.textOutputTokens * pricing.textOutputPerMillionTokens) / 1_000_000 +
+  usage.images * pricing.imagePerImage +
+  usage.videoSeconds * pricing.videoPerSecond;
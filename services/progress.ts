@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type StageStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/** One step of a multi-step generation run. */
+export interface GenerationStage {
+  id: string;
+  label: string;
+  status: StageStatus;
+  /** Epoch milliseconds; null until the stage starts. */
+  startedAt: number | null;
+  /** Epoch milliseconds; null until the stage is done or failed. */
+  finishedAt: number | null;
+}
+
+/** A snapshot of a run, reported every time a stage changes. */
+export interface GenerationProgress {
+  stages: GenerationStage[];
+  /** The director's prompt text streamed so far. */
+  streamedText: string;
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+/** Moves the stages of a run along and reports each change. */
+export interface ProgressTracker {
+  start(id: string): void;
+  finish(id: string): void;
+  fail(id: string): void;
+  stream(text: string): void;
+}
+
+/** A stage that started now, for runs with a single step. */
+export const runningStage = (id: string, label: string): GenerationStage => ({
+  id,
+  label,
+  status: 'running',
+  startedAt: Date.now(),
+  finishedAt: null,
+});
+
+/**
+ * Creates a tracker for the given stages, all pending. Reports nothing if
+ * there is no callback, so pipelines can track progress unconditionally.
+ */
+export const createProgressTracker = (
+  plan: {id: string; label: string}[],
+  onProgress?: ProgressCallback,
+): ProgressTracker => {
+  let progress: GenerationProgress = {
+    stages: plan.map(({id, label}) => ({
+      id,
+      label,
+      status: 'pending',
+      startedAt: null,
+      finishedAt: null,
+    })),
+    streamedText: '',
+  };
+  const report = (next: GenerationProgress) => {
+    progress = next;
+    onProgress?.(progress);
+  };
+  const setStatus = (id: string, status: StageStatus) => {
+    const now = Date.now();
+    report({
+      ...progress,
+      stages: progress.stages.map((stage) =>
+        stage.id !== id
+          ? stage
+          : {
+              ...stage,
+              status,
+              startedAt: stage.startedAt ?? now,
+              finishedAt: status === 'running' ? null : now,
+            },
+      ),
+    });
+  };
+  onProgress?.(progress);
+  return {
+    start: (id) => setStatus(id, 'running'),
+    finish: (id) => setStatus(id, 'done'),
+    fail: (id) => setStatus(id, 'failed'),
+    stream: (text) => report({...progress, streamedText: text}),
+  };
+};
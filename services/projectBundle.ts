@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  CastMember,
+  ExplainerScene,
+  GeneratorForms,
+  ImageSettings,
+  LogoFormState,
+  MusicVideoFormState,
+  Project,
+  StoryboardFormState,
+  VideoFormat,
+  VideoType,
+} from '../types';
+import {base64ToBytes, bytesToBase64, imageExtension} from '../utils/files';
+import {Shot, splitMasterPrompt} from '../utils/shots';
+import {ZipEntry, createZip, readZip} from '../utils/zip';
+
+const MANIFEST_PATH = 'manifest.json';
+const BUNDLE_FORMAT = 'cinegen-project';
+const BUNDLE_VERSION = 1;
+
+/** A file stored next to the manifest in the bundle. */
+interface BundledFile {
+  path: string;
+  name: string;
+  type: string;
+}
+
+/** The generator inputs, with uploaded files replaced by bundle paths. */
+type BundledForms = Omit<
+  GeneratorForms,
+  'storyboard' | 'logo' | 'musicVideo'
+> & {
+  storyboard: Omit<StoryboardFormState, 'referenceImage' | 'cast'> & {
+    referenceImage: BundledFile | null;
+    cast: (Omit<CastMember, 'referenceImage'> & {
+      referenceImage: BundledFile | null;
+    })[];
+  };
+  logo: Omit<LogoFormState, 'logoFile'> & {logoFile: BundledFile | null};
+  musicVideo: Omit<MusicVideoFormState, 'audioFile' | 'referenceImage'> & {
+    audioFile: BundledFile | null;
+    referenceImage: BundledFile | null;
+  };
+};
+
+/** The `manifest.json` at the root of a project bundle. */
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  videoType: VideoType;
+  /** The style chosen in the active generator, for readers of the bundle. */
+  style: string | null;
+  inputs: BundledForms;
+  masterPrompt: string;
+  /** The master prompt split into the individual shots to generate. */
+  shots: Shot[];
+  /** Paths of the storyboard frames, one per scene; null if none was made. */
+  sceneImages: (string | null)[];
+  explainerScenes:
+    {scene: ExplainerScene['scene']; image: string | null}[] | null;
+  /** Missing in bundles made before image settings existed. */
+  imageSettings?: ImageSettings;
+  /** Missing in bundles made before formats existed, which are 16:9. */
+  videoFormat?: VideoFormat;
+}
+
+const activeStyle = (project: Project): string | null => {
+  switch (project.videoType) {
+    case 'storyboard':
+      return project.forms.storyboard.styleName;
+    case 'logo':
+      return project.forms.logo.animationStyle;
+    case 'introOutro':
+      return project.forms.introOutro.visualStyle;
+    case 'explainer':
+      return project.forms.explainer.visualStyle;
+    case 'musicVideo':
+      return project.forms.musicVideo.styleName;
+    default:
+      return null;
+  }
+};
+
+/** Makes a name safe to use as a file name inside and outside the ZIP. */
+export const toFileName = (name: string) =>
+  name
+    .trim()
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'project';
+
+/**
+ * Packs a project into a ZIP with a `manifest.json` describing the video type,
+ * format, style, inputs, image settings and per-shot prompts, the generated
+ * frames as JPEGs or PNGs and the uploaded reference images, logo and music
+ * track.
+ */
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  const addFile = async (
+    file: File | null,
+    folder: string,
+    prefix = '',
+  ): Promise<BundledFile | null> => {
+    if (!file) return null;
+    const path = `${folder}/${prefix}${toFileName(file.name)}`;
+    entries.push({name: path, data: new Uint8Array(await file.arrayBuffer())});
+    return {path, name: file.name, type: file.type};
+  };
+
+  /** Adds a generated image under `baseName` plus the extension of its format. */
+  const addImage = (image: string | null, baseName: string): string | null => {
+    if (!image) return null;
+    const path = `${baseName}.${imageExtension(image)}`;
+    entries.push({name: path, data: base64ToBytes(image)});
+    return path;
+  };
+
+  const {storyboard, logo, musicVideo} = project.forms;
+  const inputs: BundledForms = {
+    ...project.forms,
+    storyboard: {
+      ...storyboard,
+      referenceImage: await addFile(storyboard.referenceImage, 'reference'),
+      cast: await Promise.all(
+        storyboard.cast.map(async (member, index) => ({
+          ...member,
+          referenceImage: await addFile(
+            member.referenceImage,
+            'cast',
+            `${index + 1}-`,
+          ),
+        })),
+      ),
+    },
+    logo: {...logo, logoFile: await addFile(logo.logoFile, 'logo')},
+    musicVideo: {
+      ...musicVideo,
+      audioFile: await addFile(musicVideo.audioFile, 'music'),
+      referenceImage: await addFile(
+        musicVideo.referenceImage,
+        'music',
+        'reference-',
+      ),
+    },
+  };
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name: project.name,
+    exportedAt: new Date().toISOString(),
+    videoType: project.videoType,
+    style: activeStyle(project),
+    inputs,
+    masterPrompt: project.masterPrompt,
+    shots: splitMasterPrompt(project.masterPrompt),
+    sceneImages: project.sceneImages.map((image, index) =>
+      addImage(image, `storyboard/scene-${index + 1}`),
+    ),
+    explainerScenes:
+      project.explainerScenes?.map(({scene, image}, index) => ({
+        scene,
+        image: addImage(image, `explainer/scene-${index + 1}`),
+      })) ?? null,
+    imageSettings: project.imageSettings,
+    videoFormat: project.videoFormat,
+  };
+
+  entries.unshift({
+    name: MANIFEST_PATH,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+  return createZip(entries);
+};
+
+/**
+ * Reads a bundle written by `exportProjectBundle` back into a project. The
+ * project gets a new ID, so saving it never overwrites the original.
+ */
+export const importProjectBundle = async (file: File): Promise<Project> => {
+  const entries = new Map(
+    (await readZip(await file.arrayBuffer())).map((entry) => [
+      entry.name,
+      entry.data,
+    ]),
+  );
+
+  const manifestData = entries.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new Error(
+      'This file is not a project bundle: manifest.json is missing.',
+    );
+  }
+  const manifest = JSON.parse(
+    new TextDecoder().decode(manifestData),
+  ) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('This file is not a project bundle.');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(
+      'This bundle was made by a newer version of the app and cannot be opened.',
+    );
+  }
+
+  const readFile = (bundled: BundledFile | null): File | null => {
+    const data = bundled && entries.get(bundled.path);
+    return data ? new File([data], bundled.name, {type: bundled.type}) : null;
+  };
+  const readImage = (path: string | null): string | null => {
+    const data = path && entries.get(path);
+    return data ? bytesToBase64(data) : null;
+  };
+
+  const {storyboard, logo, musicVideo} = manifest.inputs;
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: manifest.name,
+    createdAt: now,
+    updatedAt: now,
+    videoType: manifest.videoType,
+    forms: {
+      ...manifest.inputs,
+      storyboard: {
+        ...storyboard,
+        referenceImage: readFile(storyboard.referenceImage),
+        cast: (storyboard.cast ?? []).map((member) => ({
+          ...member,
+          referenceImage: readFile(member.referenceImage),
+        })),
+      },
+      logo: {...logo, logoFile: readFile(logo.logoFile)},
+      // Bundles made before music videos have no such inputs; the defaults
+      // fill them in when the project is opened.
+      musicVideo: {
+        ...musicVideo,
+        audioFile: readFile(musicVideo?.audioFile ?? null),
+        referenceImage: readFile(musicVideo?.referenceImage ?? null),
+      },
+    },
+    masterPrompt: manifest.masterPrompt,
+    sceneImages: manifest.sceneImages.map(readImage),
+    explainerScenes:
+      manifest.explainerScenes?.map(({scene, image}) => ({
+        scene,
+        image: readImage(image),
+      })) ?? null,
+    imageSettings: manifest.imageSettings,
+    videoFormat: manifest.videoFormat,
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Project} from '../types';
+import {withStore} from './db';
+
+/** Lists all saved projects, most recently updated first. */
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>('projects', 'readonly', (store) =>
+    store.getAll(),
+  );
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Creates or overwrites a project. Files and images are stored as-is. */
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('projects', 'readwrite', (store) => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('projects', 'readwrite', (store) => store.delete(id));
+};
+
+/** Saves a copy of a project under a new ID and returns it. */
+export const duplicateProject = async (project: Project): Promise<Project> => {
+  const now = Date.now();
+  const copy: Project = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it, vi} from 'vitest';
+import {GenerationError} from './errors';
+import {createMockProvider, MOCK_IMAGE_BASE64} from './mockProvider';
+import {withRetry} from './retry';
+
+const RETRY = {maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 4};
+
+/** A mock provider whose image calls fail with `errors` before succeeding. */
+const flakyProvider = (errors: unknown[]) => {
+  const generateImages = vi.fn(async () => {
+    const error = errors.shift();
+    if (error) {
+      throw error;
+    }
+    return [MOCK_IMAGE_BASE64];
+  });
+  return {provider: createMockProvider({generateImages}), generateImages};
+};
+
+const rateLimited = () =>
+  Object.assign(new Error('RESOURCE_EXHAUSTED'), {status: 429});
+
+describe('withRetry', () => {
+  it('retries transient failures until the call succeeds', async () => {
+    const {provider, generateImages} = flakyProvider([
+      rateLimited(),
+      new Error('fetch failed'),
+    ]);
+
+    const images = await withRetry(
+      () => provider.generateImages({prompt: 'A cat'}),
+      RETRY,
+    );
+
+    expect(images).toEqual([MOCK_IMAGE_BASE64]);
+    expect(generateImages).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt with a classified error', async () => {
+    const {provider, generateImages} = flakyProvider([
+      rateLimited(),
+      rateLimited(),
+      rateLimited(),
+    ]);
+
+    await expect(
+      withRetry(() => provider.generateImages({prompt: 'A cat'}), RETRY),
+    ).rejects.toMatchObject({name: 'GenerationError', kind: 'quota'});
+    expect(generateImages).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const {provider, generateImages} = flakyProvider([
+      new GenerationError('safety', 'Blocked.'),
+    ]);
+
+    await expect(
+      withRetry(() => provider.generateImages({prompt: 'A cat'}), RETRY),
+    ).rejects.toMatchObject({kind: 'safety'});
+    expect(generateImages).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying once the signal aborts', async () => {
+    const controller = new AbortController();
+    const {provider, generateImages} = flakyProvider([rateLimited()]);
+
+    const run = withRetry(
+      () => provider.generateImages({prompt: 'A cat'}),
+      {...RETRY, baseDelayMs: 60_000, maxDelayMs: 60_000},
+      controller.signal,
+    );
+    // Let the first attempt fail, so the run is waiting to retry.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort(new Error('Cancelled.'));
+
+    await expect(run).rejects.toThrow('Cancelled.');
+    expect(generateImages).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {classifyError, isTransientError} from './errors';
+
+interface RetryOptions {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry; it doubles with every further retry. */
+  baseDelayMs: number;
+  /** Upper bound of the delay between attempts. */
+  maxDelayMs: number;
+}
+
+/** Resolves after `ms`, or rejects with the abort reason once `signal` aborts. */
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+/**
+ * The delay before retry number `retry` (from 1): exponential, capped and
+ * jittered by up to a quarter so parallel calls do not retry in lockstep.
+ */
+export const backoffDelay = (
+  retry: number,
+  {baseDelayMs, maxDelayMs}: Omit<RetryOptions, 'maxAttempts'>,
+) => {
+  const exponential = Math.min(baseDelayMs * 2 ** (retry - 1), maxDelayMs);
+  return Math.round(exponential * (0.75 + Math.random() * 0.25));
+};
+
+/**
+ * Runs `fn`, retrying it with exponential backoff while it fails with a
+ * transient error (rate limit, network, timeout). Rethrows the last error as
+ * a `GenerationError` once it fails for good, or the abort reason as soon as
+ * `signal` aborts.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  {maxAttempts, ...backoff}: RetryOptions,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      if (attempt >= maxAttempts || !isTransientError(e)) {
+        throw classifyError(e);
+      }
+      const wait = backoffDelay(attempt, backoff);
+      console.warn(`Attempt ${attempt} failed, retrying in ${wait}ms...`, e);
+      await delay(wait, signal);
+    }
+  }
+}
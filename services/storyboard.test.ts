@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it, vi} from 'vitest';
+import {GenerationError} from './errors';
+import {createMockProvider, MOCK_IMAGE_BASE64} from './mockProvider';
+import {
+  generateSceneFrame,
+  generateStoryboard,
+  StoryboardRequest,
+} from './storyboard';
+
+const request = (overrides: Partial<StoryboardRequest> = {}) => ({
+  scenes: ['A lighthouse at dawn', '', 'A ship in a storm'],
+  imageFile: null,
+  selectedStyle: 'Film Noir',
+  promptFormat: 'json' as const,
+  ...overrides,
+});
+
+describe('generateStoryboard', () => {
+  it('renders a frame for every scene with text', async () => {
+    const generateImages = vi.fn(async () => [MOCK_IMAGE_BASE64]);
+    const provider = createMockProvider({generateImages});
+
+    const result = await generateStoryboard(provider, request());
+
+    expect(generateImages).toHaveBeenCalledTimes(2);
+    expect(result.sceneImages).toEqual([
+      MOCK_IMAGE_BASE64,
+      null,
+      MOCK_IMAGE_BASE64,
+    ]);
+    expect(result.frameErrors).toEqual([null, null, null]);
+    expect(JSON.parse(result.prompts)).toHaveLength(2);
+  });
+
+  it('reuses kept frames instead of rendering them again', async () => {
+    const generateImages = vi.fn(async () => [MOCK_IMAGE_BASE64]);
+    const provider = createMockProvider({generateImages});
+
+    const result = await generateStoryboard(
+      provider,
+      request({keptImages: ['kept-frame']}),
+    );
+
+    expect(generateImages).toHaveBeenCalledTimes(1);
+    expect(result.sceneImages[0]).toBe('kept-frame');
+    expect(result.sceneVariants[0]).toEqual([]);
+  });
+
+  it('keeps going when a frame fails and records why', async () => {
+    const provider = createMockProvider({
+      generateImages: async ({prompt}) => {
+        if (prompt.includes('storm')) {
+          throw new GenerationError('safety', 'Blocked.');
+        }
+        return [MOCK_IMAGE_BASE64];
+      },
+    });
+
+    const result = await generateStoryboard(provider, request());
+
+    expect(result.sceneImages).toEqual([MOCK_IMAGE_BASE64, null, null]);
+    expect(result.frameErrors[0]).toBeNull();
+    expect(result.frameErrors[2]?.kind).toBe('safety');
+  });
+
+  it('analyzes the reference image unless a style profile is given', async () => {
+    const analyzeStyle = vi.fn(createMockProvider().analyzeStyle);
+    const provider = createMockProvider({analyzeStyle});
+    const imageFile = new File(['image'], 'reference.jpg', {
+      type: 'image/jpeg',
+    });
+
+    await generateStoryboard(provider, request({imageFile}));
+    expect(analyzeStyle).toHaveBeenCalledTimes(1);
+
+    await generateStoryboard(
+      provider,
+      request({imageFile, styleProfile: await analyzeStyle([imageFile])}),
+    );
+    expect(analyzeStyle).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('generateSceneFrame', () => {
+  it('reuses the style of the full run instead of analyzing again', async () => {
+    const analyzeStyle = vi.fn(createMockProvider().analyzeStyle);
+    const generateImages = vi.fn(async () => [MOCK_IMAGE_BASE64]);
+    const provider = createMockProvider({analyzeStyle, generateImages});
+    const imageFile = new File(['image'], 'reference.jpg', {
+      type: 'image/jpeg',
+    });
+
+    const {styleForPrompt} = await generateStoryboard(
+      provider,
+      request({imageFile}),
+    );
+    const frame = await generateSceneFrame(provider, {
+      scene: 'A ship in calm water',
+      imageFile,
+      selectedStyle: 'Film Noir',
+      styleForPrompt,
+    });
+
+    expect(analyzeStyle).toHaveBeenCalledTimes(1);
+    expect(frame).toEqual({variants: [MOCK_IMAGE_BASE64], styleForPrompt});
+    expect(generateImages).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        prompt: expect.stringContaining(styleForPrompt),
+      }),
+      expect.anything(),
+    );
+  });
+});
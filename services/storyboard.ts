@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CastMember, ImageSettings, StyleProfile, VideoFormat} from '../types';
+import {describeCast, findCastInScene} from '../utils/cast';
+import {formatStyleProfile, styleProfileKeywords} from '../utils/styleProfile';
+import {
+  CallOptions,
+  GenerationProvider,
+  PromptFormat,
+} from './generationProvider';
+import {classifyError, GenerationError} from './errors';
+import {DEFAULT_IMAGE_SETTINGS, imageRequest} from './imageSettings';
+import {
+  createProgressTracker,
+  ProgressCallback,
+  ProgressTracker,
+} from './progress';
+import {DEFAULT_VIDEO_FORMAT, imageAspectRatioFor} from './videoFormat';
+
+export interface StoryboardRequest {
+  scenes: string[];
+  imageFile: File | null;
+  selectedStyle: string;
+  promptFormat: PromptFormat;
+  /** A saved style to follow instead of analyzing the reference image. */
+  styleProfile?: StyleProfile | null;
+  /**
+   * Frames to reuse instead of rendering again, by scene index, e.g. the
+   * frames the user has locked. Missing or null entries are rendered.
+   */
+  keptImages?: (string | null)[];
+  /** Recurring characters and objects, described in every scene naming them. */
+  cast?: CastMember[];
+  /** Fixed timing of each scene in a music track, by scene index. */
+  timings?: string[];
+  /** The project's image settings for the frames. */
+  imageSettings?: ImageSettings;
+  /** The frame the video is made for; landscape 16:9 if not given. */
+  videoFormat?: VideoFormat;
+}
+
+export interface SceneFrameRequest {
+  scene: string;
+  imageFile: File | null;
+  selectedStyle: string;
+  styleProfile?: StyleProfile | null;
+  /**
+   * The style keywords the rest of the storyboard was rendered with. Without
+   * them the style is resolved again, which analyzes the reference image.
+   */
+  styleForPrompt?: string;
+  cast?: CastMember[];
+  imageSettings?: ImageSettings;
+  videoFormat?: VideoFormat;
+}
+
+export interface SceneFrameResult {
+  /** The base64 variants of the frame. */
+  variants: string[];
+  /** The style keywords the frame was rendered with, for reuse. */
+  styleForPrompt: string;
+}
+
+export interface StoryboardResult {
+  prompts: string;
+  /**
+   * One base64 frame per entry in `scenes`, the first of its variants; null
+   * for empty or failed scenes.
+   */
+  sceneImages: (string | null)[];
+  /**
+   * Every rendered variant of each frame, by scene index; empty for kept,
+   * empty or failed scenes.
+   */
+  sceneVariants: string[][];
+  /** Why each failed frame failed, by scene index; null for the others. */
+  frameErrors: (GenerationError | null)[];
+  /**
+   * The style keywords the frames were rendered with, so single frames can
+   * be regenerated to match without analyzing the reference image again.
+   */
+  styleForPrompt: string;
+}
+
+export interface StoryboardRunOptions extends CallOptions {
+  /** Receives the stages of the run and the streamed master prompt. */
+  onProgress?: ProgressCallback;
+}
+
+interface ResolvedStyle {
+  /** The style description given to the master prompt model. */
+  styleGuide: string;
+  /** Comma-separated style keywords prepended to each frame prompt. */
+  styleForPrompt: string;
+}
+
+/**
+ * Combines the selected cinematic style with a saved style profile or, if
+ * there is none, the analyzed style of the reference image. The analysis is
+ * reported as the `style` stage of `progress`.
+ */
+async function resolveStyle(
+  provider: GenerationProvider,
+  imageFile: File | null,
+  selectedStyle: string,
+  styleProfile: StyleProfile | null = null,
+  progress?: ProgressTracker,
+  signal?: AbortSignal,
+): Promise<ResolvedStyle> {
+  let styleGuide =
+    selectedStyle !== 'No Style'
+      ? `Cinematic Style: ${selectedStyle}.`
+      : 'No specific cinematic style has been selected; rely on the reference image (if provided) and scene descriptions for style cues.';
+  let profile = styleProfile;
+  if (!profile && imageFile) {
+    progress?.start('style');
+    try {
+      profile = await provider.analyzeStyle([imageFile], {signal});
+      progress?.finish('style');
+    } catch (e) {
+      if (signal?.aborted) {
+        throw e;
+      }
+      console.error('Failed to analyze image style, proceeding without it.', e);
+      progress?.fail('style');
+    }
+  }
+  if (profile) {
+    styleGuide += `\n${
+      styleProfile ? 'Style Profile' : 'Reference Image Style'
+    }:\n${formatStyleProfile(profile)}`;
+  }
+
+  const styleForPrompt = [
+    selectedStyle !== 'No Style' ? selectedStyle : '',
+    profile ? styleProfileKeywords(profile) : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return {styleGuide, styleForPrompt};
+}
+
+const renderFrame = (
+  provider: GenerationProvider,
+  scene: string,
+  styleForPrompt: string,
+  cast: CastMember[],
+  imageSettings: ImageSettings,
+  videoFormat: VideoFormat,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  const featuring = describeCast(findCastInScene(cast, scene));
+  return provider.generateImages(
+    imageRequest(
+      `${
+        styleForPrompt ? styleForPrompt + ', ' : ''
+      }cinematic shot depicting ${scene.trim()}${
+        featuring ? `. Featuring ${featuring}` : ''
+      }`,
+      imageSettings,
+      imageAspectRatioFor(videoFormat, '4:3'),
+    ),
+    {signal},
+  );
+};
+
+/**
+ * Renders the variants of a single storyboard scene's frame in the same
+ * style as the full pipeline, for regenerating one frame without touching
+ * the others. The style of the full run is reused when it is given.
+ */
+export async function generateSceneFrame(
+  provider: GenerationProvider,
+  {
+    scene,
+    imageFile,
+    selectedStyle,
+    styleProfile,
+    styleForPrompt,
+    cast = [],
+    imageSettings = DEFAULT_IMAGE_SETTINGS,
+    videoFormat = DEFAULT_VIDEO_FORMAT,
+  }: SceneFrameRequest,
+  {signal}: CallOptions = {},
+): Promise<SceneFrameResult> {
+  const style =
+    styleForPrompt ??
+    (
+      await resolveStyle(
+        provider,
+        imageFile,
+        selectedStyle,
+        styleProfile,
+        undefined,
+        signal,
+      )
+    ).styleForPrompt;
+  const variants = await renderFrame(
+    provider,
+    scene,
+    style,
+    cast,
+    imageSettings,
+    videoFormat,
+    signal,
+  );
+  return {variants, styleForPrompt: style};
+}
+
+/**
+ * Runs the full storyboard pipeline: analyzes the reference image style
+ * unless a saved style profile is given,
+ * renders a frame for every scene and then asks the model for the director's
+ * master prompt based on the scene text and frames. Kept frames are passed to
+ * the master prompt as they are.
+ *
+ * Each step is reported to `onProgress` as a stage, together with the master
+ * prompt text as it streams in.
+ */
+export async function generateStoryboard(
+  provider: GenerationProvider,
+  {
+    scenes,
+    imageFile,
+    selectedStyle,
+    promptFormat,
+    styleProfile,
+    keptImages = [],
+    cast = [],
+    timings = [],
+    imageSettings = DEFAULT_IMAGE_SETTINGS,
+    videoFormat = DEFAULT_VIDEO_FORMAT,
+  }: StoryboardRequest,
+  {onProgress, signal}: StoryboardRunOptions = {},
+): Promise<StoryboardResult> {
+  const framesToRender = scenes.flatMap((scene, index) =>
+    scene.trim() && !keptImages[index] ? [index] : [],
+  );
+  const progress = createProgressTracker(
+    [
+      ...(!styleProfile && imageFile
+        ? [{id: 'style', label: 'Analyzing the reference style'}]
+        : []),
+      ...framesToRender.map((sceneIndex, k) => ({
+        id: `frame-${sceneIndex}`,
+        label: `Frame ${k + 1} of ${framesToRender.length}`,
+      })),
+      {id: 'prompt', label: "Writing the director's prompt"},
+    ],
+    onProgress,
+  );
+
+  // Step 1: Create a unified style guide
+  const {styleGuide, styleForPrompt} = await resolveStyle(
+    provider,
+    imageFile,
+    selectedStyle,
+    styleProfile,
+    progress,
+    signal,
+  );
+
+  // Step 2: Generate images for each scene description in parallel
+  const imageResults = await Promise.allSettled(
+    scenes.map((scene, index) => {
+      if (!framesToRender.includes(index)) {
+        return Promise.resolve([]);
+      }
+      const stage = `frame-${index}`;
+      progress.start(stage);
+      return renderFrame(
+        provider,
+        scene,
+        styleForPrompt,
+        cast,
+        imageSettings,
+        videoFormat,
+        signal,
+      ).then(
+        (images) => {
+          progress.finish(stage);
+          return images;
+        },
+        (e) => {
+          progress.fail(stage);
+          throw e;
+        },
+      );
+    }),
+  );
+  // Failed frames are left empty, but a cancelled run stops here.
+  signal?.throwIfAborted();
+  const sceneVariants = imageResults.map((result) => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    console.error('Failed to generate scene image:', result.reason);
+    return [];
+  });
+  const frameErrors = imageResults.map((result) =>
+    result.status === 'rejected' ? classifyError(result.reason) : null,
+  );
+  const sceneImages = scenes.map((scene, index) =>
+    scene.trim()
+      ? (keptImages[index] ?? sceneVariants[index][0] ?? null)
+      : null,
+  );
+
+  // Step 3: Generate the master prompt using text, images and the cast that
+  // appears in the scenes
+  const promptScenes = scenes
+    .map((scene, index) => ({
+      description: scene.trim(),
+      image: sceneImages[index],
+      cast: findCastInScene(cast, scene),
+      timing: timings[index],
+    }))
+    .filter((scene) => scene.description);
+  progress.start('prompt');
+  let prompts: string;
+  try {
+    prompts = await provider.generateStoryboardPrompt(
+      {
+        scenes: promptScenes.map((scene) => ({
+          ...scene,
+          cast: scene.cast.map((member) => member.name.trim()),
+        })),
+        cast: cast.filter((member) =>
+          promptScenes.some((scene) => scene.cast.includes(member)),
+        ),
+        styleGuide,
+        promptFormat,
+        videoFormat,
+      },
+      {onText: progress.stream, signal},
+    );
+  } catch (e) {
+    progress.fail('prompt');
+    throw e;
+  }
+  progress.finish('prompt');
+
+  return {prompts, sceneImages, sceneVariants, frameErrors, styleForPrompt};
+}
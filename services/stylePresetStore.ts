@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {StylePreset} from '../types';
+import {withStore} from './db';
+
+/** Lists the user's own style presets by name. */
+export const listStylePresets = async (): Promise<StylePreset[]> => {
+  const presets = await withStore<StylePreset[]>(
+    'stylePresets',
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Adds a style preset, or updates one saved earlier. */
+export const saveStylePreset = async (preset: StylePreset): Promise<void> => {
+  await withStore('stylePresets', 'readwrite', (store) => store.put(preset));
+};
+
+export const deleteStylePreset = async (id: string): Promise<void> => {
+  await withStore('stylePresets', 'readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {SavedStyle} from '../types';
+import {withStore} from './db';
+
+/** Lists the user's style library, newest first. */
+export const listStyles = async (): Promise<SavedStyle[]> => {
+  const styles = await withStore<SavedStyle[]>('styles', 'readonly', (store) =>
+    store.getAll(),
+  );
+  return styles.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Adds a style to the library, or updates one saved earlier. */
+export const saveStyle = async (style: SavedStyle): Promise<void> => {
+  await withStore('styles', 'readwrite', (store) => store.put(style));
+};
+
+export const deleteStyle = async (id: string): Promise<void> => {
+  await withStore('styles', 'readwrite', (store) => store.delete(id));
+};
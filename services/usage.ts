@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The billable units consumed by one or more model calls. */
+export interface Usage {
+  textInputTokens: number;
+  textOutputTokens: number;
+  images: number;
+  videoSeconds: number;
+}
+
+export const EMPTY_USAGE: Usage = {
+  textInputTokens: 0,
+  textOutputTokens: 0,
+  images: 0,
+  videoSeconds: 0,
+};
+
+export const addUsage = (a: Usage, b: Partial<Usage>): Usage => ({
+  textInputTokens: a.textInputTokens + (b.textInputTokens ?? 0),
+  textOutputTokens: a.textOutputTokens + (b.textOutputTokens ?? 0),
+  images: a.images + (b.images ?? 0),
+  videoSeconds: a.videoSeconds + (b.videoSeconds ?? 0),
+});
+
+/**
+ * Collects the usage reported by a provider. Providers call `record` after
+ * every billable call; callers wrap a run in `measure` to get its total.
+ */
+export interface UsageMeter {
+  record(usage: Partial<Usage>): void;
+  /**
+   * Runs `run` and returns its result together with the usage recorded while
+   * it was in flight. Overlapping runs each see the other's calls.
+   */
+  measure<T>(run: () => Promise<T>): Promise<{result: T; usage: Usage}>;
+}
+
+export const createUsageMeter = (): UsageMeter => {
+  const activeRuns = new Set<{usage: Usage}>();
+  return {
+    record: (usage) => {
+      for (const run of activeRuns) {
+        run.usage = addUsage(run.usage, usage);
+      }
+    },
+    measure: async (run) => {
+      const measured = {usage: EMPTY_USAGE};
+      activeRuns.add(measured);
+      try {
+        const result = await run();
+        return {result, usage: measured.usage};
+      } finally {
+        activeRuns.delete(measured);
+      }
+    },
+  };
+};
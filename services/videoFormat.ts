@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageAspectRatio, VideoAspectRatio, VideoFormat} from '../types';
+
+export const DEFAULT_VIDEO_FORMAT: VideoFormat = '16:9';
+
+export const VIDEO_FORMATS: {
+  format: VideoFormat;
+  label: string;
+  /** Where videos in the format are posted. */
+  platforms: string;
+}[] = [
+  {format: '16:9', label: 'Landscape', platforms: 'YouTube, websites'},
+  {format: '9:16', label: 'Vertical', platforms: 'Shorts, Reels, TikTok'},
+  {format: '1:1', label: 'Square', platforms: 'Social feeds'},
+  {format: '4:5', label: 'Portrait', platforms: 'Instagram, Facebook feeds'},
+];
+
+/**
+ * The aspect ratio of the stills made for a format. Landscape keeps the
+ * generator's own ratio, e.g. 4:3 storyboard frames; 4:5 has no image
+ * equivalent and uses the closest one, 3:4.
+ */
+export const imageAspectRatioFor = (
+  format: VideoFormat,
+  landscapeRatio: ImageAspectRatio,
+): ImageAspectRatio => {
+  switch (format) {
+    case '16:9':
+      return landscapeRatio;
+    case '9:16':
+      return '9:16';
+    case '1:1':
+      return '1:1';
+    case '4:5':
+      return '3:4';
+  }
+};
+
+/**
+ * The aspect ratio clips are rendered at for a format. The video model only
+ * renders 16:9 and 9:16, so square and portrait clips come out vertical. The
+ * app does not crop them; the prompts keep the action inside the target frame
+ * so they can be cropped when they are posted.
+ */
+export const videoAspectRatioFor = (format: VideoFormat): VideoAspectRatio =>
+  format === '16:9' ? '16:9' : '9:16';
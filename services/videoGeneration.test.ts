@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideosOperation} from '@google/genai';
+import {describe, expect, it, vi} from 'vitest';
+import {generateVideo, VideoGenerationClient} from './videoGeneration';
+
+const VIDEO_URI = 'https://example.com/files/clip.mp4';
+
+const OPTIONS = {
+  model: 'veo-test',
+  prompt: 'A lighthouse at dawn',
+  pollIntervalMs: 1,
+};
+
+/**
+ * A fake client whose operation reports each of `states` in turn, one per
+ * poll, and stays on the last one.
+ */
+const fakeClient = (states: Partial<GenerateVideosOperation>[]) => {
+  let poll = 0;
+  const nextState = async () => {
+    const state = states[Math.min(poll++, states.length - 1)];
+    return {...state} as GenerateVideosOperation;
+  };
+  return {
+    generateVideos: vi.fn(nextState),
+    getVideosOperation: vi.fn(nextState),
+    fetchVideo: vi.fn(async () => new Blob(['clip'], {type: 'video/mp4'})),
+  } satisfies VideoGenerationClient;
+};
+
+const finished = (uri = VIDEO_URI): Partial<GenerateVideosOperation> => ({
+  done: true,
+  response: {generatedVideos: [{video: {uri}}]},
+});
+
+describe('generateVideo', () => {
+  it('polls the operation until it is done and downloads the clip', async () => {
+    const client = fakeClient([{done: false}, {done: false}, finished()]);
+
+    const clip = await generateVideo(client, OPTIONS);
+
+    expect(client.getVideosOperation).toHaveBeenCalledTimes(2);
+    expect(client.fetchVideo).toHaveBeenCalledWith(VIDEO_URI, undefined);
+    expect(await clip.text()).toBe('clip');
+  });
+
+  it('returns a clip sent inline, as Vertex AI does', async () => {
+    const client = fakeClient([
+      {
+        done: true,
+        response: {
+          generatedVideos: [
+            {video: {videoBytes: btoa('inline clip'), mimeType: 'video/mp4'}},
+          ],
+        },
+      },
+    ]);
+
+    const clip = await generateVideo(client, OPTIONS);
+
+    expect(client.fetchVideo).not.toHaveBeenCalled();
+    expect(clip.type).toBe('video/mp4');
+    expect(await clip.text()).toBe('inline clip');
+  });
+
+  it('throws a classified error when the operation failed', async () => {
+    const client = fakeClient([
+      {done: true, error: {message: 'RESOURCE_EXHAUSTED'}},
+    ]);
+
+    await expect(generateVideo(client, OPTIONS)).rejects.toMatchObject({
+      name: 'GenerationError',
+      kind: 'quota',
+      message: 'Video generation failed: RESOURCE_EXHAUSTED',
+    });
+    expect(client.fetchVideo).not.toHaveBeenCalled();
+  });
+
+  it('reports a clip blocked by the safety filters', async () => {
+    const client = fakeClient([
+      {
+        done: true,
+        response: {
+          raiMediaFilteredCount: 1,
+          raiMediaFilteredReasons: ['The prompt shows a real person.'],
+        },
+      },
+    ]);
+
+    await expect(generateVideo(client, OPTIONS)).rejects.toMatchObject({
+      kind: 'safety',
+      message: 'The prompt shows a real person.',
+    });
+  });
+
+  it('reports an operation that finished without a clip', async () => {
+    const client = fakeClient([{done: true, response: {}}]);
+
+    await expect(generateVideo(client, OPTIONS)).rejects.toMatchObject({
+      kind: 'invalidOutput',
+    });
+  });
+
+  it('gives up once the operation runs past the timeout', async () => {
+    const client = fakeClient([{done: false}]);
+
+    await expect(
+      generateVideo(client, {...OPTIONS, timeoutMs: 5}),
+    ).rejects.toMatchObject({kind: 'timeout'});
+    expect(client.fetchVideo).not.toHaveBeenCalled();
+  });
+
+  it('stops polling once the signal aborts', async () => {
+    const controller = new AbortController();
+    const client = fakeClient([{done: false}]);
+
+    const run = generateVideo(client, {
+      ...OPTIONS,
+      pollIntervalMs: 60_000,
+      signal: controller.signal,
+    });
+    // Let the request be submitted, so the run is waiting to poll.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort(new Error('Cancelled.'));
+
+    await expect(run).rejects.toThrow('Cancelled.');
+    expect(client.getVideosOperation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  GoogleGenAI,
+  Image,
+} from '@google/genai';
+import {VideoAspectRatio} from '../types';
+import {base64ToBytes, fileToBase64} from '../utils/files';
+import {classifyError, GenerationError} from './errors';
+import {delay} from './retry';
+
+/**
+ * The minimal surface of a video generation backend. The default client talks
+ * to the Gemini API, but any implementation (e.g. one pointed at a local fake
+ * operation server) can be plugged in.
+ */
+export interface VideoGenerationClient {
+  /** Submits a generation request and returns the long-running operation. */
+  generateVideos(
+    params: GenerateVideosParameters,
+  ): Promise<GenerateVideosOperation>;
+  /** Fetches the latest state of a previously submitted operation. */
+  getVideosOperation(
+    operation: GenerateVideosOperation,
+    signal?: AbortSignal,
+  ): Promise<GenerateVideosOperation>;
+  /** Downloads the bytes of a generated video from its URI. */
+  fetchVideo(uri: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+interface VideoGenerationClientOptions {
+  apiKey?: string;
+  /** Overrides the API endpoint, e.g. `http://localhost:8080` for a fake server. */
+  baseUrl?: string;
+  /** Calls Vertex AI in express mode instead of the Gemini API. */
+  vertexai?: boolean;
+}
+
+/**
+ * Creates a `VideoGenerationClient` backed by the `@google/genai` SDK.
+ */
+export const createVideoGenerationClient = ({
+  apiKey,
+  baseUrl,
+  vertexai,
+}: VideoGenerationClientOptions): VideoGenerationClient => {
+  const ai = new GoogleGenAI({
+    apiKey,
+    vertexai,
+    httpOptions: baseUrl ? {baseUrl} : undefined,
+  });
+
+  return {
+    generateVideos: (params) => ai.models.generateVideos(params),
+    getVideosOperation: (operation, signal) =>
+      ai.operations.getVideosOperation({
+        operation,
+        config: signal ? {abortSignal: signal} : undefined,
+      }),
+    fetchVideo: async (uri, signal) => {
+      // Generated video URIs require the API key to be downloaded.
+      const url = new URL(uri, baseUrl);
+      if (apiKey) {
+        url.searchParams.set('key', apiKey);
+      }
+      const response = await fetch(url.toString(), {signal});
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download generated video (HTTP ${response.status}).`,
+        );
+      }
+      return response.blob();
+    },
+  };
+};
+
+interface GenerateVideoOptions {
+  /** The Veo model to call. */
+  model: string;
+  prompt: string;
+  /** An optional image used as the first frame of the clip. */
+  imageFile?: File | null;
+  /** What the clip should not show. */
+  negativePrompt?: string;
+  aspectRatio?: VideoAspectRatio;
+  /** How long to wait between operation status checks. */
+  pollIntervalMs?: number;
+  /** Give up if the operation has not finished after this long. */
+  timeoutMs?: number;
+  /**
+   * Stops polling and downloading once aborted. The operation itself keeps
+   * running on the server and is still billed.
+   */
+  signal?: AbortSignal;
+}
+
+const toImage = async (file: File): Promise<Image> => ({
+  imageBytes: await fileToBase64(file),
+  mimeType: file.type,
+});
+
+/**
+ * Submits a prompt (and optional first-frame image) to Veo, polls the
+ * long-running operation until it completes and returns the resulting clip.
+ * The Gemini API does not take a last frame.
+ */
+export async function generateVideo(
+  client: VideoGenerationClient,
+  {
+    prompt,
+    imageFile = null,
+    negativePrompt,
+    aspectRatio = '16:9',
+    model,
+    pollIntervalMs = 10_000,
+    timeoutMs = 10 * 60_000,
+    signal,
+  }: GenerateVideoOptions,
+): Promise<Blob> {
+  let operation = await client.generateVideos({
+    model,
+    prompt,
+    image: imageFile ? await toImage(imageFile) : undefined,
+    config: {
+      numberOfVideos: 1,
+      aspectRatio,
+      ...(negativePrompt ? {negativePrompt} : {}),
+      abortSignal: signal,
+    },
+  });
+
+  const deadline = Date.now() + timeoutMs;
+  while (!operation.done) {
+    if (Date.now() > deadline) {
+      throw new GenerationError('timeout', 'Video generation timed out.');
+    }
+    await delay(pollIntervalMs, signal);
+    operation = await client.getVideosOperation(operation, signal);
+  }
+
+  if (operation.error) {
+    throw classifyError(
+      new Error(
+        `Video generation failed: ${
+          (operation.error.message as string) ?? JSON.stringify(operation.error)
+        }`,
+      ),
+    );
+  }
+
+  const video = operation.response?.generatedVideos?.[0]?.video;
+  // Vertex AI returns the clip itself rather than a URI to download it from.
+  if (video?.videoBytes) {
+    return new Blob([base64ToBytes(video.videoBytes)], {
+      type: video.mimeType ?? 'video/mp4',
+    });
+  }
+  if (!video?.uri) {
+    const filteredReasons = operation.response?.raiMediaFilteredReasons ?? [];
+    throw operation.response?.raiMediaFilteredCount
+      ? new GenerationError(
+          'safety',
+          filteredReasons.join(' ') ||
+            'The clip was blocked by the safety filters.',
+        )
+      : new GenerationError(
+          'invalidOutput',
+          'No video was returned by the generation operation.',
+        );
+  }
+
+  return client.fetchVideo(video.uri, signal);
+}
@@ -12,4 +12,389 @@ export interface Video {
   imageUrl: string;
   title: string;
   description: string;
-}
\ No newline at end of file
+  /** Labels to filter the user's own creations by. */
+  tags?: string[];
+  /** The video this one was remixed from. */
+  parentId?: string;
+}
+/**
+ * A single ~2-second segment of a logo animation, as produced by the JSON
+ * logo prompt generator.
+ */
+export interface LogoSegment {
+  segment_number: number;
+  segment_title: string;
+  time_range: string;
+  setting: string;
+  action_and_movement: string;
+  camera: string;
+  visual_style_and_aesthetics: string;
+  audio: string;
+  text_overlay: string;
+  generation_prompt: string;
+}
+
+/**
+ * A single segment of a YouTube intro, as produced by the JSON intro prompt
+ * generator.
+ */
+export interface IntroSegment {
+  segment_number: number;
+  segment_title: string;
+  time_range: string;
+  setting: string;
+  action_and_movement: string;
+  camera: string;
+  visual_style_and_aesthetics: string;
+  audio: string;
+  text_and_overlays: string;
+  generation_prompt: string;
+}
+
+/**
+ * A single shot of a cinematic storyboard, as produced by the JSON director's
+ * prompt generator.
+ */
+export interface StoryboardShot {
+  shot_number: number;
+  scene_description: string;
+  suggested_duration: string;
+  subject: string;
+  action: string;
+  scene: string;
+  camera: {
+    angle: string;
+    movement: string;
+    lens_effects: string;
+  };
+  style: {
+    visual_style: string;
+    mood: string;
+    lighting: string;
+    color_palette: string;
+  };
+  audio: {
+    ambience: string;
+    sfx: string[];
+    music: string;
+  };
+  generation_prompt: string;
+}
+
+/**
+ * A single narration beat of a faceless video, as produced by the Cash Cow
+ * script generator.
+ */
+export interface CashCowBeat {
+  beat_number: number;
+  /** Start and end of the beat in the finished video, in seconds. */
+  start_seconds: number;
+  end_seconds: number;
+  narration: string;
+  /** The short on-screen caption shown during the beat. */
+  caption: string;
+  /** The b-roll shown under the narration. */
+  generation_prompt: string;
+}
+
+/** The kinds of video the studio can generate prompts for. */
+export type VideoType =
+  | 'storyboard'
+  | 'logo'
+  | 'introOutro'
+  | 'explainer'
+  | 'musicVideo'
+  | 'cashCow';
+
+export type PromptFormat = 'classic' | 'json';
+
+/**
+ * A single shot of an explainer video, as produced by the JSON explainer
+ * prompt generator.
+ */
+export interface ExplainerShot {
+  shot_number: number;
+  key_point_covered?: string;
+  audio: {
+    voiceover?: string;
+  };
+  generation_prompt: string;
+}
+
+/** A single explainer shot together with its generated frame. */
+export interface ExplainerScene {
+  scene: ExplainerShot;
+  image: string | null;
+}
+
+/**
+ * A named character or object that should look the same in every scene that
+ * mentions it.
+ */
+export interface CastMember {
+  id: string;
+  name: string;
+  description: string;
+  referenceImage: File | null;
+}
+
+/** The inputs of the Cinematic Storyboard generator. */
+export interface StoryboardFormState {
+  referenceImage: File | null;
+  scenes: string[];
+  styleName: string;
+  promptFormat: PromptFormat;
+  /** Per scene, whether its frame is kept when the storyboard is regenerated. */
+  lockedFrames: boolean[];
+  cast: CastMember[];
+}
+
+/** The inputs of the Logo Animation generator. */
+export interface LogoFormState {
+  logoFile: File | null;
+  animationStyle: string;
+  background: string;
+  sfx: string;
+  tagline: string;
+  promptFormat: PromptFormat;
+}
+
+/** The inputs of the YouTube Intro/Outro generator. */
+export interface IntroFormState {
+  channelName: string;
+  videoTopic: string;
+  visualStyle: string;
+  energy: string;
+  specificElements: string;
+  promptFormat: PromptFormat;
+}
+
+/** The inputs of the Explainer Video generator. */
+export interface ExplainerFormState {
+  topic: string;
+  keyPoints: string[];
+  visualStyle: string;
+  duration: string;
+  audience: string;
+  cta: string;
+}
+
+/** The inputs of the Cash Cow faceless video generator. */
+export interface CashCowFormState {
+  niche: string;
+  topic: string;
+  duration: string;
+  tone: string;
+}
+
+/** How loud a section of a music track is, relative to the whole track. */
+export type EnergyLevel = 'low' | 'medium' | 'high';
+
+/** A shot of a music video, cut to the beat of the track. */
+export interface MusicVideoShot {
+  /** Start and end in the track, in seconds. */
+  start: number;
+  end: number;
+  energy: EnergyLevel;
+  /** What the shot shows, written to fit the song and its section. */
+  description: string;
+}
+
+/** The inputs of the Music Video generator. */
+export interface MusicVideoFormState {
+  audioFile: File | null;
+  mood: string;
+  lyrics: string;
+  referenceImage: File | null;
+  styleName: string;
+  promptFormat: PromptFormat;
+  /** The shot list of the last generation, one per storyboard frame. */
+  shots: MusicVideoShot[];
+}
+
+/** The inputs of every generator, keyed by video type. */
+export interface GeneratorForms {
+  storyboard: StoryboardFormState;
+  logo: LogoFormState;
+  introOutro: IntroFormState;
+  explainer: ExplainerFormState;
+  musicVideo: MusicVideoFormState;
+  cashCow: CashCowFormState;
+}
+
+/** Aspect ratios supported for still images. */
+export type ImageAspectRatio = '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
+
+/** Aspect ratios supported for video clips. */
+export type VideoAspectRatio = '16:9' | '9:16';
+
+/**
+ * The frame a project's videos are made for: landscape, vertical (Shorts and
+ * Reels), square or portrait.
+ */
+export type VideoFormat = '16:9' | '9:16' | '1:1' | '4:5';
+
+/** Advanced options for the still images a project generates. */
+export interface ImageSettings {
+  /**
+   * What the images should not show. The image models take no negative
+   * prompt through the Gemini API, so it is added to the prompt instead.
+   */
+  negativePrompt: string;
+  /** How many variants of each storyboard frame to generate to pick from. */
+  variantCount: number;
+  /** A fixed seed for reproducible images; null for a random one. */
+  seed: number | null;
+  outputFormat: 'jpeg' | 'png';
+  /** Null follows the project's target format. */
+  aspectRatio: ImageAspectRatio | null;
+}
+
+/**
+ * A named, locally saved project: the selected video type, the inputs of all
+ * generators and the generated outputs.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  videoType: VideoType;
+  forms: GeneratorForms;
+  masterPrompt: string;
+  /**
+   * Base64 JPEG or PNG storyboard frames, one per storyboard scene, music
+   * video shot or Cash Cow beat.
+   */
+  sceneImages: (string | null)[];
+  explainerScenes: ExplainerScene[] | null;
+  /** Missing in projects saved before image settings existed. */
+  imageSettings?: ImageSettings;
+  /** Missing in projects saved before formats existed, which are 16:9. */
+  videoFormat?: VideoFormat;
+}
+
+/** An example scene rendered from a master prompt. */
+export interface RenderedScene {
+  /** The shot prompt sent to the video model. */
+  prompt: string;
+  video: Blob;
+  /** The image the clip started on, if it was conditioned. */
+  imageFile?: File | null;
+}
+
+/**
+ * One run of a generator, kept in the generation history so it can be
+ * restored into the editor, run again or compared with other runs.
+ */
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  videoType: VideoType;
+  /** The generator's inputs at the time of the run. */
+  form: GeneratorForms[VideoType];
+  /** The output format, which picks the system instruction the model got. */
+  promptFormat: PromptFormat;
+  /** The model that wrote the prompt, or rendered the scene. */
+  model: string;
+  masterPrompt: string;
+  /** Base64 frames, as in `Project.sceneImages`. */
+  sceneImages: (string | null)[];
+  explainerScenes: ExplainerScene[] | null;
+  /** Set when the entry records an example scene rather than a prompt. */
+  renderedScene: RenderedScene | null;
+}
+
+/**
+ * A clip or still frame the user generated, kept in their local "My
+ * Creations" gallery and shown there as a `Video` with object URLs.
+ */
+export interface Creation {
+  id: string;
+  createdAt: number;
+  title: string;
+  /** The prompt or scene it was generated from. */
+  description: string;
+  tags: string[];
+  /** The clip; null for a still frame. */
+  video: Blob | null;
+  /** The still frame, or the clip's poster if one could be made. */
+  image: Blob | null;
+  /** The video this one was remixed from. */
+  parentId?: string;
+}
+
+/**
+ * A creation about to be saved. It is timestamped on save and gets a new ID
+ * unless it is given one.
+ */
+export type NewCreation = Omit<Creation, 'id' | 'createdAt'> & {id?: string};
+
+/**
+ * The visual style of one or more reference images, broken down so the user
+ * can edit each aspect before it is applied to a generation.
+ */
+export interface StyleProfile {
+  /** The dominant colours as hex codes, e.g. `#1f2a44`. */
+  palette: string[];
+  lighting: string;
+  lens: string;
+  texture: string;
+  era: string;
+  mood: string;
+}
+
+/** A style profile the user saved to their style library under a name. */
+export interface SavedStyle {
+  id: string;
+  name: string;
+  createdAt: number;
+  profile: StyleProfile;
+}
+
+/** The generators whose style is picked from style presets. */
+export type StylePresetTarget = Extract<
+  VideoType,
+  'storyboard' | 'logo' | 'introOutro'
+>;
+
+/**
+ * A named style offered by the style picker of one or more generators. The
+ * built-in presets ship with the app; the user's own can be edited, exported
+ * as JSON and imported elsewhere.
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  targets: StylePresetTarget[];
+  /** Extra wording added to the prompts, e.g. "anamorphic lens flares". */
+  promptFragment: string;
+  /**
+   * What the clips should avoid, e.g. "text, watermarks". They are sent to
+   * the video model as its negative prompt, never in the prompt text.
+   */
+  negativeTerms: string;
+  /** A preview image; only the built-in cinematic styles have one. */
+  imageUrl?: string;
+  builtIn?: boolean;
+}
+
+/** Text encrypted with a key derived from a passphrase; all fields base64. */
+export interface EncryptedText {
+  /** PBKDF2 salt the key was derived with. */
+  salt: string;
+  /** AES-GCM initialization vector. */
+  iv: string;
+  ciphertext: string;
+}
+
+/** A Gemini API key saved in the browser, encrypted with a passphrase. */
+export interface StoredApiKey {
+  id: string;
+  label: string;
+  createdAt: number;
+  /** The last characters of the key, to tell saved keys apart. */
+  hint: string;
+  encryptedKey: EncryptedText;
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {analyzeAudio, formatTimecode} from './audioAnalysis';
+
+const SAMPLE_RATE = 22050;
+
+/** A 220Hz tone pulsing at 120 BPM, at a loudness that can change over time. */
+const pulsingTone = (seconds: number, amplitude: (time: number) => number) => {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    const envelope = 0.3 + 0.7 * Math.exp(-(time % 0.5) * 20);
+    samples[i] =
+      amplitude(time) * envelope * Math.sin(2 * Math.PI * 220 * time);
+  }
+  return samples;
+};
+
+describe('analyzeAudio', () => {
+  it('finds the tempo of a steady pulse', () => {
+    const {bpm} = analyzeAudio(
+      pulsingTone(20, () => 0.2),
+      SAMPLE_RATE,
+    );
+    expect(bpm).toBeGreaterThanOrEqual(115);
+    expect(bpm).toBeLessThanOrEqual(125);
+  });
+
+  it('keeps a track of even loudness in one medium section', () => {
+    const {sections} = analyzeAudio(
+      pulsingTone(60, () => 0.2),
+      SAMPLE_RATE,
+    );
+    expect(sections).toEqual([{start: 0, end: 60, energy: 'medium'}]);
+  });
+
+  it('splits a track into a quiet and a loud section where it gets louder', () => {
+    const {sections} = analyzeAudio(
+      pulsingTone(60, (time) => (time < 30 ? 0.1 : 0.3)),
+      SAMPLE_RATE,
+    );
+    expect(sections.map((section) => section.energy)).toEqual(['low', 'high']);
+    // The split lands on the bar line nearest the change, 2s apart at 120 BPM.
+    expect(Math.abs(sections[1].start - 30)).toBeLessThanOrEqual(2);
+    expect(sections[1].end).toBe(60);
+  });
+});
+
+describe('formatTimecode', () => {
+  it('formats seconds as minutes and tenths of a second', () => {
+    expect(formatTimecode(0)).toBe('0:00.0');
+    expect(formatTimecode(64.5)).toBe('1:04.5');
+  });
+
+  it('carries a rounded-up minute over instead of showing 60 seconds', () => {
+    expect(formatTimecode(59.96)).toBe('1:00.0');
+    expect(formatTimecode(119.99)).toBe('2:00.0');
+  });
+});
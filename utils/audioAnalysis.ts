@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {EnergyLevel, MusicVideoShot} from '../types';
+
+/** A stretch of a track whose loudness stays at roughly one level. */
+export interface AudioSection {
+  /** Start and end in seconds. */
+  start: number;
+  end: number;
+  energy: EnergyLevel;
+}
+
+/** The tempo, beat grid and energy sections of a track. */
+export interface AudioAnalysis {
+  /** Length of the track in seconds. */
+  duration: number;
+  bpm: number;
+  /** Beat times in seconds; every fourth beat, from the first, starts a bar. */
+  beats: number[];
+  sections: AudioSection[];
+}
+
+/** A planned shot: where it starts and ends in the track. */
+export type TimedShot = Omit<MusicVideoShot, 'description'>;
+
+/**
+ * Tracks are decoded at a low sample rate: beat and energy detection only
+ * needs the envelope, and it keeps long songs small in memory.
+ */
+const ANALYSIS_SAMPLE_RATE = 22050;
+/** Samples per envelope frame, about 23ms at the analysis sample rate. */
+const HOP_SIZE = 512;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+/** Tempo estimates are biased towards this, where most pop music sits. */
+const PREFERRED_BPM = 120;
+const BEATS_PER_BAR = 4;
+/** Shorter tracks do not have enough beats to find a tempo. */
+const MIN_TRACK_SECONDS = 4;
+/** Sections shorter than this many bars are merged into their neighbours. */
+const MIN_SECTION_BARS = 4;
+/**
+ * Bars quieter than this share of the track's average loudness are low
+ * energy, and bars louder than `HIGH_ENERGY_RATIO` of it are high energy.
+ */
+const LOW_ENERGY_RATIO = 0.75;
+const HIGH_ENERGY_RATIO = 1.33;
+
+/** Loudness of each frame, as RMS of its samples. */
+const frameEnergies = (samples: Float32Array): Float32Array => {
+  const frames = new Float32Array(Math.floor(samples.length / HOP_SIZE));
+  for (let f = 0; f < frames.length; f++) {
+    let sum = 0;
+    for (let i = f * HOP_SIZE; i < (f + 1) * HOP_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    frames[f] = Math.sqrt(sum / HOP_SIZE);
+  }
+  return frames;
+};
+
+/**
+ * How strongly a new sound starts in each frame: the rise in log energy over
+ * the previous frame, ignoring decays.
+ */
+const onsetStrengths = (energies: Float32Array): Float32Array => {
+  const onsets = new Float32Array(energies.length);
+  for (let f = 1; f < energies.length; f++) {
+    const rise =
+      Math.log1p(energies[f] * 100) - Math.log1p(energies[f - 1] * 100);
+    onsets[f] = Math.max(0, rise);
+  }
+  return onsets;
+};
+
+/**
+ * Finds the beat period, in frames, with the strongest autocorrelation of the
+ * onset strengths, weighted towards `PREFERRED_BPM` so that half and double
+ * tempos lose to the more natural reading.
+ */
+const estimatePeriod = (onsets: Float32Array, framesPerSecond: number) => {
+  const minLag = Math.floor((framesPerSecond * 60) / MAX_BPM);
+  const maxLag = Math.ceil((framesPerSecond * 60) / MIN_BPM);
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let f = lag; f < onsets.length; f++) {
+      sum += onsets[f] * onsets[f - lag];
+    }
+    const bpm = (framesPerSecond * 60) / lag;
+    const octavesFromPreferred = Math.log2(bpm / PREFERRED_BPM);
+    const score =
+      (sum / (onsets.length - lag)) *
+      Math.exp(-0.5 * (octavesFromPreferred / 0.9) ** 2);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+};
+
+/** Beats are phase-aligned over this many periods, before the tempo drifts. */
+const PHASE_WINDOW_BEATS = 16;
+
+/**
+ * Places beats one period apart, aligned with the onsets where the music
+ * starts, and lets each beat move slightly to the strongest nearby onset so
+ * the grid follows small tempo drifts.
+ */
+const trackBeats = (onsets: Float32Array, period: number): number[] => {
+  const mean = onsets.reduce((sum, onset) => sum + onset, 0) / onsets.length;
+  const firstOnset = Math.max(
+    0,
+    onsets.findIndex((onset) => onset > mean),
+  );
+  let anchor = firstOnset;
+  let bestScore = -Infinity;
+  for (let phase = firstOnset; phase < firstOnset + period; phase++) {
+    let sum = 0;
+    for (
+      let f = phase;
+      f < Math.min(onsets.length, phase + period * PHASE_WINDOW_BEATS);
+      f += period
+    ) {
+      sum += onsets[f];
+    }
+    if (sum > bestScore) {
+      bestScore = sum;
+      anchor = phase;
+    }
+  }
+
+  const tolerance = Math.max(1, Math.round(period * 0.1));
+  const snap = (expected: number) => {
+    let beat = expected;
+    for (
+      let f = Math.max(0, expected - tolerance);
+      f <= Math.min(onsets.length - 1, expected + tolerance);
+      f++
+    ) {
+      if (onsets[f] > onsets[beat]) beat = f;
+    }
+    return beat;
+  };
+
+  const beats: number[] = [];
+  for (let beat = anchor - period; beat >= 0; beat -= period) {
+    beats.unshift(beat);
+  }
+  for (
+    let beat = snap(anchor);
+    beat < onsets.length;
+    beat = snap(beat + period)
+  ) {
+    beats.push(beat);
+  }
+  return beats;
+};
+
+/** Consecutive bars rated at one energy level. */
+interface BarRun {
+  firstBar: number;
+  bars: number;
+  energy: EnergyLevel;
+  /** The summed loudness of the bars, for their average. */
+  total: number;
+}
+
+const averageEnergy = (run: BarRun) => run.total / run.bars;
+
+/** Joins neighbouring runs that have the same energy level. */
+const joinEqualRuns = (runs: BarRun[]): BarRun[] =>
+  runs.reduce<BarRun[]>((joined, run) => {
+    const last = joined[joined.length - 1];
+    if (last?.energy === run.energy) {
+      last.bars += run.bars;
+      last.total += run.total;
+    } else {
+      joined.push({...run});
+    }
+    return joined;
+  }, []);
+
+/**
+ * Splits the track into bars and rates each bar low, medium or high against
+ * the average loudness of the whole track. Runs of equally rated bars become
+ * sections; runs too short to be a section join the neighbour closest to
+ * them in loudness.
+ */
+const detectSections = (
+  energies: Float32Array,
+  beatFrames: number[],
+  framesPerSecond: number,
+  duration: number,
+): AudioSection[] => {
+  const barStarts = beatFrames.filter((_, i) => i % BEATS_PER_BAR === 0);
+  if (barStarts.length < 2) {
+    return [{start: 0, end: duration, energy: 'medium'}];
+  }
+  const barEnergies = barStarts.map((start, i) => {
+    const end = barStarts[i + 1] ?? energies.length;
+    let sum = 0;
+    for (let f = start; f < end; f++) sum += energies[f];
+    return sum / Math.max(1, end - start);
+  });
+  const average =
+    barEnergies.reduce((sum, energy) => sum + energy, 0) / barEnergies.length;
+  let merged = joinEqualRuns(
+    barEnergies.map((energy, bar) => ({
+      firstBar: bar,
+      bars: 1,
+      energy:
+        energy < average * LOW_ENERGY_RATIO
+          ? 'low'
+          : energy > average * HIGH_ENERGY_RATIO
+            ? 'high'
+            : 'medium',
+      total: energy,
+    })),
+  );
+  // The shortest run is merged first, so a brief dip between two loud parts
+  // does not swallow either of them.
+  while (merged.length > 1) {
+    const shortest = merged.reduce<number | null>(
+      (shortest, run, i) =>
+        run.bars < MIN_SECTION_BARS &&
+        (shortest === null || run.bars < merged[shortest].bars)
+          ? i
+          : shortest,
+      null,
+    );
+    if (shortest === null) break;
+    const run = merged[shortest];
+    const distance = (neighbour?: BarRun) =>
+      neighbour
+        ? Math.abs(averageEnergy(neighbour) - averageEnergy(run))
+        : Infinity;
+    const into =
+      distance(merged[shortest - 1]) <= distance(merged[shortest + 1])
+        ? shortest - 1
+        : shortest + 1;
+    const target = merged[into];
+    target.firstBar = Math.min(target.firstBar, run.firstBar);
+    target.bars += run.bars;
+    target.total += run.total;
+    merged.splice(shortest, 1);
+    merged = joinEqualRuns(merged);
+  }
+
+  return merged.map((run, i) => ({
+    start: i === 0 ? 0 : barStarts[run.firstBar] / framesPerSecond,
+    end:
+      i === merged.length - 1
+        ? duration
+        : barStarts[merged[i + 1].firstBar] / framesPerSecond,
+    energy: run.energy,
+  }));
+};
+
+/**
+ * Detects the tempo, beats and energy sections of a mono signal. Tempo comes
+ * from the autocorrelation of onset strengths, so it works best on music with
+ * a steady pulse.
+ */
+export const analyzeAudio = (
+  samples: Float32Array,
+  sampleRate: number,
+): AudioAnalysis => {
+  const duration = samples.length / sampleRate;
+  if (duration < MIN_TRACK_SECONDS) {
+    throw new Error('The track is too short to detect a beat.');
+  }
+  const framesPerSecond = sampleRate / HOP_SIZE;
+  const energies = frameEnergies(samples);
+  const onsets = onsetStrengths(energies);
+
+  const period = estimatePeriod(onsets, framesPerSecond);
+  const beatFrames = trackBeats(onsets, period);
+  return {
+    duration,
+    bpm: Math.round((framesPerSecond * 60) / period),
+    beats: beatFrames.map((frame) => frame / framesPerSecond),
+    sections: detectSections(energies, beatFrames, framesPerSecond, duration),
+  };
+};
+
+/** Decodes an audio file in the browser and analyzes it. */
+export const analyzeAudioFile = async (file: File): Promise<AudioAnalysis> => {
+  // The context only decodes; its length of one frame is never rendered.
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return analyzeAudio(samples, buffer.sampleRate);
+};
+
+/** How many bars a shot lasts at each energy level: louder parts cut faster. */
+const BARS_PER_SHOT: Record<EnergyLevel, number> = {
+  low: 4,
+  medium: 2,
+  high: 1,
+};
+
+/**
+ * Plans the shots of a music video. Every cut lands on a beat, every section
+ * boundary is a cut, and shots last a number of bars that depends on the
+ * section's energy, but never longer than `maxShotSeconds`.
+ */
+export const planBeatAlignedShots = (
+  {beats, sections}: AudioAnalysis,
+  maxShotSeconds: number,
+): TimedShot[] => {
+  const shots: TimedShot[] = [];
+  for (const section of sections) {
+    const cuts = beats.filter(
+      (beat) => beat > section.start && beat < section.end,
+    );
+    const beatsPerShot = BARS_PER_SHOT[section.energy] * BEATS_PER_BAR;
+    let start = section.start;
+    while (section.end - start > 1e-3) {
+      const remaining = cuts.filter((beat) => beat > start);
+      // The furthest beat within both the shot length and the clip limit.
+      const end =
+        remaining
+          .slice(0, beatsPerShot)
+          .filter((beat) => beat - start <= maxShotSeconds)
+          .pop() ?? Math.min(section.end, start + maxShotSeconds);
+      const isLastBeforeEnd =
+        section.end - start <= maxShotSeconds &&
+        remaining.length <= beatsPerShot;
+      const shotEnd = isLastBeforeEnd ? section.end : end;
+      shots.push({start, end: shotEnd, energy: section.energy});
+      start = shotEnd;
+    }
+  }
+  return shots;
+};
+
+/** Formats seconds as `m:ss.s`, e.g. `1:04.5`. */
+export const formatTimecode = (seconds: number) => {
+  // Rounded as a whole first, so 59.96 carries over to `1:00.0`.
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {beatsToSrt, parseCashCowBeats} from './cashCow';
+
+describe('parseCashCowBeats', () => {
+  it('derives missing timings from the neighbouring beats', () => {
+    const beats = parseCashCowBeats(
+      JSON.stringify([
+        {generation_prompt: 'A', narration: 'One', start_seconds: 0},
+        {generation_prompt: 'B', narration: 'Two', start_seconds: '4.5'},
+        {generation_prompt: 'C', narration: 'Three', end_seconds: 'soon'},
+      ]),
+    );
+
+    expect(
+      beats?.map(({start_seconds, end_seconds}) => [
+        start_seconds,
+        end_seconds,
+      ]),
+    ).toEqual([
+      [0, 4.5],
+      [4.5, 9.5],
+      [9.5, 14.5],
+    ]);
+  });
+
+  it('reads narration that is not text as text', () => {
+    const beats = parseCashCowBeats(
+      JSON.stringify([
+        {generation_prompt: 'A', narration: 42},
+        {generation_prompt: 'B', narration: null},
+        {generation_prompt: 'C', narration: ['Line one', 'line two']},
+      ]),
+    );
+
+    expect(beats?.map((beat) => beat.narration)).toEqual([
+      '42',
+      '',
+      'Line one line two',
+    ]);
+    expect(beatsToSrt(beats!)).toBe(
+      '1\n00:00:00,000 --> 00:00:05,000\n42\n\n' +
+        '2\n00:00:10,000 --> 00:00:15,000\nLine one line two\n',
+    );
+  });
+});
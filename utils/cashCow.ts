@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CashCowBeat} from '../types';
+import {stripJsonFences} from './promptSchemas';
+
+/** How long a beat lasts when the script gives no usable timing for it. */
+const DEFAULT_BEAT_SECONDS = 5;
+
+/** A time in seconds read from a beat, or null if it is missing or invalid. */
+const readSeconds = (value: unknown): number | null => {
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0
+    ? seconds
+    : null;
+};
+
+/** The text of a beat field, e.g. narration given as a number or a list. */
+const readText = (value: unknown): string =>
+  value === null || value === undefined
+    ? ''
+    : Array.isArray(value)
+      ? value.join(' ')
+      : String(value);
+
+/**
+ * Reads the beats of a Cash Cow script. Returns null if the text is not a
+ * JSON array of beats, e.g. while the user is editing it. A beat without a
+ * valid start follows the beat before it, and one without a valid end lasts
+ * until the next beat starts, or `DEFAULT_BEAT_SECONDS`. Narration and
+ * captions that are not text are read as text.
+ */
+export const parseCashCowBeats = (script: string): CashCowBeat[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(script));
+  } catch (e) {
+    return null;
+  }
+  if (
+    !Array.isArray(parsed) ||
+    !parsed.every((beat) => typeof beat?.generation_prompt === 'string')
+  ) {
+    return null;
+  }
+  return parsed.reduce<CashCowBeat[]>((beats, beat, index) => {
+    const start =
+      readSeconds(beat.start_seconds) ?? beats[index - 1]?.end_seconds ?? 0;
+    const end = [
+      readSeconds(beat.end_seconds),
+      readSeconds(parsed[index + 1]?.start_seconds),
+    ].find((seconds) => seconds !== null && seconds > start);
+    beats.push({
+      ...beat,
+      beat_number: beat.beat_number ?? index + 1,
+      start_seconds: start,
+      end_seconds: end ?? start + DEFAULT_BEAT_SECONDS,
+      narration: readText(beat.narration),
+      caption: readText(beat.caption),
+    });
+    return beats;
+  }, []);
+};
+
+/** Formats seconds as an SRT timestamp, e.g. `00:01:04,500`. */
+const srtTimestamp = (seconds: number) => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(
+    Math.floor(ms / 60000) % 60,
+  )}:${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * Writes the beats' narration as SubRip subtitles, one cue per beat, so the
+ * captions can be burned in or uploaded with the finished video.
+ */
+export const beatsToSrt = (beats: CashCowBeat[]): string =>
+  beats
+    .filter((beat) => beat.narration.trim())
+    .map(
+      (beat, index) =>
+        `${index + 1}\n${srtTimestamp(beat.start_seconds)} --> ${srtTimestamp(
+          beat.end_seconds,
+        )}\n${beat.narration.trim()}\n`,
+    )
+    .join('\n');
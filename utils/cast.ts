@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CastMember} from '../types';
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns the cast members whose name appears in the scene text, matched as a
+ * whole word and ignoring case. Members without a name never match.
+ */
+export const findCastInScene = (
+  cast: CastMember[],
+  scene: string,
+): CastMember[] =>
+  cast.filter((member) => {
+    const name = member.name.trim();
+    return (
+      !!name &&
+      new RegExp(`(^|\\W)${escapeRegExp(name)}(?=\\W|$)`, 'i').test(scene)
+    );
+  });
+
+/**
+ * Describes cast members for an image prompt, e.g.
+ * `Mira: a girl with red braids; The Lantern: a brass oil lamp`.
+ */
+export const describeCast = (members: CastMember[]): string =>
+  members
+    .map((member) =>
+      member.description.trim()
+        ? `${member.name.trim()}: ${member.description.trim()}`
+        : member.name.trim(),
+    )
+    .join('; ');
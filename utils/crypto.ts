@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {EncryptedText} from '../types';
+import {base64ToBytes, bytesToBase64} from './files';
+
+/** PBKDF2-SHA-256 rounds; slows down guessing a passphrase offline. */
+const PBKDF2_ITERATIONS = 600_000;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    {name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256'},
+    material,
+    {name: 'AES-GCM', length: 256},
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+/** Encrypts `text` with AES-GCM under a key derived from `passphrase`. */
+export const encryptText = async (
+  text: string,
+  passphrase: string,
+): Promise<EncryptedText> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    {name: 'AES-GCM', iv},
+    await deriveKey(passphrase, salt),
+    new TextEncoder().encode(text),
+  );
+  return {
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+/**
+ * Decrypts text encrypted by `encryptText`. Rejects if the passphrase is
+ * wrong, which AES-GCM detects as tampered data.
+ */
+export const decryptText = async (
+  {salt, iv, ciphertext}: EncryptedText,
+  passphrase: string,
+): Promise<string> => {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {name: 'AES-GCM', iv: base64ToBytes(iv)},
+      await deriveKey(passphrase, base64ToBytes(salt)),
+      base64ToBytes(ciphertext),
+    );
+  } catch (e) {
+    throw new Error('Wrong passphrase.', {cause: e});
+  }
+  return new TextDecoder().decode(plaintext);
+};
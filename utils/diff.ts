@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A row of a side-by-side diff. `left` is the line in the old text and
+ * `right` the line in the new one; either is null where the other side has a
+ * line the first does not.
+ */
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left: string | null;
+  right: string | null;
+}
+
+/** The lines both texts share, in order, as [oldIndex, newIndex] pairs. */
+const commonLines = (a: string[], b: string[]): [number, number][] => {
+  // lengths[i][j] is the longest common subsequence of a[i:] and b[j:].
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Compares two texts line by line. Lines removed and added at the same place
+ * are paired up as changed, so the rows can be shown as two aligned columns.
+ */
+export const diffLines = (oldText: string, newText: string): DiffRow[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  // A sentinel pair past the end flushes the lines after the last match.
+  for (const [nextI, nextJ] of [
+    ...commonLines(a, b),
+    [a.length, b.length] as [number, number],
+  ]) {
+    const removed = a.slice(i, nextI);
+    const added = b.slice(j, nextJ);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({
+        kind: left === null ? 'added' : right === null ? 'removed' : 'changed',
+        left,
+        right,
+      });
+    }
+    if (nextI < a.length) {
+      rows.push({kind: 'same', left: a[nextI], right: b[nextJ]});
+    }
+    i = nextI + 1;
+    j = nextJ + 1;
+  }
+  return rows;
+};
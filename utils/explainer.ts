@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ExplainerShot} from '../types';
+import {stripJsonFences} from './promptSchemas';
+
+/**
+ * Reads the shots of an explainer prompt. Returns null if the text is not a
+ * JSON array of shots with generation prompts, e.g. while the user is editing
+ * it. Prompts saved as `{scenes: [...]}` are read too.
+ */
+export const parseExplainerShots = (prompt: string): ExplainerShot[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(prompt));
+  } catch (e) {
+    return null;
+  }
+  const shots = Array.isArray(parsed)
+    ? parsed
+    : (parsed as {scenes?: unknown} | null)?.scenes;
+  if (
+    !Array.isArray(shots) ||
+    !shots.every((shot) => typeof shot?.generation_prompt === 'string')
+  ) {
+    return null;
+  }
+  return shots.map((shot, index) => ({
+    ...shot,
+    shot_number: shot.shot_number ?? index + 1,
+    audio: shot.audio ?? {},
+  }));
+};
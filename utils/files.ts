@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Reads a file and returns its contents as a base64 string (without the
+ * `data:` URL prefix), ready to be sent as inline data.
+ */
+export const fileToBase64 = (file: File): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+/** Decodes a base64 string (without the `data:` URL prefix) into bytes. */
+export const base64ToBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+/**
+ * The MIME type of a base64 generated image, JPEG or PNG, read from the PNG
+ * signature at its start.
+ */
+export const imageMimeType = (base64: string): 'image/jpeg' | 'image/png' =>
+  base64.startsWith('iVBORw0KGgo') ? 'image/png' : 'image/jpeg';
+
+/** The file extension of a base64 generated image, without the dot. */
+export const imageExtension = (base64: string): 'jpg' | 'png' =>
+  imageMimeType(base64) === 'image/png' ? 'png' : 'jpg';
+
+/** A `data:` URL for a base64 generated image, for use as an `<img>` source. */
+export const imageDataUrl = (base64: string): string =>
+  `data:${imageMimeType(base64)};base64,${base64}`;
+
+/**
+ * Wraps a base64 generated image (without the `data:` URL prefix) in a file
+ * named `baseName` with the extension of its format.
+ */
+export const base64ToImageFile = (base64: string, baseName: string): File =>
+  new File([base64ToBytes(base64)], `${baseName}.${imageExtension(base64)}`, {
+    type: imageMimeType(base64),
+  });
+
+/** Encodes bytes as a base64 string without the `data:` URL prefix. */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Starts a browser download of a blob under the given file name. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Schema, Type} from '@google/genai';
+import {
+  CashCowBeat,
+  ExplainerShot,
+  IntroSegment,
+  LogoSegment,
+  StoryboardShot,
+} from '../types';
+
+/** The generators that can produce structured JSON prompts. */
+export type PromptSchemaKind =
+  'logo' | 'introOutro' | 'explainer' | 'storyboard' | 'cashCow';
+
+/**
+ * A compact description of an object's fields. Nested objects are described
+ * by another `FieldSpec`; every field is required.
+ */
+type FieldType = 'string' | 'number' | 'string[]' | FieldSpec;
+interface FieldSpec {
+  [field: string]: FieldType;
+}
+
+/**
+ * The `FieldSpec` that exactly describes `T`, so a spec cannot drift from the
+ * TypeScript type it validates.
+ */
+type SpecFor<T> = {
+  [K in keyof T]-?: T[K] extends string
+    ? 'string'
+    : T[K] extends number
+      ? 'number'
+      : T[K] extends string[]
+        ? 'string[]'
+        : SpecFor<T[K]>;
+};
+
+const LOGO_SEGMENT_SPEC: SpecFor<LogoSegment> = {
+  segment_number: 'number',
+  segment_title: 'string',
+  time_range: 'string',
+  setting: 'string',
+  action_and_movement: 'string',
+  camera: 'string',
+  visual_style_and_aesthetics: 'string',
+  audio: 'string',
+  text_overlay: 'string',
+  generation_prompt: 'string',
+};
+
+const INTRO_SEGMENT_SPEC: SpecFor<IntroSegment> = {
+  segment_number: 'number',
+  segment_title: 'string',
+  time_range: 'string',
+  setting: 'string',
+  action_and_movement: 'string',
+  camera: 'string',
+  visual_style_and_aesthetics: 'string',
+  audio: 'string',
+  text_and_overlays: 'string',
+  generation_prompt: 'string',
+};
+
+const EXPLAINER_SHOT_SPEC: SpecFor<ExplainerShot> = {
+  shot_number: 'number',
+  key_point_covered: 'string',
+  audio: {
+    voiceover: 'string',
+  },
+  generation_prompt: 'string',
+};
+
+const STORYBOARD_SHOT_SPEC: SpecFor<StoryboardShot> = {
+  shot_number: 'number',
+  scene_description: 'string',
+  suggested_duration: 'string',
+  subject: 'string',
+  action: 'string',
+  scene: 'string',
+  camera: {
+    angle: 'string',
+    movement: 'string',
+    lens_effects: 'string',
+  },
+  style: {
+    visual_style: 'string',
+    mood: 'string',
+    lighting: 'string',
+    color_palette: 'string',
+  },
+  audio: {
+    ambience: 'string',
+    sfx: 'string[]',
+    music: 'string',
+  },
+  generation_prompt: 'string',
+};
+
+const CASH_COW_BEAT_SPEC: SpecFor<CashCowBeat> = {
+  beat_number: 'number',
+  start_seconds: 'number',
+  end_seconds: 'number',
+  narration: 'string',
+  caption: 'string',
+  generation_prompt: 'string',
+};
+
+const SPECS: Record<PromptSchemaKind, FieldSpec> = {
+  logo: LOGO_SEGMENT_SPEC,
+  introOutro: INTRO_SEGMENT_SPEC,
+  explainer: EXPLAINER_SHOT_SPEC,
+  storyboard: STORYBOARD_SHOT_SPEC,
+  cashCow: CASH_COW_BEAT_SPEC,
+};
+
+const fieldToSchema = (field: FieldType): Schema => {
+  if (field === 'string') return {type: Type.STRING};
+  if (field === 'number') return {type: Type.NUMBER};
+  if (field === 'string[]') {
+    return {type: Type.ARRAY, items: {type: Type.STRING}};
+  }
+  const keys = Object.keys(field);
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(
+      keys.map((key) => [key, fieldToSchema(field[key])]),
+    ),
+    required: keys,
+    propertyOrdering: keys,
+  };
+};
+
+/**
+ * Builds the `responseSchema` passed to the model's structured-output config:
+ * a JSON array whose items follow the given generator's schema.
+ */
+export const getResponseSchema = (kind: PromptSchemaKind): Schema => ({
+  type: Type.ARRAY,
+  items: fieldToSchema(SPECS[kind]),
+});
+
+/** A single problem found while validating a JSON prompt. */
+export interface ValidationIssue {
+  /** Location of the offending field, e.g. `[2].camera.angle`. */
+  path: string;
+  problem: 'missing' | 'wrong type';
+  expected: string;
+  received?: string;
+}
+
+export interface ValidationReport {
+  /** Set when the text could not be parsed as JSON at all. */
+  parseError?: string;
+  issues: ValidationIssue[];
+  itemCount: number;
+}
+
+const describeType = (field: FieldType) =>
+  typeof field === 'string' ? field : 'object';
+
+const describeValue = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (field: FieldType, value: unknown): boolean => {
+  if (field === 'string') return typeof value === 'string';
+  if (field === 'number') return typeof value === 'number';
+  if (field === 'string[]') {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string');
+  }
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const validateObject = (
+  spec: FieldSpec,
+  value: Record<string, unknown>,
+  path: string,
+  issues: ValidationIssue[],
+) => {
+  for (const [key, field] of Object.entries(spec)) {
+    const fieldPath = `${path}.${key}`;
+    if (!(key in value) || value[key] === undefined) {
+      issues.push({
+        path: fieldPath,
+        problem: 'missing',
+        expected: describeType(field),
+      });
+    } else if (!matchesType(field, value[key])) {
+      issues.push({
+        path: fieldPath,
+        problem: 'wrong type',
+        expected: describeType(field),
+        received: describeValue(value[key]),
+      });
+    } else if (typeof field === 'object') {
+      validateObject(
+        field,
+        value[key] as Record<string, unknown>,
+        fieldPath,
+        issues,
+      );
+    }
+  }
+};
+
+/**
+ * Removes markdown code fences the model sometimes wraps around JSON output.
+ */
+export const stripJsonFences = (text: string) =>
+  text
+    .trim()
+    .replace(/^```(?:json)?\n?/, '')
+    .replace(/```$/, '')
+    .trim();
+
+/**
+ * Parses a generator's JSON output and checks every item against that
+ * generator's schema, listing exactly which fields are missing or mistyped.
+ */
+export const validatePromptJson = (
+  kind: PromptSchemaKind,
+  text: string,
+): ValidationReport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(text));
+  } catch (e) {
+    return {
+      parseError: e instanceof Error ? e.message : String(e),
+      issues: [],
+      itemCount: 0,
+    };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return {
+      issues: [
+        {
+          path: '',
+          problem: 'wrong type',
+          expected: 'array',
+          received: describeValue(parsed),
+        },
+      ],
+      itemCount: 0,
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  parsed.forEach((item, index) => {
+    const path = `[${index}]`;
+    if (!matchesType({}, item)) {
+      issues.push({
+        path,
+        problem: 'wrong type',
+        expected: 'object',
+        received: describeValue(item),
+      });
+      return;
+    }
+    validateObject(SPECS[kind], item as Record<string, unknown>, path, issues);
+  });
+
+  return {issues, itemCount: parsed.length};
+};
+
+/** Whether a master prompt is in the JSON format rather than the classic one. */
+export const looksLikeJson = (text: string) =>
+  /^[[{]/.test(stripJsonFences(text));
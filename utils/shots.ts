@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {stripJsonFences} from './promptSchemas';
+
+/** A single shot extracted from a director's master prompt. */
+export interface Shot {
+  title: string;
+  prompt: string;
+}
+
+/** Matches the `--- SCENE 1 ---` / `--- PROMPT 2: Reveal (2-4s) ---` headers. */
+const CLASSIC_HEADER = /--- ((?:SCENE|PROMPT) \d+[^\n]*?) ---/g;
+
+const shotTitle = (item: Record<string, unknown>, index: number) =>
+  [
+    item.segment_title,
+    item.key_point_covered,
+    item.scene_description,
+    item.caption,
+  ].find(
+    (title): title is string => typeof title === 'string' && !!title.trim(),
+  ) ?? `Shot ${index + 1}`;
+
+const splitJson = (masterPrompt: string): Shot[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(masterPrompt));
+  } catch (e) {
+    return null;
+  }
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as {scenes?: unknown})?.scenes;
+  if (!Array.isArray(items)) {
+    return null;
+  }
+  return items
+    .filter(
+      (item) =>
+        typeof item?.generation_prompt === 'string' &&
+        item.generation_prompt.trim(),
+    )
+    .map((item, index) => ({
+      title: shotTitle(item, index),
+      prompt: item.generation_prompt.trim(),
+    }));
+};
+
+const splitClassic = (masterPrompt: string): Shot[] => {
+  const headers = [...masterPrompt.matchAll(CLASSIC_HEADER)];
+  return headers
+    .map((header, index) => {
+      const start = header.index! + header[0].length;
+      const end = headers[index + 1]?.index ?? masterPrompt.length;
+      return {
+        title: header[1].trim(),
+        prompt: masterPrompt.slice(start, end).trim(),
+      };
+    })
+    .filter((shot) => shot.prompt);
+};
+
+/**
+ * Splits a master prompt into its individual shots, for both the JSON format
+ * (an array of objects with a `generation_prompt`) and the classic format
+ * (blocks separated by `--- SCENE n ---` or `--- PROMPT n ---` headers).
+ * Text without any recognisable structure is returned as a single shot.
+ */
+export const splitMasterPrompt = (masterPrompt: string): Shot[] => {
+  if (!masterPrompt.trim()) {
+    return [];
+  }
+  const shots = splitJson(masterPrompt) ?? splitClassic(masterPrompt);
+  return shots.length > 0
+    ? shots
+    : [{title: 'Shot 1', prompt: masterPrompt.trim()}];
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {StylePreset, StylePresetTarget} from '../types';
+import {stripJsonFences} from './promptSchemas';
+
+export const STYLE_PRESET_TARGETS: StylePresetTarget[] = [
+  'storyboard',
+  'logo',
+  'introOutro',
+];
+
+/** A preset as it is exported: without its local ID or built-in flag. */
+export type ExportedStylePreset = Omit<StylePreset, 'id' | 'builtIn'>;
+
+/** The presets a generator offers, in the order they are given. */
+export const presetsFor = (
+  presets: StylePreset[],
+  target: StylePresetTarget,
+): StylePreset[] => presets.filter((preset) => preset.targets.includes(target));
+
+const findPreset = (
+  presets: StylePreset[],
+  target: StylePresetTarget,
+  name: string,
+) => presetsFor(presets, target).find((candidate) => candidate.name === name);
+
+/**
+ * The style text given to a generator for the style picked in it: the name,
+ * followed by the preset's prompt fragment, if it has one. Negative terms are
+ * left out, as naming them in a prompt tends to add them to the picture.
+ */
+export const describeStylePreset = (
+  presets: StylePreset[],
+  target: StylePresetTarget,
+  name: string,
+): string => {
+  const fragment = findPreset(presets, target, name)?.promptFragment.trim();
+  return `${name}${fragment ? ` (${fragment})` : ''}`;
+};
+
+/**
+ * The negative terms of the style picked in a generator, sent to the video
+ * model as its negative prompt; empty if there are none.
+ */
+export const stylePresetNegativeTerms = (
+  presets: StylePreset[],
+  target: StylePresetTarget,
+  name: string,
+): string => findPreset(presets, target, name)?.negativeTerms.trim() ?? '';
+
+export const exportStylePresets = (presets: StylePreset[]): string =>
+  JSON.stringify(
+    presets.map(({id, builtIn, ...preset}): ExportedStylePreset => preset),
+    null,
+    2,
+  );
+
+const isTarget = (value: unknown): value is StylePresetTarget =>
+  STYLE_PRESET_TARGETS.includes(value as StylePresetTarget);
+
+const textField = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * Reads exported style presets, either a JSON array or a single preset.
+ * Returns null if the text is not JSON or a preset has no name; unknown
+ * generators are dropped and a preset with none left is offered in all.
+ */
+export const parseStylePresets = (
+  text: string,
+): ExportedStylePreset[] | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(text));
+  } catch (e) {
+    return null;
+  }
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  if (
+    items.length === 0 ||
+    !items.every(
+      (item) => typeof item?.name === 'string' && item.name.trim() !== '',
+    )
+  ) {
+    return null;
+  }
+  return items.map((item) => {
+    const targets = Array.isArray(item.targets)
+      ? item.targets.filter(isTarget)
+      : [];
+    return {
+      name: item.name.trim(),
+      description: textField(item.description),
+      targets: targets.length > 0 ? targets : STYLE_PRESET_TARGETS,
+      promptFragment: textField(item.promptFragment),
+      negativeTerms: textField(item.negativeTerms),
+      ...(typeof item.imageUrl === 'string' ? {imageUrl: item.imageUrl} : {}),
+    };
+  });
+};
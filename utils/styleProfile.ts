@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {StyleProfile} from '../types';
+import {stripJsonFences} from './promptSchemas';
+
+/** The text aspects of a style profile, in the order they are shown. */
+export const STYLE_PROFILE_FIELDS = [
+  'lighting',
+  'lens',
+  'texture',
+  'era',
+  'mood',
+] as const;
+
+export const EMPTY_STYLE_PROFILE: StyleProfile = {
+  palette: [],
+  lighting: '',
+  lens: '',
+  texture: '',
+  era: '',
+  mood: '',
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Reads a style profile from the style analysis or an imported file. Returns
+ * null if the text is not a JSON object with the profile's fields; colours
+ * that are not six-digit hex codes are dropped.
+ */
+export const parseStyleProfile = (text: string): StyleProfile | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonFences(text));
+  } catch (e) {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const fields = parsed as Record<string, unknown>;
+  if (
+    !Array.isArray(fields.palette) ||
+    !STYLE_PROFILE_FIELDS.every((field) => typeof fields[field] === 'string')
+  ) {
+    return null;
+  }
+  return {
+    palette: fields.palette.filter(
+      (color): color is string =>
+        typeof color === 'string' && HEX_COLOR.test(color),
+    ),
+    lighting: fields.lighting as string,
+    lens: fields.lens as string,
+    texture: fields.texture as string,
+    era: fields.era as string,
+    mood: fields.mood as string,
+  };
+};
+
+/** The profile as comma-separated keywords, for image and video prompts. */
+export const styleProfileKeywords = (profile: StyleProfile): string =>
+  [
+    ...STYLE_PROFILE_FIELDS.map((field) => profile[field].trim()),
+    profile.palette.length > 0 ? `palette ${profile.palette.join(' ')}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+/** The profile as labelled lines, for the prompt-writing models. */
+export const formatStyleProfile = (profile: StyleProfile): string =>
+  [
+    profile.palette.length > 0 ? `Palette: ${profile.palette.join(', ')}` : '',
+    ...STYLE_PROFILE_FIELDS.map((field) =>
+      profile[field].trim()
+        ? `${field[0].toUpperCase()}${field.slice(1)}: ${profile[field].trim()}`
+        : '',
+    ),
+  ]
+    .filter(Boolean)
+    .join('\n');
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef} from 'react';
+
+/**
+ * Hands out the abort signal of a component's generation run. Starting a run
+ * aborts the one before it, and unmounting, e.g. switching to another
+ * generator, aborts the run in flight, so its late results are never applied.
+ */
+export const useCancellableRun = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /** Aborts any run in flight and returns the signal of a new one. */
+  const start = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  };
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  return {start, cancel};
+};
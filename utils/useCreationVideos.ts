@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef, useState} from 'react';
+import {Creation, Video} from '../types';
+
+/** The object URLs made for one creation's clip and image. */
+interface CreationUrls {
+  videoUrl: string;
+  imageUrl: string;
+}
+
+const toUrl = (blob: Blob | null) => (blob ? URL.createObjectURL(blob) : '');
+
+const revokeUrls = ({videoUrl, imageUrl}: CreationUrls) =>
+  [videoUrl, imageUrl].forEach((url) => url && URL.revokeObjectURL(url));
+
+/**
+ * Returns the creations as `Video` records with object URLs for their clips
+ * and images. URLs are made once per creation and revoked when it is removed
+ * or the component unmounts, so the others keep playing when the list changes.
+ */
+export const useCreationVideos = (creations: Creation[]): Video[] => {
+  const [videos, setVideos] = useState<Video[]>([]);
+  const urlsById = useRef(new Map<string, CreationUrls>());
+
+  useEffect(() => {
+    const urls = urlsById.current;
+    const ids = new Set(creations.map((creation) => creation.id));
+    urls.forEach((creationUrls, id) => {
+      if (!ids.has(id)) {
+        revokeUrls(creationUrls);
+        urls.delete(id);
+      }
+    });
+    setVideos(
+      creations.map((creation) => {
+        let creationUrls = urls.get(creation.id);
+        if (!creationUrls) {
+          creationUrls = {
+            videoUrl: toUrl(creation.video),
+            imageUrl: toUrl(creation.image),
+          };
+          urls.set(creation.id, creationUrls);
+        }
+        return {
+          id: creation.id,
+          ...creationUrls,
+          title: creation.title,
+          description: creation.description,
+          tags: creation.tags,
+          parentId: creation.parentId,
+        };
+      }),
+    );
+  }, [creations]);
+
+  useEffect(() => {
+    const urls = urlsById.current;
+    return () => {
+      urls.forEach(revokeUrls);
+      urls.clear();
+    };
+  }, []);
+
+  return videos;
+};
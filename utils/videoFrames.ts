@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Grabs the first frame of a clip as a JPEG, e.g. for a poster image. Resolves
+ * with null if the browser cannot decode the clip.
+ */
+export const captureFirstFrame = (clip: Blob): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(clip);
+    const video = document.createElement('video');
+    const finish = (frame: Blob | null) => {
+      URL.revokeObjectURL(url);
+      resolve(frame);
+    };
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+      canvas.toBlob(finish, 'image/jpeg', 0.85);
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
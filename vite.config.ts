@@ -6,7 +6,10 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GENAI_BASE_URL': JSON.stringify(env.GENAI_BASE_URL ?? ''),
+        'process.env.GENAI_MOCK': JSON.stringify(env.GENAI_MOCK ?? ''),
+        'process.env.GENAI_USE_VERTEXAI': JSON.stringify(env.GENAI_USE_VERTEXAI ?? '')
       },
       resolve: {
         alias: {